@@ -6,12 +6,24 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import { LanguageProvider } from "@/contexts/language-context";
 import Home from "@/pages/home";
+import Saved from "@/pages/saved";
+import WatchlistPage from "@/pages/watchlist";
+import AlertsPage from "@/pages/alerts";
+import AdminIngestionPage from "@/pages/admin-ingestion";
+import AdminReviewPage from "@/pages/admin-review";
+import AdminArticlesPage from "@/pages/admin-articles";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/saved" component={Saved} />
+      <Route path="/watchlist" component={WatchlistPage} />
+      <Route path="/alerts" component={AlertsPage} />
+      <Route path="/admin/ingestion" component={AdminIngestionPage} />
+      <Route path="/admin/review" component={AdminReviewPage} />
+      <Route path="/admin/articles" component={AdminArticlesPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -1,6 +1,6 @@
 import { useState, useEffect, memo } from "react";
 import { Clock, Share2, TrendingUp, TrendingDown } from "lucide-react";
-import { cn, getCategoryColor } from "@/lib/utils";
+import { cn, getCategoryColor, getPriceChangeSentiment } from "@/lib/utils";
 import { useLanguage } from "@/contexts/language-context";
 import { LoadingSkeleton } from "./loading-skeleton";
 import { OptimizedImage } from "./optimized-image";
@@ -13,7 +13,7 @@ interface ArticleCardProps {
   onLanguageToggle?: () => void;
 }
 
-function getTimeAgo(dateString: string): string {
+function getTimeAgo(dateString: string | Date): string {
   const now = new Date();
   const articleDate = new Date(dateString);
   const diffInMs = now.getTime() - articleDate.getTime();
@@ -41,9 +41,7 @@ const ArticleCard = memo(function ArticleCard({ article, isActive, style, onLang
 
   // Get sentiment from price change
   const getSentiment = () => {
-    if (!article.priceChange) return 'neutral';
-    const priceValue = parseFloat(article.priceChange.replace(/[^\d.-]/g, ''));
-    return priceValue > 0 ? 'positive' : priceValue < 0 ? 'negative' : 'neutral';
+    return getPriceChangeSentiment(article.priceChangeBps);
   };
 
   const sentiment = getSentiment();
@@ -97,7 +95,7 @@ const ArticleCard = memo(function ArticleCard({ article, isActive, style, onLang
           {/* Time overlay */}
           <div className="absolute bottom-4 left-4 flex items-center gap-2 text-white/90 text-sm">
             <Clock className="w-4 h-4" />
-            <span>{getTimeAgo(article.createdAt)}</span>
+            <span>{getTimeAgo(article.publishedAt)}</span>
           </div>
         </div>
 
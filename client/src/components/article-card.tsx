@@ -1,50 +1,69 @@
 import { useState, useEffect, memo } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Clock, Share2, TrendingUp, Lock, Languages } from "lucide-react";
+import { Clock, Share2, TrendingUp, Lock, Bookmark, BookmarkCheck, Newspaper } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import { cn, formatPriceChange, getCategoryColor } from "@/lib/utils";
-import { useLanguage } from "@/contexts/language-context";
-import type { Article } from "@shared/schema";
+import { cn, formatPriceChange, getCategoryColor, getPriceChangeSentiment } from "@/lib/utils";
+import { useTranslation } from "@/hooks/use-translation";
+import { useBookmarks } from "@/hooks/use-bookmarks";
+import { LanguagePicker } from "@/components/language-picker";
+import type { FeedArticle } from "@shared/schema";
 
-// Time ago helper function
-function getTimeAgo(dateString: string): string {
-  const now = new Date();
-  const articleDate = new Date(dateString);
-  const diffInMs = now.getTime() - articleDate.getTime();
-  const diffInMinutes = Math.floor(diffInMs / (1000 * 60));
-  const diffInHours = Math.floor(diffInMinutes / 60);
-  const diffInDays = Math.floor(diffInHours / 24);
+// Other reports of the story this card stands in for, loaded the first time the list is opened
+function MoreSources({ articleId, count }: { articleId: number; count: number }) {
+  const [open, setOpen] = useState(false);
+  const { language, t, formatTimeAgo } = useTranslation();
+  const { data: others = [], isLoading } = useQuery<FeedArticle[]>({
+    queryKey: [`/api/articles/${articleId}/sources?lang=${language}`],
+    enabled: open,
+  });
 
-  if (diffInMinutes < 1) return "Just now";
-  if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
-  if (diffInHours < 24) return `${diffInHours}h ago`;
-  if (diffInDays < 7) return `${diffInDays}d ago`;
-  return articleDate.toLocaleDateString();
+  return (
+    <div className="rounded-lg border border-border/50">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center space-x-2 px-3 py-2 text-sm font-medium text-muted-foreground hover:text-foreground"
+      >
+        <Newspaper className="w-4 h-4" />
+        <span>{t("card.moreSources", { count })}</span>
+      </button>
+      {open && (
+        <ul className="px-3 pb-2 space-y-2">
+          {isLoading ? (
+            <li className="text-xs text-muted-foreground">{t("card.loading")}</li>
+          ) : (
+            others.map((other) => (
+              <li key={other.id} className="text-sm">
+                <div className="font-medium leading-snug">
+                  {other.locked && <Lock className="w-3 h-3 inline mr-1 text-amber-600" />}
+                  {other.title}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {other.source ?? other.contentSource ?? "StocksShorts"} · {formatTimeAgo(other.publishedAt)}
+                </div>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
 }
 
 interface ArticleCardProps {
-  article: Article;
+  article: FeedArticle;
   isActive: boolean;
   style?: React.CSSProperties;
-  onLanguageToggle?: () => void;
 }
 
-function getSentimentColor(sentiment: string | null): string {
-  if (!sentiment) return "";
-  
-  const s = sentiment.toLowerCase().trim();
-  if (s === 'bullish' || s === 'positive') {
-    return "border-l-4 border-green-500";
-  } else if (s === 'bearish' || s === 'negative') {
-    return "border-l-4 border-red-500";
-  } else if (s === 'neutral') {
-    return ""; // No color for neutral sentiment
-  }
-  return "";
+// Colours by the server's classification (editorial label, price move and text)
+function getSentimentColor(sentimentLabel: string | null): string {
+  if (sentimentLabel === 'bullish') return "border-l-4 border-green-500";
+  if (sentimentLabel === 'bearish') return "border-l-4 border-red-500";
+  return ""; // No color for neutral or unclassified articles
 }
 
-const ArticleCard = memo(function ArticleCard({ article, isActive, style, onLanguageToggle }: ArticleCardProps) {
-  const sentimentColorClass = getSentimentColor(article.sentiment);
+const ArticleCard = memo(function ArticleCard({ article, isActive, style }: ArticleCardProps) {
+  const sentimentColorClass = getSentimentColor(article.sentimentLabel);
   const [imageError, setImageError] = useState(false);
   const [imageKey, setImageKey] = useState(0);
   const [startTime, setStartTime] = useState<number | null>(null);
@@ -84,8 +103,7 @@ const ArticleCard = memo(function ArticleCard({ article, isActive, style, onLang
   }, [isActive, article.id, startTime]);
   
   // Sentiment analysis for price change
-  const priceChangeValue = parseFloat((article.priceChange || "0").replace(/[^\d.-]/g, ""));
-  const sentiment = priceChangeValue > 0 ? 'positive' : priceChangeValue < 0 ? 'negative' : 'neutral';
+  const sentiment = getPriceChangeSentiment(article.priceChangeBps);
 
   const getPriceChangeSentimentColor = () => {
     switch (sentiment) {
@@ -97,47 +115,9 @@ const ArticleCard = memo(function ArticleCard({ article, isActive, style, onLang
         return 'border-l-gray-300 bg-gray-50/50 dark:bg-gray-950/20';
     }
   };
-  const { language, setLanguage, isTranslating, setIsTranslating } = useLanguage();
-
-  // Determine news sentiment based on keywords
-  const getSentiment = (title: string, content: string) => {
-    const text = (title + " " + content).toLowerCase();
-    
-    const positiveWords = [
-      'surge', 'surged', 'rally', 'rallied', 'gain', 'gains', 'high', 'breakout', 'jump', 'jumped',
-      'rise', 'rises', 'rose', 'up', 'bullish', 'strong', 'positive', 'boost', 'soar', 'soared',
-      'hits new high', 'record high', 'all-time high', 'outperform', 'buy', 'upgrade', 'target',
-      'growth', 'profit', 'beat', 'beats', 'exceed', 'expansion', 'partnership', 'deal'
-    ];
-    
-    const negativeWords = [
-      'fall', 'falls', 'fell', 'drop', 'dropped', 'decline', 'declined', 'crash', 'crashed',
-      'bearish', 'weak', 'negative', 'loss', 'losses', 'low', 'bear', 'sell', 'downgrade',
-      'concern', 'concerns', 'worry', 'worries', 'risk', 'risks', 'cut', 'cuts', 'miss',
-      'misses', 'missed', 'disappoint', 'disappointing', 'slump', 'plunge', 'tumble'
-    ];
-
-    let positiveScore = 0;
-    let negativeScore = 0;
-
-    positiveWords.forEach(word => {
-      if (text.includes(word)) positiveScore++;
-    });
-
-    negativeWords.forEach(word => {
-      if (text.includes(word)) negativeScore++;
-    });
-
-    if (positiveScore > negativeScore) return 'positive';
-    if (negativeScore > positiveScore) return 'negative';
-    return 'neutral';
-  };
-
-
-
-
-
-
+  const { language, t, formatTimeAgo, formatDate } = useTranslation();
+  const { isBookmarked, toggleBookmark, isUpdating: isBookmarkUpdating } = useBookmarks();
+  const bookmarked = isBookmarked(article.id);
 
   const translateMutation = useMutation({
     mutationFn: async ({ text, targetLanguage }: { text: string; targetLanguage: string }) => {
@@ -164,20 +144,7 @@ const ArticleCard = memo(function ArticleCard({ article, isActive, style, onLang
     shareMutation.mutate();
   };
 
-  const handleLanguageToggle = () => {
-    if (onLanguageToggle) {
-      onLanguageToggle();
-    } else {
-      // Fallback for individual toggle
-      if (language === 'en') {
-        setLanguage('hi');
-      } else {
-        setLanguage('en');
-      }
-    }
-  };
-
-  const priceChangeInfo = formatPriceChange(article.priceChange || "");
+  const priceChangeInfo = formatPriceChange(article.priceChangeBps);
 
   // Process content to be continuous and fit on page
   const getFullContent = (content: string) => {
@@ -240,34 +207,37 @@ const ArticleCard = memo(function ArticleCard({ article, isActive, style, onLang
                 "font-bold leading-tight text-foreground tracking-tight flex-1 text-left",
                 language === 'hi' ? "text-left" : "text-left"
               )} style={{ fontSize: '24px', fontFamily: 'Arial, sans-serif' }}>
-                {language === 'hi' && article.titleHi ? article.titleHi : article.title.replace(/🔒\s*/, '')}
+                {article.title.replace(/🔒\s*/, '')}
               </h2>
-              <button
-                onClick={handleLanguageToggle}
-                disabled={isTranslating}
-                className={cn(
-                  "flex items-center space-x-1 px-3 py-1.5 rounded-full text-xs font-medium transition-all duration-300 hover:scale-105 border-2",
-                  language === 'hi' 
-                    ? "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300 border-blue-500 shadow-lg shadow-blue-500/25" 
-                    : "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300 border-orange-500 shadow-lg shadow-orange-500/25 hover:bg-orange-200 dark:hover:bg-orange-800"
-                )}
-              >
-                <Languages className={cn("w-3 h-3", language === 'hi' ? "text-blue-600" : "text-orange-600")} />
-                <span className="font-semibold">{isTranslating ? "..." : language === 'hi' ? "EN" : "हिंदी"}</span>
-              </button>
+              <LanguagePicker />
             </div>
 
-            <div className={cn(
-              "leading-relaxed text-foreground/90 whitespace-pre-line text-left",
-              language === 'hi' ? "text-left" : "text-left"
-            )} style={{ fontSize: '18px', fontFamily: 'Arial, sans-serif' }}>
-              {language === 'hi' && article.contentHi 
-                ? article.contentHi
-                : article.content
-                    .replace(/\*\*(.*?)\*\*/g, '$1')
-                    .replace(/•\s*/g, '• ')
-                    .trim()}
-            </div>
+            {article.locked ? (
+              <div className="rounded-lg border border-amber-300/60 bg-amber-50/60 dark:bg-amber-950/20 p-4 text-center space-y-3">
+                <Lock className="w-6 h-6 mx-auto text-amber-600" />
+                <p className="text-sm text-muted-foreground">
+                  {article.stockSymbol ? t("card.premiumSymbol", { symbol: article.stockSymbol }) : t("card.premium")}
+                </p>
+                <button
+                  onClick={() => window.dispatchEvent(new CustomEvent('openSubscription', { detail: { type: article.category } }))}
+                  className="px-4 py-2 rounded-full text-sm font-semibold text-white bg-gradient-to-r from-blue-600 to-purple-600"
+                >
+                  {t("card.unlock")}
+                </button>
+              </div>
+            ) : (
+              <div className={cn(
+                "leading-relaxed text-foreground/90 whitespace-pre-line text-left",
+                language === 'hi' ? "text-left" : "text-left"
+              )} style={{ fontSize: '18px', fontFamily: 'Arial, sans-serif' }}>
+                {article.content
+                  .replace(/\*\*(.*?)\*\*/g, '$1')
+                  .replace(/•\s*/g, '• ')
+                  .trim()}
+              </div>
+            )}
+
+            {!!article.moreSources && <MoreSources articleId={article.id} count={article.moreSources} />}
           </div>
 
           {/* Action Bar - Fixed at bottom */}
@@ -280,7 +250,18 @@ const ArticleCard = memo(function ArticleCard({ article, isActive, style, onLang
                   className="flex items-center space-x-1 text-muted-foreground hover:text-neutral transition-all duration-300"
                 >
                   <Share2 className="w-3 h-3" />
-                  <span className="font-medium">Share</span>
+                  <span className="font-medium">{t("card.share")}</span>
+                </button>
+                <button
+                  onClick={() => toggleBookmark(article.id)}
+                  disabled={isBookmarkUpdating}
+                  className={cn(
+                    "flex items-center space-x-1 transition-all duration-300",
+                    bookmarked ? "text-green-600" : "text-muted-foreground hover:text-neutral"
+                  )}
+                >
+                  {bookmarked ? <BookmarkCheck className="w-3 h-3" /> : <Bookmark className="w-3 h-3" />}
+                  <span className="font-medium">{bookmarked ? t("card.saved") : t("card.save")}</span>
                 </button>
                 {article.source && (
                   <div className="text-muted-foreground/60 bg-muted/20 px-2 py-0.5 rounded">
@@ -291,10 +272,15 @@ const ArticleCard = memo(function ArticleCard({ article, isActive, style, onLang
               <div className="flex items-center space-x-2 text-muted-foreground/60">
                 <div className="flex items-center space-x-1">
                   <Clock className="w-3 h-3" />
-                  <span>{getTimeAgo(article.createdAt)}</span>
+                  <span>{formatTimeAgo(article.publishedAt)}</span>
                 </div>
+                {article.revisedAt && (
+                  <div className="bg-amber-500/10 text-amber-600 px-2 py-0.5 rounded" title={formatDate(article.revisedAt, { dateStyle: "medium", timeStyle: "short" })}>
+                    {t("card.updated", { time: formatTimeAgo(article.revisedAt) })}
+                  </div>
+                )}
                 <div className="bg-muted/20 px-2 py-0.5 rounded">
-                  Swipe up
+                  {t("card.swipeUp")}
                 </div>
               </div>
             </div>
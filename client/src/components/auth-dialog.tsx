@@ -1,11 +1,12 @@
-import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Phone, Mail, Chrome } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Phone, Mail, MailCheck } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
@@ -14,69 +15,166 @@ interface AuthDialogProps {
   onClose: () => void;
 }
 
+interface AuthConfig {
+  phone: boolean;
+  email: boolean;
+  googleClientId: string | null;
+}
+
+declare global {
+  interface Window {
+    google?: any;
+  }
+}
+
+// apiRequest errors look like `400: {"message":"..."}`
+function getErrorMessage(error: any, fallback: string) {
+  const match = /^\d+: ([\s\S]*)$/.exec(error?.message || "");
+  try {
+    return match ? JSON.parse(match[1]).message || fallback : fallback;
+  } catch {
+    return match ? match[1] : fallback;
+  }
+}
+
+function loadGoogleIdentityScript(): Promise<void> {
+  if (window.google?.accounts?.id) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = "https://accounts.google.com/gsi/client";
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new Error("Failed to load Google sign-in"));
+    document.head.appendChild(script);
+  });
+}
+
 export function AuthDialog({ isOpen, onClose }: AuthDialogProps) {
   const [email, setEmail] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [linkSent, setLinkSent] = useState(false);
+  const googleButtonRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
-  const loginMutation = useMutation({
-    mutationFn: async (credentials: { email?: string; phoneNumber?: string; name?: string; googleId?: string }) => {
-      return await apiRequest("POST", "/api/auth/login", credentials);
+  const { data: config } = useQuery<AuthConfig>({
+    queryKey: ["/api/auth/config"],
+    enabled: isOpen,
+  });
+
+  const handleSignedIn = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    // Anonymous bookmarks are merged into the account on login
+    queryClient.invalidateQueries({ queryKey: ["/api/bookmarks"] });
+    toast({
+      title: "Success",
+      description: "You've been signed in successfully!",
+    });
+    setCode("");
+    setCodeSent(false);
+    onClose();
+  };
+
+  const handleError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const requestCodeMutation = useMutation({
+    mutationFn: async (data: { phoneNumber: string; name?: string }) => {
+      return await apiRequest("POST", "/api/auth/phone/request", data);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-      toast({
-        title: "Success",
-        description: "You've been signed in successfully!",
-      });
-      onClose();
+      setCodeSent(true);
+      toast({ title: "Code sent", description: "Enter the 6-digit code we sent to your phone." });
     },
-    onError: (error: any) => {
-      toast({
-        title: "Error",
-        description: error.message || "Failed to sign in",
-        variant: "destructive",
-      });
+    onError: handleError("Failed to send code"),
+  });
+
+  const verifyCodeMutation = useMutation({
+    mutationFn: async (data: { phoneNumber: string; code: string }) => {
+      return await apiRequest("POST", "/api/auth/phone/verify", data);
+    },
+    onSuccess: handleSignedIn,
+    onError: handleError("Failed to verify code"),
+  });
+
+  const requestLinkMutation = useMutation({
+    mutationFn: async (data: { email: string; name?: string }) => {
+      return await apiRequest("POST", "/api/auth/email/request", data);
     },
+    onSuccess: () => setLinkSent(true),
+    onError: handleError("Failed to send sign-in link"),
   });
 
+  const googleMutation = useMutation({
+    mutationFn: async (idToken: string) => {
+      return await apiRequest("POST", "/api/auth/google", { idToken });
+    },
+    onSuccess: handleSignedIn,
+    onError: handleError("Google sign-in failed"),
+  });
+
+  // Google Identity Services renders its own button and hands back a signed ID token
+  const googleClientId = config?.googleClientId;
+  useEffect(() => {
+    if (!isOpen || !googleClientId) return;
+    let cancelled = false;
+
+    loadGoogleIdentityScript()
+      .then(() => {
+        if (cancelled || !googleButtonRef.current) return;
+        window.google.accounts.id.initialize({
+          client_id: googleClientId,
+          callback: ({ credential }: { credential: string }) => googleMutation.mutate(credential),
+        });
+        window.google.accounts.id.renderButton(googleButtonRef.current, {
+          theme: "outline",
+          size: "large",
+          width: googleButtonRef.current.offsetWidth || 320,
+          text: "continue_with",
+        });
+      })
+      .catch(console.error);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, googleClientId]);
+
   const handleEmailLogin = () => {
-    if (!email || !name) {
+    if (!email) {
       toast({
         title: "Error",
-        description: "Please enter both email and name",
+        description: "Please enter your email",
         variant: "destructive",
       });
       return;
     }
-    loginMutation.mutate({ email, name });
+    requestLinkMutation.mutate({ email, name: name || undefined });
   };
 
   const handlePhoneLogin = () => {
-    if (!phoneNumber || !name) {
+    if (!phoneNumber) {
       toast({
         title: "Error",
-        description: "Please enter both phone number and name",
+        description: "Please enter your phone number",
         variant: "destructive",
       });
       return;
     }
-    loginMutation.mutate({ phoneNumber, name });
+    requestCodeMutation.mutate({ phoneNumber, name: name || undefined });
   };
 
-  const handleGoogleLogin = () => {
-    // Simulate Google login - in production, integrate with Google OAuth
-    const googleId = `google_${Date.now()}`;
-    const googleName = name || "Google User";
-    const googleEmail = email || `user${Date.now()}@gmail.com`;
-    
-    loginMutation.mutate({ 
-      googleId, 
-      name: googleName, 
-      email: googleEmail 
-    });
+  const handleVerifyCode = (value: string = code) => {
+    if (value.length !== 6) return;
+    verifyCodeMutation.mutate({ phoneNumber, code: value });
   };
 
   return (
@@ -85,95 +183,143 @@ export function AuthDialog({ isOpen, onClose }: AuthDialogProps) {
         <DialogHeader>
           <DialogTitle>Sign in to Stock News India</DialogTitle>
         </DialogHeader>
-        
+
         <Tabs defaultValue="email" className="w-full">
           <TabsList className="grid w-full grid-cols-2">
             <TabsTrigger value="email">Email</TabsTrigger>
             <TabsTrigger value="phone">Phone</TabsTrigger>
           </TabsList>
-          
+
           <TabsContent value="email" className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Name</Label>
-              <Input
-                id="name"
-                type="text"
-                placeholder="Enter your name"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="Enter your email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-              />
-            </div>
-            <Button 
-              onClick={handleEmailLogin} 
-              className="w-full"
-              disabled={loginMutation.isPending}
-            >
-              <Mail className="w-4 h-4 mr-2" />
-              Sign in with Email
-            </Button>
+            {linkSent ? (
+              <div className="text-center space-y-3 py-4">
+                <MailCheck className="w-10 h-10 mx-auto text-green-600" />
+                <p className="text-sm text-muted-foreground">
+                  We sent a sign-in link to <span className="font-medium text-foreground">{email}</span>. It expires in 15 minutes.
+                </p>
+                <Button variant="ghost" size="sm" onClick={() => setLinkSent(false)}>
+                  Use a different email
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    type="text"
+                    placeholder="Enter your name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={handleEmailLogin}
+                  className="w-full"
+                  disabled={requestLinkMutation.isPending || config?.email === false}
+                >
+                  <Mail className="w-4 h-4 mr-2" />
+                  Email me a sign-in link
+                </Button>
+              </>
+            )}
           </TabsContent>
-          
+
           <TabsContent value="phone" className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="name-phone">Name</Label>
-              <Input
-                id="name-phone"
-                type="text"
-                placeholder="Enter your name"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="phone">Phone Number</Label>
-              <Input
-                id="phone"
-                type="tel"
-                placeholder="Enter your phone number"
-                value={phoneNumber}
-                onChange={(e) => setPhoneNumber(e.target.value)}
-              />
-            </div>
-            <Button 
-              onClick={handlePhoneLogin} 
-              className="w-full"
-              disabled={loginMutation.isPending}
-            >
-              <Phone className="w-4 h-4 mr-2" />
-              Sign in with Phone
-            </Button>
+            {codeSent ? (
+              <>
+                <div className="space-y-2">
+                  <Label>Enter the code sent to {phoneNumber}</Label>
+                  <div className="flex justify-center">
+                    <InputOTP maxLength={6} value={code} onChange={setCode} onComplete={(value: string) => handleVerifyCode(value)}>
+                      <InputOTPGroup>
+                        {[0, 1, 2, 3, 4, 5].map((index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                </div>
+                <Button
+                  onClick={() => handleVerifyCode()}
+                  className="w-full"
+                  disabled={verifyCodeMutation.isPending || code.length !== 6}
+                >
+                  Verify and sign in
+                </Button>
+                <div className="flex justify-between text-xs">
+                  <button className="text-muted-foreground hover:underline" onClick={() => { setCodeSent(false); setCode(""); }}>
+                    Change number
+                  </button>
+                  <button
+                    className="text-muted-foreground hover:underline"
+                    onClick={handlePhoneLogin}
+                    disabled={requestCodeMutation.isPending}
+                  >
+                    Resend code
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="name-phone">Name</Label>
+                  <Input
+                    id="name-phone"
+                    type="text"
+                    placeholder="Enter your name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="phone">Phone Number</Label>
+                  <Input
+                    id="phone"
+                    type="tel"
+                    placeholder="Enter your phone number"
+                    value={phoneNumber}
+                    onChange={(e) => setPhoneNumber(e.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={handlePhoneLogin}
+                  className="w-full"
+                  disabled={requestCodeMutation.isPending || config?.phone === false}
+                >
+                  <Phone className="w-4 h-4 mr-2" />
+                  Send code
+                </Button>
+              </>
+            )}
           </TabsContent>
         </Tabs>
 
-        <div className="relative">
-          <div className="absolute inset-0 flex items-center">
-            <span className="w-full border-t" />
-          </div>
-          <div className="relative flex justify-center text-xs uppercase">
-            <span className="bg-background px-2 text-muted-foreground">Or</span>
-          </div>
-        </div>
-
-        <Button 
-          onClick={handleGoogleLogin} 
-          variant="outline" 
-          className="w-full"
-          disabled={loginMutation.isPending}
-        >
-          <Chrome className="w-4 h-4 mr-2" />
-          Continue with Google
-        </Button>
+        {googleClientId && (
+          <>
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <span className="w-full border-t" />
+              </div>
+              <div className="relative flex justify-center text-xs uppercase">
+                <span className="bg-background px-2 text-muted-foreground">Or</span>
+              </div>
+            </div>
+
+            <div ref={googleButtonRef} className="flex justify-center w-full" />
+          </>
+        )}
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
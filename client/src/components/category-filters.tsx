@@ -1,5 +1,6 @@
 import { cn } from "@/lib/utils";
-import { TrendingUp, FileText, Building2, Trophy, Target, Award, Zap, PlusCircle, Briefcase, MoreHorizontal } from "lucide-react";
+import { useTranslation } from "@/hooks/use-translation";
+import { TrendingUp, FileText, Building2, Trophy, Target, Award, Zap, PlusCircle, Briefcase, MoreHorizontal, Star } from "lucide-react";
 
 interface CategoryFiltersProps {
   selectedCategory: string;
@@ -8,27 +9,30 @@ interface CategoryFiltersProps {
   onSentimentChange?: (sentiment: string) => void;
 }
 
+// Labels come from the message catalog ("category.<id>")
 const categories = [
-  { id: "global", label: "Global", icon: TrendingUp },
-  { id: "trending", label: "Trending", icon: TrendingUp },
-  { id: "nifty", label: "Nifty", icon: TrendingUp },
-  { id: "breakout", label: "Breakout Stocks", icon: Zap },
-  { id: "research_report", label: "Research Report", icon: FileText },
-  { id: "movers", label: "Most Active", icon: Target },
-  { id: "order_wins", label: "Order Wins", icon: Trophy },
-  { id: "warrant", label: "Warrants", icon: Award },
-  { id: "results", label: "Results", icon: Briefcase },
-  { id: "ipo", label: "IPO", icon: PlusCircle },
-  { id: "sme ipo", label: "SME IPO", icon: Building2 },
-  { id: "others", label: "Others", icon: MoreHorizontal },
+  { id: "global", icon: TrendingUp },
+  { id: "trending", icon: TrendingUp },
+  { id: "nifty", icon: TrendingUp },
+  { id: "breakout", icon: Zap },
+  { id: "research_report", icon: FileText },
+  { id: "movers", icon: Target },
+  { id: "order_wins", icon: Trophy },
+  { id: "warrant", icon: Award },
+  { id: "results", icon: Briefcase },
+  { id: "ipo", icon: PlusCircle },
+  { id: "sme ipo", icon: Building2 },
+  { id: "others", icon: MoreHorizontal },
+  { id: "my_stocks", icon: Star },
 ];
 
 export function CategoryFilters({ selectedCategory, onCategoryChange, selectedSentiment, onSentimentChange }: CategoryFiltersProps) {
+  const { t, categoryLabel } = useTranslation();
   const sentiments = [
-    { id: 'all', label: 'All', color: 'bg-gray-500' },
-    { id: 'positive', label: 'Bullish', color: 'bg-green-500' },
-    { id: 'negative', label: 'Bearish', color: 'bg-red-500' },
-    { id: 'neutral', label: 'Neutral', color: 'bg-gray-400' }
+    { id: 'all', label: t("sentiment.all"), color: 'bg-gray-500' },
+    { id: 'bullish', label: t("sentiment.positive"), color: 'bg-green-500' },
+    { id: 'bearish', label: t("sentiment.negative"), color: 'bg-red-500' },
+    { id: 'neutral', label: t("sentiment.neutral"), color: 'bg-gray-400' }
   ];
 
   return (
@@ -49,14 +53,14 @@ export function CategoryFilters({ selectedCategory, onCategoryChange, selectedSe
               )}
             >
               <IconComponent size={8} />
-              <span className="text-center leading-[1.1] break-words px-0.5">{category.label}</span>
+              <span className="text-center leading-[1.1] break-words px-0.5">{categoryLabel(category.id)}</span>
             </button>
           );
         })}
       </div>
       
       {/* Second row */}
-      <div className="grid grid-cols-6 gap-1 px-2 pb-1">
+      <div className="grid grid-cols-7 gap-1 px-2 pb-1">
         {categories.slice(6).map((category) => {
           const IconComponent = category.icon;
           return (
@@ -71,7 +75,7 @@ export function CategoryFilters({ selectedCategory, onCategoryChange, selectedSe
               )}
             >
               <IconComponent size={8} />
-              <span className="text-center leading-[1.1] break-words px-0.5">{category.label}</span>
+              <span className="text-center leading-[1.1] break-words px-0.5">{categoryLabel(category.id)}</span>
             </button>
           );
         })}
@@ -80,7 +84,7 @@ export function CategoryFilters({ selectedCategory, onCategoryChange, selectedSe
       {/* Sentiment Filters */}
       {onSentimentChange && (
         <div className="flex gap-2 px-2 pb-3">
-          <span className="text-xs text-gray-600 dark:text-gray-400 self-center mr-1">Sentiment:</span>
+          <span className="text-xs text-gray-600 dark:text-gray-400 self-center mr-1">{t("sentiment.label")}</span>
           {sentiments.map((sentiment) => (
             <button
               key={sentiment.id}
@@ -0,0 +1,43 @@
+import { Languages } from "lucide-react";
+import { SUPPORTED_LANGUAGES, type Language } from "@shared/schema";
+import { LANGUAGE_LABELS, useLanguage } from "@/contexts/language-context";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+
+// Reading language for the whole app; feeds are refetched in the chosen language
+export function LanguagePicker({ className }: { className?: string }) {
+  const { language, setLanguage } = useLanguage();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className={cn(
+          "flex items-center space-x-1 px-3 py-1.5 rounded-full text-xs font-medium transition-all duration-300 hover:scale-105 border-2",
+          language === 'en'
+            ? "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300 border-orange-500 shadow-lg shadow-orange-500/25 hover:bg-orange-200 dark:hover:bg-orange-800"
+            : "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300 border-blue-500 shadow-lg shadow-blue-500/25",
+          className
+        )}
+        aria-label="Choose language"
+      >
+        <Languages className={cn("w-3 h-3", language === 'en' ? "text-orange-600" : "text-blue-600")} />
+        <span className="font-semibold">{LANGUAGE_LABELS[language]}</span>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuRadioGroup value={language} onValueChange={value => setLanguage(value as Language)}>
+          {SUPPORTED_LANGUAGES.map(code => (
+            <DropdownMenuRadioItem key={code} value={code}>
+              {LANGUAGE_LABELS[code]}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
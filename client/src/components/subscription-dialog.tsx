@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,6 +8,20 @@ import { Badge } from "@/components/ui/badge";
 import { Crown, Lock, TrendingUp, BarChart3, Star, Check } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useTranslation } from "@/hooks/use-translation";
+import type { MessageKey } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+import type { Plan } from "@shared/schema";
+
+type Translate = ReturnType<typeof useTranslation>["t"];
+
+function formatDuration(plan: Plan, t: Translate) {
+  if (plan.durationDays % 365 === 0) return t("duration.year", { count: plan.durationDays / 365 });
+  if (plan.durationDays % 30 === 0) return t("duration.month", { count: plan.durationDays / 30 });
+  return t("duration.day", { count: plan.durationDays });
+}
+
+const FEATURE_NUMBERS = [1, 2, 3, 4, 5, 6] as const;
 
 interface SubscriptionDialogProps {
   isOpen: boolean;
@@ -19,10 +33,21 @@ export function SubscriptionDialog({ isOpen, onClose, triggerType }: Subscriptio
   const [step, setStep] = useState(1);
   const [phoneNumber, setPhoneNumber] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const [selectedPlanId, setSelectedPlanId] = useState<number | null>(null);
   const { toast } = useToast();
+  const { t, formatCurrency } = useTranslation();
+  const formatPrice = (plan: Plan) => formatCurrency(plan.amount / 100);
+
+  const { data: plans = [] } = useQuery<Plan[]>({
+    queryKey: ["/api/plans"],
+    enabled: isOpen,
+  });
+
+  // Default to the cheapest plan until the user picks one
+  const selectedPlan = plans.find(plan => plan.id === selectedPlanId) ?? plans[0];
 
   const createPaymentMutation = useMutation({
-    mutationFn: async (data: { phoneNumber: string }) => {
+    mutationFn: async (data: { phoneNumber: string; planId: number }) => {
       const response = await apiRequest("POST", "/api/payments/create-upi", data);
       return response.json();
     },
@@ -32,8 +57,8 @@ export function SubscriptionDialog({ isOpen, onClose, triggerType }: Subscriptio
     },
     onError: (error) => {
       toast({
-        title: "Payment Failed",
-        description: "Unable to process payment. Please try again.",
+        title: t("subscription.paymentFailed"),
+        description: t("subscription.paymentFailedHint"),
         variant: "destructive",
       });
     },
@@ -42,8 +67,8 @@ export function SubscriptionDialog({ isOpen, onClose, triggerType }: Subscriptio
   const handleSubscribe = async () => {
     if (!phoneNumber.trim()) {
       toast({
-        title: "Phone Required",
-        description: "Please enter your phone number to continue.",
+        title: t("subscription.phoneRequired"),
+        description: t("subscription.phoneRequiredHint"),
         variant: "destructive",
       });
       return;
@@ -51,71 +76,36 @@ export function SubscriptionDialog({ isOpen, onClose, triggerType }: Subscriptio
 
     if (!/^[6-9]\d{9}$/.test(phoneNumber)) {
       toast({
-        title: "Invalid Phone",
-        description: "Please enter a valid 10-digit Indian mobile number.",
+        title: t("subscription.invalidPhone"),
+        description: t("subscription.invalidPhoneHint"),
         variant: "destructive",
       });
       return;
     }
 
-    createPaymentMutation.mutate({ phoneNumber });
-  };
-
-  const getFeaturesByType = () => {
-    switch (triggerType) {
-      case 'warrant':
-        return [
-          "Exclusive warrant analysis with strike price insights",
-          "Implied volatility tracking and alerts",
-          "Institutional flow analysis for major warrants",
-          "Risk-reward calculations for warrant strategies",
-          "Time decay and Greeks analysis",
-          "Premium warrant recommendations"
-        ];
-      case 'breakout':
-        return [
-          "Technical breakout pattern identification",
-          "Volume confirmation and momentum analysis",
-          "Fibonacci retracement and target levels",
-          "Support and resistance mapping",
-          "Entry and exit strategy recommendations",
-          "Risk management guidelines"
-        ];
-      default:
-        return [
-          "Access to all warrant analysis and strategies",
-          "Complete breakout pattern identification",
-          "Institutional flow and volume analysis",
-          "Technical analysis with clear targets",
-          "Risk management and position sizing",
-          "Early access to market insights"
-        ];
+    if (!selectedPlan) {
+      return;
     }
+
+    createPaymentMutation.mutate({ phoneNumber, planId: selectedPlan.id });
   };
 
-  const getHeaderByType = () => {
-    switch (triggerType) {
-      case 'warrant':
-        return {
-          icon: <BarChart3 className="w-6 h-6 text-blue-600" />,
-          title: "Unlock Warrant Analysis",
-          description: "Get exclusive warrant insights and trading strategies"
-        };
-      case 'breakout':
-        return {
-          icon: <TrendingUp className="w-6 h-6 text-green-600" />,
-          title: "Unlock Breakout Analysis",
-          description: "Access detailed technical breakout patterns and targets"
-        };
-      default:
-        return {
-          icon: <Crown className="w-6 h-6 text-amber-600" />,
-          title: "Upgrade to Premium",
-          description: "Get access to exclusive market analysis and insights"
-        };
-    }
+  const type = triggerType === 'warrant' || triggerType === 'breakout' ? triggerType : 'general';
+  const icons = {
+    warrant: <BarChart3 className="w-6 h-6 text-blue-600" />,
+    breakout: <TrendingUp className="w-6 h-6 text-green-600" />,
+    general: <Crown className="w-6 h-6 text-amber-600" />,
   };
 
+  const getHeaderByType = () => ({
+    icon: icons[type],
+    title: t(`subscription.${type}.title`),
+    description: t(`subscription.${type}.description`),
+  });
+
+  const getFeaturesByType = () =>
+    FEATURE_NUMBERS.map(n => t(`subscription.${type}.feature${n}` as MessageKey));
+
   const header = getHeaderByType();
   const features = getFeaturesByType();
 
@@ -133,21 +123,36 @@ export function SubscriptionDialog({ isOpen, onClose, triggerType }: Subscriptio
         </DialogHeader>
 
         <div className="space-y-6">
-          {/* Pricing */}
-          <div className="text-center space-y-2">
-            <div className="flex items-center justify-center gap-2">
-              <span className="text-3xl font-bold">₹11</span>
-              <span className="text-muted-foreground">/month</span>
-            </div>
-            <Badge variant="secondary" className="bg-green-50 text-green-700 border-green-200">
-              <Star className="w-3 h-3 mr-1" />
-              Best Value
-            </Badge>
+          {/* Plans */}
+          <div className="grid grid-cols-3 gap-2">
+            {plans.map((plan) => (
+              <button
+                key={plan.id}
+                type="button"
+                onClick={() => setSelectedPlanId(plan.id)}
+                className={cn(
+                  "rounded-lg border p-3 text-center transition-colors",
+                  selectedPlan?.id === plan.id ? "border-blue-600 bg-blue-50 dark:bg-blue-950/30" : "border-border hover:bg-muted/50"
+                )}
+              >
+                <div className="text-xs text-muted-foreground">{plan.name}</div>
+                <div className="text-xl font-bold">{formatPrice(plan)}</div>
+                <div className="text-xs text-muted-foreground">/{formatDuration(plan, t)}</div>
+              </button>
+            ))}
           </div>
+          {plans.length > 1 && (
+            <div className="text-center">
+              <Badge variant="secondary" className="bg-green-50 text-green-700 border-green-200">
+                <Star className="w-3 h-3 mr-1" />
+                {t("subscription.longerPlans")}
+              </Badge>
+            </div>
+          )}
 
           {/* Features */}
           <div className="space-y-3">
-            <h4 className="font-semibold text-sm">What you get:</h4>
+            <h4 className="font-semibold text-sm">{t("subscription.whatYouGet")}</h4>
             <div className="space-y-2">
               {features.map((feature, index) => (
                 <div key={index} className="flex items-start gap-2 text-sm">
@@ -160,17 +165,17 @@ export function SubscriptionDialog({ isOpen, onClose, triggerType }: Subscriptio
 
           {/* Phone Input */}
           <div className="space-y-2">
-            <Label htmlFor="phone">Mobile Number</Label>
+            <Label htmlFor="phone">{t("subscription.mobileNumber")}</Label>
             <Input
               id="phone"
-              placeholder="Enter 10-digit mobile number"
+              placeholder={t("subscription.phonePlaceholder")}
               value={phoneNumber}
               onChange={(e) => setPhoneNumber(e.target.value)}
               maxLength={10}
               className="text-center"
             />
             <p className="text-xs text-muted-foreground">
-              We'll send payment confirmation to this number
+              {t("subscription.phoneHint")}
             </p>
           </div>
 
@@ -180,34 +185,36 @@ export function SubscriptionDialog({ isOpen, onClose, triggerType }: Subscriptio
               <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-purple-600 rounded flex items-center justify-center">
                 <span className="text-white text-xs font-bold">UPI</span>
               </div>
-              <span className="font-medium">UPI Payment</span>
+              <span className="font-medium">{t("subscription.upiTitle")}</span>
             </div>
             <p className="text-sm text-muted-foreground">
-              Pay securely using any UPI app like GPay, PhonePe, Paytm
+              {t("subscription.upiHint")}
             </p>
           </div>
 
           {/* Subscribe Button */}
           <Button 
             onClick={handleSubscribe}
-            disabled={createPaymentMutation.isPending}
+            disabled={createPaymentMutation.isPending || !selectedPlan}
             className="w-full bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
           >
             {createPaymentMutation.isPending ? (
               <>
                 <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
-                Processing...
+                {t("subscription.processing")}
               </>
             ) : (
               <>
                 <Lock className="w-4 h-4 mr-2" />
-                Subscribe for ₹11/month
+                {selectedPlan
+                  ? t("subscription.subscribeFor", { price: formatPrice(selectedPlan), duration: formatDuration(selectedPlan, t) })
+                  : t("subscription.subscribe")}
               </>
             )}
           </Button>
 
           <p className="text-xs text-center text-muted-foreground">
-            Cancel anytime. No hidden charges. 7-day money-back guarantee.
+            {t("subscription.terms")}
           </p>
         </div>
       </DialogContent>
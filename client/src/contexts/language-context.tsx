@@ -1,6 +1,16 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-
-type Language = 'en' | 'hi';
+import { SUPPORTED_LANGUAGES, type Language } from '@shared/schema';
+
+// Shown in the language picker, each in its own script
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: 'English',
+  hi: 'हिंदी',
+  gu: 'ગુજરાતી',
+  mr: 'मराठी',
+  ta: 'தமிழ்',
+  te: 'తెలుగు',
+  bn: 'বাংলা',
+};
 
 interface LanguageContextType {
   language: Language;
@@ -18,7 +28,7 @@ export function LanguageProvider({ children }: { children: React.ReactNode }) {
   // Load language preference from localStorage
   useEffect(() => {
     const savedLanguage = localStorage.getItem('preferred-language') as Language;
-    if (savedLanguage && (savedLanguage === 'en' || savedLanguage === 'hi')) {
+    if (savedLanguage && SUPPORTED_LANGUAGES.includes(savedLanguage)) {
       setLanguageState(savedLanguage);
     }
   }, []);
@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Alert, AlertRule } from "@shared/schema";
+
+export interface NewAlertRule {
+  type: "symbol_article" | "price_move" | "watchlist_category";
+  stockSymbol?: string | null;
+  thresholdPercent?: number | null;
+  categories?: string[] | null;
+}
+
+// Cheap enough to poll so the header badge picks up alerts from the background sync
+export function useUnreadAlertCount(enabled = true) {
+  const { data } = useQuery<{ count: number }>({
+    queryKey: ["/api/alerts/unread-count"],
+    enabled,
+    refetchInterval: 60 * 1000,
+  });
+  return data?.count ?? 0;
+}
+
+export function useAlerts(enabled = true) {
+  const queryClient = useQueryClient();
+
+  const { data: alerts = [], isLoading } = useQuery<Alert[]>({
+    queryKey: ["/api/alerts"],
+    enabled,
+  });
+
+  const { data: rules = [], isLoading: isRulesLoading } = useQuery<AlertRule[]>({
+    queryKey: ["/api/alerts/rules"],
+    enabled,
+  });
+
+  const invalidateInbox = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/alerts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/alerts/unread-count"] });
+  };
+
+  const invalidateRules = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/alerts/rules"] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids?: number[]) => {
+      return await apiRequest("POST", "/api/alerts/read", { ids });
+    },
+    onSuccess: invalidateInbox,
+  });
+
+  const createRuleMutation = useMutation({
+    mutationFn: async (rule: NewAlertRule) => {
+      return await apiRequest("POST", "/api/alerts/rules", rule);
+    },
+    onSuccess: invalidateRules,
+  });
+
+  const toggleRuleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: number; isActive: boolean }) => {
+      return await apiRequest("PATCH", `/api/alerts/rules/${id}`, { isActive });
+    },
+    onSuccess: invalidateRules,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/alerts/rules/${id}`);
+    },
+    onSuccess: () => {
+      invalidateRules();
+      invalidateInbox();
+    },
+  });
+
+  return {
+    alerts,
+    rules,
+    isLoading: isLoading || isRulesLoading,
+    markRead: markReadMutation.mutate,
+    createRule: createRuleMutation.mutate,
+    toggleRule: toggleRuleMutation.mutate,
+    deleteRule: deleteRuleMutation.mutate,
+    isCreating: createRuleMutation.isPending,
+  };
+}
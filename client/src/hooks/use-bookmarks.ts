@@ -0,0 +1,54 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SavedBookmark {
+  articleId: number;
+  createdAt: string;
+}
+
+export function useBookmarks() {
+  const queryClient = useQueryClient();
+
+  const { data: bookmarks = [], isLoading } = useQuery<SavedBookmark[]>({
+    queryKey: ["/api/bookmarks"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/bookmarks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookmarks/articles"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (articleId: number) => {
+      return await apiRequest("POST", "/api/bookmarks", { articleId });
+    },
+    onSuccess: invalidate,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (articleId: number) => {
+      return await apiRequest("DELETE", `/api/bookmarks/${articleId}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const isBookmarked = (articleId: number) =>
+    bookmarks.some(bookmark => bookmark.articleId === articleId);
+
+  const toggleBookmark = (articleId: number) => {
+    if (isBookmarked(articleId)) {
+      removeMutation.mutate(articleId);
+    } else {
+      addMutation.mutate(articleId);
+    }
+  };
+
+  return {
+    bookmarks,
+    isLoading,
+    isBookmarked,
+    toggleBookmark,
+    removeBookmark: removeMutation.mutate,
+    isUpdating: addMutation.isPending || removeMutation.isPending,
+  };
+}
@@ -0,0 +1,27 @@
+import { useMemo } from "react";
+import { useLanguage } from "@/contexts/language-context";
+import {
+  formatCurrency,
+  formatDate,
+  formatNumber,
+  formatTimeAgo,
+  getCategoryLabel,
+  translate,
+  type MessageKey,
+  type MessageParams,
+} from "@/lib/i18n";
+
+// The i18n helpers bound to the reader's current language
+export function useTranslation() {
+  const { language } = useLanguage();
+
+  return useMemo(() => ({
+    language,
+    t: (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumber(language, value, options),
+    formatCurrency: (rupees: number) => formatCurrency(language, rupees),
+    formatDate: (date: string | Date, options?: Intl.DateTimeFormatOptions) => formatDate(language, date, options),
+    formatTimeAgo: (date: string | Date) => formatTimeAgo(language, date),
+    categoryLabel: (category: string) => getCategoryLabel(language, category),
+  }), [language]);
+}
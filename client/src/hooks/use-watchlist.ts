@@ -0,0 +1,44 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Watchlist } from "@shared/schema";
+
+export function useWatchlist(enabled = true) {
+  const queryClient = useQueryClient();
+
+  const { data: watchlist = [], isLoading } = useQuery<Watchlist[]>({
+    queryKey: ["/api/watchlist"],
+    enabled,
+  });
+
+  // The "My Stocks" feed is derived from the watchlist
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/watchlist"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/articles", "my_stocks"] });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (entry: { stockSymbol: string; exchange?: string | null }) => {
+      return await apiRequest("POST", "/api/watchlist", entry);
+    },
+    onSuccess: invalidate,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (stockSymbol: string) => {
+      return await apiRequest("DELETE", `/api/watchlist/${encodeURIComponent(stockSymbol)}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const isWatched = (stockSymbol: string | null | undefined) =>
+    !!stockSymbol && watchlist.some(entry => entry.stockSymbol === stockSymbol.trim().toUpperCase());
+
+  return {
+    watchlist,
+    isLoading,
+    isWatched,
+    addSymbol: addMutation.mutate,
+    removeSymbol: removeMutation.mutate,
+    isUpdating: addMutation.isPending || removeMutation.isPending,
+  };
+}
@@ -10,21 +10,23 @@ export function useAuth() {
     retry: false,
   });
 
-  const loginMutation = useMutation({
-    mutationFn: async (credentials: { email?: string; phoneNumber?: string; name?: string; googleId?: string }) => {
-      return await apiRequest("POST", "/api/auth/login", credentials);
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/auth/logout");
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.setQueryData(["/api/auth/user"], null);
+      queryClient.invalidateQueries({ queryKey: ["/api/bookmarks"] });
     },
   });
 
-  const logoutMutation = useMutation({
+  const logoutAllMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest("POST", "/api/auth/logout");
+      return await apiRequest("POST", "/api/auth/logout-all");
     },
     onSuccess: () => {
       queryClient.setQueryData(["/api/auth/user"], null);
+      queryClient.invalidateQueries({ queryKey: ["/api/bookmarks"] });
     },
   });
 
@@ -33,9 +35,8 @@ export function useAuth() {
     isLoading,
     isAuthenticated: !!user,
     isSubscribed: user?.isSubscribed || false,
-    login: loginMutation.mutate,
     logout: logoutMutation.mutate,
-    isLoggingIn: loginMutation.isPending,
-    isLoggingOut: logoutMutation.isPending,
+    logoutAllDevices: logoutAllMutation.mutate,
+    isLoggingOut: logoutMutation.isPending || logoutAllMutation.isPending,
   };
 }
\ No newline at end of file
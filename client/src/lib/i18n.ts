@@ -0,0 +1,83 @@
+import type { Language } from "@shared/schema";
+import { en } from "./messages/en";
+import { hi } from "./messages/hi";
+import { gu } from "./messages/gu";
+import { mr } from "./messages/mr";
+import { ta } from "./messages/ta";
+import { te } from "./messages/te";
+import { bn } from "./messages/bn";
+
+// UI copy lookup and locale-aware formatting. English is complete; other catalogs may leave keys
+// out, and those fall back to English rather than showing a key.
+
+export type MessageKey = keyof typeof en;
+// Plural messages pick a form by Intl.PluralRules; `other` is required because every language has it
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+export type Catalog = { [K in MessageKey]?: Message };
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Language, Catalog> = { en, hi, gu, mr, ta, te, bn };
+
+// Indian English/regional locales give lakh/crore grouping; digits stay Latin to match article text
+function getLocale(language: Language): string {
+  return `${language}-IN-u-nu-latn`;
+}
+
+export function formatNumber(language: Language, value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(getLocale(language), options).format(value);
+}
+
+export function formatCurrency(language: Language, rupees: number): string {
+  return formatNumber(language, rupees, { style: "currency", currency: "INR", maximumFractionDigits: 0 });
+}
+
+export function formatDate(
+  language: Language,
+  date: string | Date,
+  options: Intl.DateTimeFormatOptions = { day: "numeric", month: "short", year: "numeric" },
+): string {
+  return new Intl.DateTimeFormat(getLocale(language), options).format(new Date(date));
+}
+
+export function hasMessage(key: string): key is MessageKey {
+  return key in en;
+}
+
+export function translate(language: Language, key: MessageKey, params: MessageParams = {}): string {
+  const message: Message = catalogs[language][key] ?? en[key];
+  let text: string;
+  if (typeof message === "string") {
+    text = message;
+  } else {
+    const count = Number(params.count ?? 0);
+    const form = new Intl.PluralRules(getLocale(language)).select(count);
+    text = message[form] ?? message.other;
+  }
+
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === "number" ? formatNumber(language, value) : value;
+  });
+}
+
+// "5 min ago" style, switching to a date after a week
+export function formatTimeAgo(language: Language, date: string | Date): string {
+  const diffInMinutes = Math.floor((Date.now() - new Date(date).getTime()) / (1000 * 60));
+  const diffInHours = Math.floor(diffInMinutes / 60);
+  const diffInDays = Math.floor(diffInHours / 24);
+  const relative = new Intl.RelativeTimeFormat(getLocale(language), { style: "narrow" });
+
+  if (diffInMinutes < 1) return translate(language, "time.justNow");
+  if (diffInMinutes < 60) return relative.format(-diffInMinutes, "minute");
+  if (diffInHours < 24) return relative.format(-diffInHours, "hour");
+  if (diffInDays < 7) return relative.format(-diffInDays, "day");
+  return formatDate(language, date);
+}
+
+// Label for an article or filter category; categories without their own label read as "News"
+export function getCategoryLabel(language: Language, category: string): string {
+  const key = `category.${category}`;
+  return translate(language, hasMessage(key) ? key : "category.news");
+}
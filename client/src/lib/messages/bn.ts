@@ -0,0 +1,40 @@
+import type { Catalog } from "../i18n";
+
+export const bn: Catalog = {
+  "nav.myStocks": "আমার স্টক",
+  "nav.alerts": "অ্যালার্ট",
+  "nav.saved": "সেভ করা নিবন্ধ",
+  "nav.install": "অ্যাপ ইনস্টল করুন",
+
+  "feed.loading": "StocksShorts লোড হচ্ছে...",
+  "feed.refreshing": "রিফ্রেশ হচ্ছে...",
+  "feed.newArticles": { one: "{count}টি নতুন নিবন্ধ", other: "{count}টি নতুন নিবন্ধ" },
+  "feed.empty": "কোনো নিবন্ধ পাওয়া যায়নি",
+
+  "category.global": "বিশ্ব",
+  "category.trending": "ট্রেন্ডিং",
+  "category.nifty": "নিফটি",
+  "category.breakout": "ব্রেকআউট স্টক",
+  "category.research_report": "রিসার্চ রিপোর্ট",
+  "category.movers": "সর্বাধিক সক্রিয়",
+  "category.order_wins": "অর্ডার জয়",
+  "category.warrant": "ওয়ারেন্ট",
+  "category.results": "ফলাফল",
+  "category.others": "অন্যান্য",
+  "category.my_stocks": "আমার স্টক",
+  "category.news": "খবর",
+
+  "sentiment.all": "সব",
+  "sentiment.positive": "বুলিশ",
+  "sentiment.negative": "বেয়ারিশ",
+  "sentiment.neutral": "নিরপেক্ষ",
+
+  "card.share": "শেয়ার করুন",
+  "card.save": "সেভ করুন",
+  "card.saved": "সেভ করা হয়েছে",
+  "card.swipeUp": "উপরে সোয়াইপ করুন",
+  "card.updated": "আপডেট {time}",
+  "card.loading": "লোড হচ্ছে...",
+
+  "time.justNow": "এইমাত্র",
+};
@@ -0,0 +1,101 @@
+// English UI copy. Its keys are the message keys for every other catalog.
+export const en = {
+  "app.tagline": "Real-time Stock News",
+
+  "nav.positive": "Positive News",
+  "nav.negative": "Negative News",
+  "nav.neutral": "Neutral News",
+  "nav.myStocks": "My Stocks",
+  "nav.alerts": "Alerts",
+  "nav.saved": "Saved Articles",
+  "nav.install": "Install App",
+  "nav.installHint": "Use browser menu: Share → Add to Home Screen",
+
+  "feed.loading": "Loading StocksShorts...",
+  "feed.refreshing": "Refreshing...",
+  "feed.newArticles": { one: "{count} new article", other: "{count} new articles" },
+  "feed.empty": "No articles found",
+  "feed.emptyHint": "Try selecting a different category or sentiment filter",
+  "feed.myStocksEmpty": "No news for your stocks yet",
+  "feed.manageStocks": "Manage the stocks you follow",
+
+  "category.global": "Global",
+  "category.trending": "Trending",
+  "category.nifty": "Nifty",
+  "category.breakout": "Breakout Stocks",
+  "category.research_report": "Research Report",
+  "category.movers": "Most Active",
+  "category.order_wins": "Order Wins",
+  "category.warrant": "Warrants",
+  "category.results": "Results",
+  "category.ipo": "IPO",
+  "category.sme ipo": "SME IPO",
+  "category.others": "Others",
+  "category.my_stocks": "My Stocks",
+  "category.ath": "All-Time High",
+  "category.news": "News",
+
+  "sentiment.label": "Sentiment:",
+  "sentiment.all": "All",
+  "sentiment.positive": "Bullish",
+  "sentiment.negative": "Bearish",
+  "sentiment.neutral": "Neutral",
+
+  "card.share": "Share",
+  "card.save": "Save",
+  "card.saved": "Saved",
+  "card.swipeUp": "Swipe up",
+  "card.updated": "Updated {time}",
+  "card.moreSources": { one: "{count} more source", other: "{count} more sources" },
+  "card.loading": "Loading...",
+  "card.premiumSymbol": "Full {symbol} analysis is available to premium subscribers.",
+  "card.premium": "This analysis is available to premium subscribers.",
+  "card.unlock": "Unlock with Premium",
+
+  "time.justNow": "Just now",
+
+  "subscription.warrant.title": "Unlock Warrant Analysis",
+  "subscription.warrant.description": "Get exclusive warrant insights and trading strategies",
+  "subscription.warrant.feature1": "Exclusive warrant analysis with strike price insights",
+  "subscription.warrant.feature2": "Implied volatility tracking and alerts",
+  "subscription.warrant.feature3": "Institutional flow analysis for major warrants",
+  "subscription.warrant.feature4": "Risk-reward calculations for warrant strategies",
+  "subscription.warrant.feature5": "Time decay and Greeks analysis",
+  "subscription.warrant.feature6": "Premium warrant recommendations",
+  "subscription.breakout.title": "Unlock Breakout Analysis",
+  "subscription.breakout.description": "Access detailed technical breakout patterns and targets",
+  "subscription.breakout.feature1": "Technical breakout pattern identification",
+  "subscription.breakout.feature2": "Volume confirmation and momentum analysis",
+  "subscription.breakout.feature3": "Fibonacci retracement and target levels",
+  "subscription.breakout.feature4": "Support and resistance mapping",
+  "subscription.breakout.feature5": "Entry and exit strategy recommendations",
+  "subscription.breakout.feature6": "Risk management guidelines",
+  "subscription.general.title": "Upgrade to Premium",
+  "subscription.general.description": "Get access to exclusive market analysis and insights",
+  "subscription.general.feature1": "Access to all warrant analysis and strategies",
+  "subscription.general.feature2": "Complete breakout pattern identification",
+  "subscription.general.feature3": "Institutional flow and volume analysis",
+  "subscription.general.feature4": "Technical analysis with clear targets",
+  "subscription.general.feature5": "Risk management and position sizing",
+  "subscription.general.feature6": "Early access to market insights",
+  "subscription.longerPlans": "Longer plans save more",
+  "subscription.whatYouGet": "What you get:",
+  "subscription.mobileNumber": "Mobile Number",
+  "subscription.phonePlaceholder": "Enter 10-digit mobile number",
+  "subscription.phoneHint": "We'll send payment confirmation to this number",
+  "subscription.upiTitle": "UPI Payment",
+  "subscription.upiHint": "Pay securely using any UPI app like GPay, PhonePe, Paytm",
+  "subscription.processing": "Processing...",
+  "subscription.subscribeFor": "Subscribe for {price}/{duration}",
+  "subscription.subscribe": "Subscribe",
+  "subscription.terms": "Renewals add to your remaining time. Cancel anytime. No hidden charges.",
+  "subscription.paymentFailed": "Payment Failed",
+  "subscription.paymentFailedHint": "Unable to process payment. Please try again.",
+  "subscription.phoneRequired": "Phone Required",
+  "subscription.phoneRequiredHint": "Please enter your phone number to continue.",
+  "subscription.invalidPhone": "Invalid Phone",
+  "subscription.invalidPhoneHint": "Please enter a valid 10-digit Indian mobile number.",
+  "duration.year": { one: "year", other: "{count} years" },
+  "duration.month": { one: "month", other: "{count} months" },
+  "duration.day": { one: "{count} day", other: "{count} days" },
+};
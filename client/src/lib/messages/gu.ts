@@ -0,0 +1,40 @@
+import type { Catalog } from "../i18n";
+
+export const gu: Catalog = {
+  "nav.myStocks": "મારા શેર",
+  "nav.alerts": "અલર્ટ",
+  "nav.saved": "સેવ કરેલા લેખ",
+  "nav.install": "એપ ઇન્સ્ટોલ કરો",
+
+  "feed.loading": "StocksShorts લોડ થઈ રહ્યું છે...",
+  "feed.refreshing": "રિફ્રેશ થઈ રહ્યું છે...",
+  "feed.newArticles": { one: "{count} નવો લેખ", other: "{count} નવા લેખ" },
+  "feed.empty": "કોઈ લેખ મળ્યા નથી",
+
+  "category.global": "વૈશ્વિક",
+  "category.trending": "ટ્રેન્ડિંગ",
+  "category.nifty": "નિફ્ટી",
+  "category.breakout": "બ્રેકઆઉટ શેર",
+  "category.research_report": "રિસર્ચ રિપોર્ટ",
+  "category.movers": "સૌથી સક્રિય",
+  "category.order_wins": "ઓર્ડર વિન્સ",
+  "category.warrant": "વોરંટ",
+  "category.results": "પરિણામો",
+  "category.others": "અન્ય",
+  "category.my_stocks": "મારા શેર",
+  "category.news": "સમાચાર",
+
+  "sentiment.all": "બધા",
+  "sentiment.positive": "તેજી",
+  "sentiment.negative": "મંદી",
+  "sentiment.neutral": "તટસ્થ",
+
+  "card.share": "શેર કરો",
+  "card.save": "સેવ કરો",
+  "card.saved": "સેવ કર્યું",
+  "card.swipeUp": "ઉપર સ્વાઇપ કરો",
+  "card.updated": "અપડેટ {time}",
+  "card.loading": "લોડ થઈ રહ્યું છે...",
+
+  "time.justNow": "હમણાં જ",
+};
@@ -0,0 +1,100 @@
+import type { Catalog } from "../i18n";
+
+export const hi: Catalog = {
+  "app.tagline": "रियल-टाइम स्टॉक न्यूज़",
+
+  "nav.positive": "सकारात्मक खबरें",
+  "nav.negative": "नकारात्मक खबरें",
+  "nav.neutral": "तटस्थ खबरें",
+  "nav.myStocks": "मेरे स्टॉक्स",
+  "nav.alerts": "अलर्ट",
+  "nav.saved": "सेव किए गए लेख",
+  "nav.install": "ऐप इंस्टॉल करें",
+  "nav.installHint": "ब्राउज़र मेनू में जाएं: शेयर → होम स्क्रीन पर जोड़ें",
+
+  "feed.loading": "StocksShorts लोड हो रहा है...",
+  "feed.refreshing": "रिफ्रेश हो रहा है...",
+  "feed.newArticles": { one: "{count} नया लेख", other: "{count} नए लेख" },
+  "feed.empty": "कोई लेख नहीं मिला",
+  "feed.emptyHint": "कोई दूसरी कैटेगरी या सेंटिमेंट फ़िल्टर चुनकर देखें",
+  "feed.myStocksEmpty": "आपके स्टॉक्स के लिए अभी कोई खबर नहीं है",
+  "feed.manageStocks": "अपने फ़ॉलो किए गए स्टॉक्स बदलें",
+
+  "category.global": "ग्लोबल",
+  "category.trending": "ट्रेंडिंग",
+  "category.nifty": "निफ्टी",
+  "category.breakout": "ब्रेकआउट स्टॉक्स",
+  "category.research_report": "रिसर्च रिपोर्ट",
+  "category.movers": "सबसे सक्रिय",
+  "category.order_wins": "ऑर्डर जीत",
+  "category.warrant": "वारंट",
+  "category.results": "नतीजे",
+  "category.others": "अन्य",
+  "category.my_stocks": "मेरे स्टॉक्स",
+  "category.ath": "सर्वकालिक उच्च",
+  "category.news": "खबरें",
+
+  "sentiment.label": "सेंटिमेंट:",
+  "sentiment.all": "सभी",
+  "sentiment.positive": "तेजी",
+  "sentiment.negative": "मंदी",
+  "sentiment.neutral": "तटस्थ",
+
+  "card.share": "शेयर करें",
+  "card.save": "सेव करें",
+  "card.saved": "सेव किया",
+  "card.swipeUp": "ऊपर स्वाइप करें",
+  "card.updated": "अपडेट {time}",
+  "card.moreSources": { one: "{count} और स्रोत", other: "{count} और स्रोत" },
+  "card.loading": "लोड हो रहा है...",
+  "card.premiumSymbol": "{symbol} का पूरा विश्लेषण प्रीमियम सब्सक्राइबर्स के लिए उपलब्ध है।",
+  "card.premium": "यह विश्लेषण प्रीमियम सब्सक्राइबर्स के लिए उपलब्ध है।",
+  "card.unlock": "प्रीमियम के साथ अनलॉक करें",
+
+  "time.justNow": "अभी",
+
+  "subscription.warrant.title": "वारंट विश्लेषण अनलॉक करें",
+  "subscription.warrant.description": "खास वारंट इनसाइट्स और ट्रेडिंग रणनीतियाँ पाएं",
+  "subscription.warrant.feature1": "स्ट्राइक प्राइस इनसाइट्स के साथ खास वारंट विश्लेषण",
+  "subscription.warrant.feature2": "इम्प्लाइड वोलैटिलिटी ट्रैकिंग और अलर्ट",
+  "subscription.warrant.feature3": "प्रमुख वारंट्स के लिए संस्थागत फ्लो विश्लेषण",
+  "subscription.warrant.feature4": "वारंट रणनीतियों के लिए रिस्क-रिवॉर्ड गणना",
+  "subscription.warrant.feature5": "टाइम डिके और ग्रीक्स विश्लेषण",
+  "subscription.warrant.feature6": "प्रीमियम वारंट सुझाव",
+  "subscription.breakout.title": "ब्रेकआउट विश्लेषण अनलॉक करें",
+  "subscription.breakout.description": "विस्तृत तकनीकी ब्रेकआउट पैटर्न और लक्ष्य देखें",
+  "subscription.breakout.feature1": "तकनीकी ब्रेकआउट पैटर्न की पहचान",
+  "subscription.breakout.feature2": "वॉल्यूम पुष्टि और मोमेंटम विश्लेषण",
+  "subscription.breakout.feature3": "फिबोनाची रिट्रेसमेंट और लक्ष्य स्तर",
+  "subscription.breakout.feature4": "सपोर्ट और रेज़िस्टेंस मैपिंग",
+  "subscription.breakout.feature5": "एंट्री और एग्ज़िट रणनीति सुझाव",
+  "subscription.breakout.feature6": "रिस्क मैनेजमेंट दिशानिर्देश",
+  "subscription.general.title": "प्रीमियम में अपग्रेड करें",
+  "subscription.general.description": "खास मार्केट विश्लेषण और इनसाइट्स पाएं",
+  "subscription.general.feature1": "सभी वारंट विश्लेषण और रणनीतियों तक पहुंच",
+  "subscription.general.feature2": "संपूर्ण ब्रेकआउट पैटर्न पहचान",
+  "subscription.general.feature3": "संस्थागत फ्लो और वॉल्यूम विश्लेषण",
+  "subscription.general.feature4": "स्पष्ट लक्ष्यों के साथ तकनीकी विश्लेषण",
+  "subscription.general.feature5": "रिस्क मैनेजमेंट और पोज़िशन साइज़िंग",
+  "subscription.general.feature6": "मार्केट इनसाइट्स तक जल्दी पहुंच",
+  "subscription.longerPlans": "लंबे प्लान में ज़्यादा बचत",
+  "subscription.whatYouGet": "आपको क्या मिलेगा:",
+  "subscription.mobileNumber": "मोबाइल नंबर",
+  "subscription.phonePlaceholder": "10 अंकों का मोबाइल नंबर डालें",
+  "subscription.phoneHint": "भुगतान की पुष्टि हम इसी नंबर पर भेजेंगे",
+  "subscription.upiTitle": "UPI भुगतान",
+  "subscription.upiHint": "GPay, PhonePe, Paytm जैसे किसी भी UPI ऐप से सुरक्षित भुगतान करें",
+  "subscription.processing": "प्रोसेस हो रहा है...",
+  "subscription.subscribeFor": "{price}/{duration} में सब्सक्राइब करें",
+  "subscription.subscribe": "सब्सक्राइब करें",
+  "subscription.terms": "रिन्यूअल आपके बचे हुए समय में जुड़ता है। कभी भी रद्द करें। कोई छिपा शुल्क नहीं।",
+  "subscription.paymentFailed": "भुगतान विफल",
+  "subscription.paymentFailedHint": "भुगतान नहीं हो सका। कृपया फिर से कोशिश करें।",
+  "subscription.phoneRequired": "फ़ोन नंबर ज़रूरी है",
+  "subscription.phoneRequiredHint": "आगे बढ़ने के लिए अपना फ़ोन नंबर डालें।",
+  "subscription.invalidPhone": "अमान्य फ़ोन नंबर",
+  "subscription.invalidPhoneHint": "कृपया 10 अंकों का मान्य भारतीय मोबाइल नंबर डालें।",
+  "duration.year": { one: "साल", other: "{count} साल" },
+  "duration.month": { one: "महीना", other: "{count} महीने" },
+  "duration.day": { one: "{count} दिन", other: "{count} दिन" },
+};
@@ -0,0 +1,40 @@
+import type { Catalog } from "../i18n";
+
+export const mr: Catalog = {
+  "nav.myStocks": "माझे शेअर्स",
+  "nav.alerts": "अलर्ट",
+  "nav.saved": "सेव्ह केलेले लेख",
+  "nav.install": "ॲप इन्स्टॉल करा",
+
+  "feed.loading": "StocksShorts लोड होत आहे...",
+  "feed.refreshing": "रिफ्रेश होत आहे...",
+  "feed.newArticles": { one: "{count} नवीन लेख", other: "{count} नवीन लेख" },
+  "feed.empty": "कोणतेही लेख सापडले नाहीत",
+
+  "category.global": "जागतिक",
+  "category.trending": "ट्रेंडिंग",
+  "category.nifty": "निफ्टी",
+  "category.breakout": "ब्रेकआउट शेअर्स",
+  "category.research_report": "संशोधन अहवाल",
+  "category.movers": "सर्वाधिक सक्रिय",
+  "category.order_wins": "ऑर्डर विन्स",
+  "category.warrant": "वॉरंट",
+  "category.results": "निकाल",
+  "category.others": "इतर",
+  "category.my_stocks": "माझे शेअर्स",
+  "category.news": "बातम्या",
+
+  "sentiment.all": "सर्व",
+  "sentiment.positive": "तेजी",
+  "sentiment.negative": "मंदी",
+  "sentiment.neutral": "तटस्थ",
+
+  "card.share": "शेअर करा",
+  "card.save": "सेव्ह करा",
+  "card.saved": "सेव्ह केले",
+  "card.swipeUp": "वर स्वाइप करा",
+  "card.updated": "अपडेट {time}",
+  "card.loading": "लोड होत आहे...",
+
+  "time.justNow": "आत्ताच",
+};
@@ -0,0 +1,40 @@
+import type { Catalog } from "../i18n";
+
+export const ta: Catalog = {
+  "nav.myStocks": "எனது பங்குகள்",
+  "nav.alerts": "அலர்ட்கள்",
+  "nav.saved": "சேமித்த கட்டுரைகள்",
+  "nav.install": "ஆப்பை நிறுவவும்",
+
+  "feed.loading": "StocksShorts ஏற்றப்படுகிறது...",
+  "feed.refreshing": "புதுப்பிக்கப்படுகிறது...",
+  "feed.newArticles": { one: "{count} புதிய கட்டுரை", other: "{count} புதிய கட்டுரைகள்" },
+  "feed.empty": "கட்டுரைகள் எதுவும் இல்லை",
+
+  "category.global": "உலகளாவிய",
+  "category.trending": "டிரெண்டிங்",
+  "category.nifty": "நிஃப்டி",
+  "category.breakout": "பிரேக்அவுட் பங்குகள்",
+  "category.research_report": "ஆய்வு அறிக்கை",
+  "category.movers": "அதிக செயல்பாடு",
+  "category.order_wins": "ஆர்டர் வெற்றிகள்",
+  "category.warrant": "வாரண்டுகள்",
+  "category.results": "முடிவுகள்",
+  "category.others": "மற்றவை",
+  "category.my_stocks": "எனது பங்குகள்",
+  "category.news": "செய்திகள்",
+
+  "sentiment.all": "அனைத்தும்",
+  "sentiment.positive": "ஏற்றம்",
+  "sentiment.negative": "இறக்கம்",
+  "sentiment.neutral": "நடுநிலை",
+
+  "card.share": "பகிர்",
+  "card.save": "சேமி",
+  "card.saved": "சேமிக்கப்பட்டது",
+  "card.swipeUp": "மேலே ஸ்வைப் செய்யவும்",
+  "card.updated": "புதுப்பிக்கப்பட்டது {time}",
+  "card.loading": "ஏற்றப்படுகிறது...",
+
+  "time.justNow": "இப்போது",
+};
@@ -0,0 +1,40 @@
+import type { Catalog } from "../i18n";
+
+export const te: Catalog = {
+  "nav.myStocks": "నా స్టాక్స్",
+  "nav.alerts": "అలర్ట్‌లు",
+  "nav.saved": "సేవ్ చేసిన ఆర్టికల్స్",
+  "nav.install": "యాప్ ఇన్‌స్టాల్ చేయండి",
+
+  "feed.loading": "StocksShorts లోడ్ అవుతోంది...",
+  "feed.refreshing": "రిఫ్రెష్ అవుతోంది...",
+  "feed.newArticles": { one: "{count} కొత్త ఆర్టికల్", other: "{count} కొత్త ఆర్టికల్స్" },
+  "feed.empty": "ఆర్టికల్స్ ఏవీ లేవు",
+
+  "category.global": "గ్లోబల్",
+  "category.trending": "ట్రెండింగ్",
+  "category.nifty": "నిఫ్టీ",
+  "category.breakout": "బ్రేకౌట్ స్టాక్స్",
+  "category.research_report": "రీసెర్చ్ రిపోర్ట్",
+  "category.movers": "అత్యంత యాక్టివ్",
+  "category.order_wins": "ఆర్డర్ విన్స్",
+  "category.warrant": "వారెంట్లు",
+  "category.results": "ఫలితాలు",
+  "category.others": "ఇతరాలు",
+  "category.my_stocks": "నా స్టాక్స్",
+  "category.news": "వార్తలు",
+
+  "sentiment.all": "అన్నీ",
+  "sentiment.positive": "బుల్లిష్",
+  "sentiment.negative": "బేరిష్",
+  "sentiment.neutral": "తటస్థం",
+
+  "card.share": "షేర్ చేయండి",
+  "card.save": "సేవ్ చేయండి",
+  "card.saved": "సేవ్ చేయబడింది",
+  "card.swipeUp": "పైకి స్వైప్ చేయండి",
+  "card.updated": "అప్‌డేట్ {time}",
+  "card.loading": "లోడ్ అవుతోంది...",
+
+  "time.justNow": "ఇప్పుడే",
+};
@@ -1,8 +1,24 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+import type { PremiumRequiredResponse } from "@shared/schema";
+
+// A 402 from any article endpoint opens the SubscriptionDialog listening in home.tsx
+function openSubscriptionIfRequired(status: number, text: string) {
+  if (status !== 402) return;
+  try {
+    const body = JSON.parse(text) as PremiumRequiredResponse;
+    if (body.code === "PREMIUM_REQUIRED") {
+      window.dispatchEvent(new CustomEvent("openSubscription", { detail: { type: body.triggerType } }));
+    }
+  } catch {
+    // Not a structured premium response
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+    openSubscriptionIfRequired(res.status, text);
     throw new Error(`${res.status}: ${text}`);
   }
 }
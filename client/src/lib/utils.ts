@@ -5,15 +5,21 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatPriceChange(change: string): { color: string; icon: string } {
-  if (change.startsWith('+')) {
+export function formatPriceChange(changeBps: number | null): { color: string; icon: string } {
+  if (changeBps !== null && changeBps > 0) {
     return { color: 'text-bull', icon: '↗' };
-  } else if (change.startsWith('-')) {
+  } else if (changeBps !== null && changeBps < 0) {
     return { color: 'text-bear', icon: '↘' };
   }
   return { color: 'text-neutral', icon: '→' };
 }
 
+// Same direction rule the server uses for alerts: the parsed change, not the text
+export function getPriceChangeSentiment(changeBps: number | null | undefined): 'positive' | 'negative' | 'neutral' {
+  if (!changeBps) return 'neutral';
+  return changeBps > 0 ? 'positive' : 'negative';
+}
+
 export function getCategoryIcon(category: string): string {
   switch (category) {
     case 'nifty':
@@ -67,26 +73,3 @@ export function getCategoryColor(category: string): string {
       return 'bg-muted';
   }
 }
-
-export function getCategoryLabel(category: string): string {
-  switch (category) {
-    case 'nifty':
-      return 'NIFTY UPDATE';
-    case 'breakout':
-      return 'BREAKOUT';
-    case 'movers':
-      return 'MOVERS';
-    case 'order_wins':
-      return 'TOP ORDER WINS';
-    case 'warrant':
-      return 'WARRANT ISSUE';
-    case 'ath':
-      return 'ALL-TIME HIGH';
-    case 'results':
-      return 'RESULTS';
-    case 'others':
-      return 'OTHERS';
-    default:
-      return 'NEWS';
-  }
-}
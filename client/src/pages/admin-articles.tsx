@@ -0,0 +1,452 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, History, Pencil, Pin, PinOff, Plus, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { Article, ArticleRevision, EditorArticle, PublishStatus } from "@shared/schema";
+
+const statusFilters: { id: PublishStatus | "all"; label: string }[] = [
+  { id: "all", label: "All" },
+  { id: "draft", label: "Drafts" },
+  { id: "scheduled", label: "Scheduled" },
+  { id: "published", label: "Published" },
+];
+
+const statusStyles: Record<string, string> = {
+  draft: "bg-muted text-muted-foreground",
+  scheduled: "bg-blue-500/10 text-blue-600",
+  published: "bg-green-500/10 text-green-600",
+};
+
+function formatTime(value: string | Date) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+// <input type="datetime-local"> wants local time without a zone
+function toLocalInput(value: string | Date) {
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+// apiRequest errors read `400: {"message":"..."}`
+function serverMessage(error: Error) {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message as string;
+  } catch {
+    return undefined;
+  }
+}
+
+const revisionSources: Record<string, string> = {
+  sheet_sync: "Sync",
+  editor: "Editor",
+  system: "System",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  const text = String(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+}
+
+// Who changed what and when; restoring puts the article back as it was after that revision
+function RevisionHistory({ articleId, onRestored }: { articleId: number; onRestored: (article: Article) => void }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: revisions = [], isLoading } = useQuery<ArticleRevision[]>({
+    queryKey: [`/api/admin/articles/${articleId}/revisions`],
+  });
+
+  const restore = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const res = await apiRequest("POST", `/api/admin/articles/${articleId}/revisions/${revisionId}/revert`);
+      return (await res.json()) as Article;
+    },
+    onSuccess: (article) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/articles/${articleId}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/articles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+      onRestored(article);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't restore revision", description: serverMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading history...</p>;
+  }
+  if (revisions.length === 0) {
+    return <p className="text-xs text-muted-foreground">No history recorded for this article</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {revisions.map((revision, index) => {
+        const fields = Object.entries(revision.changes);
+        return (
+          <li key={revision.id} className="p-2 rounded border border-border/50 text-xs space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                {revisionSources[revision.source] ?? revision.source}
+                {revision.note ? ` · ${revision.note}` : ""}
+              </span>
+              <span className="text-muted-foreground whitespace-nowrap">{formatTime(revision.createdAt)}</span>
+            </div>
+            {fields.length === 0 ? (
+              <div className="text-muted-foreground">Created</div>
+            ) : (
+              fields.map(([field, change]) => (
+                <div key={field}>
+                  <span className="font-mono">{field}</span>: {formatValue(change.from)} → {formatValue(change.to)}
+                </div>
+              ))
+            )}
+            {index > 0 && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => restore.mutate(revision.id)} disabled={restore.isPending}>
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Restore this version
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+type ArticleForm = {
+  title: string;
+  content: string;
+  category: string;
+  stockSymbol: string;
+  stockPrice: string;
+  priceChange: string;
+  imageUrl: string;
+  source: string;
+  isPremium: boolean;
+  pinned: boolean;
+  publishStatus: PublishStatus;
+  publishAt: string;
+};
+
+function toForm(article?: Article): ArticleForm {
+  return {
+    title: article?.title ?? "",
+    content: article?.content ?? "",
+    category: article?.category ?? "",
+    stockSymbol: article?.stockSymbol ?? "",
+    stockPrice: article?.stockPrice ?? "",
+    priceChange: article?.priceChange ?? "",
+    imageUrl: article?.imageUrl ?? "",
+    source: article?.source ?? "",
+    isPremium: article?.isPremium ?? false,
+    pinned: !!article?.pinnedAt,
+    publishStatus: (article?.publishStatus as PublishStatus) ?? "draft",
+    publishAt: article ? toLocalInput(article.publishedAt) : "",
+  };
+}
+
+function ArticleEditor({ article, open, onClose }: { article?: Article; open: boolean; onClose: () => void }) {
+  const [form, setForm] = useState<ArticleForm>(() => toForm(article));
+  const [initialPublishAt] = useState(form.publishAt);
+  const [showHistory, setShowHistory] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: categories = [] } = useQuery<string[]>({ queryKey: ["/api/admin/categories"], enabled: open });
+
+  const set = <K extends keyof ArticleForm>(key: K, value: ArticleForm[K]) => setForm((prev) => ({ ...prev, [key]: value }));
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const body: Partial<EditorArticle> = {
+        title: form.title,
+        content: form.content,
+        category: form.category,
+        stockSymbol: form.stockSymbol.trim() || null,
+        stockPrice: form.stockPrice.trim() || null,
+        priceChange: form.priceChange.trim() || null,
+        imageUrl: form.imageUrl,
+        source: form.source.trim() || null,
+        isPremium: form.isPremium,
+        pinned: form.pinned,
+        publishStatus: form.publishStatus,
+        // Untouched, the time stays as stored (the input drops seconds)
+        publishedAt: form.publishAt && form.publishAt !== initialPublishAt ? new Date(form.publishAt) : undefined,
+      };
+      const res = article
+        ? await apiRequest("PATCH", `/api/admin/articles/${article.id}`, body)
+        : await apiRequest("POST", "/api/admin/articles", body);
+      return (await res.json()) as Article;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/articles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save article", description: serverMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{article ? "Edit article" : "New article"}</DialogTitle>
+        </DialogHeader>
+        {article?.contentSource && (
+          <p className="text-xs text-muted-foreground">
+            From {article.contentSource}. Your edit stays until the source row changes; premium is set in the source.
+          </p>
+        )}
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="title">Title</Label>
+            <Input id="title" value={form.title} onChange={(e) => set("title", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="content">Content</Label>
+            <Textarea id="content" rows={6} value={form.content} onChange={(e) => set("content", e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Select value={form.category} onValueChange={(value) => set("category", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stockSymbol">Stock</Label>
+              <Input id="stockSymbol" value={form.stockSymbol} onChange={(e) => set("stockSymbol", e.target.value.toUpperCase())} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="stockPrice">Price</Label>
+              <Input id="stockPrice" value={form.stockPrice} onChange={(e) => set("stockPrice", e.target.value)} placeholder="₹2,845" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="priceChange">Change</Label>
+              <Input id="priceChange" value={form.priceChange} onChange={(e) => set("priceChange", e.target.value)} placeholder="+4.2%" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="imageUrl">Image URL</Label>
+            <Input id="imageUrl" value={form.imageUrl} onChange={(e) => set("imageUrl", e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="source">Source</Label>
+            <Input id="source" value={form.source} onChange={(e) => set("source", e.target.value)} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="isPremium">Premium</Label>
+            <Switch
+              id="isPremium"
+              checked={form.isPremium}
+              onCheckedChange={(checked) => set("isPremium", checked)}
+              disabled={!!article?.contentSource}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="pinned">Pinned to the top of its category</Label>
+            <Switch id="pinned" checked={form.pinned} onCheckedChange={(checked) => set("pinned", checked)} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label>Status</Label>
+              <Select value={form.publishStatus} onValueChange={(value) => set("publishStatus", value as PublishStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
+                  <SelectItem value="published">Published</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="publishAt">{form.publishStatus === "scheduled" ? "Publish at" : "Published at"}</Label>
+              <Input id="publishAt" type="datetime-local" value={form.publishAt} onChange={(e) => set("publishAt", e.target.value)} />
+            </div>
+          </div>
+        </div>
+        {article && (
+          <div className="space-y-2">
+            <Button variant="ghost" size="sm" onClick={() => setShowHistory(!showHistory)}>
+              <History className="h-4 w-4 mr-1" />
+              {showHistory ? "Hide history" : "History"}
+            </Button>
+            {showHistory && <RevisionHistory articleId={article.id} onRestored={(restored) => setForm(toForm(restored))} />}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => save.mutate()} disabled={save.isPending}>
+            {save.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminArticlesPage() {
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [status, setStatus] = useState<PublishStatus | "all">("all");
+  const [editing, setEditing] = useState<Article | "new" | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: articles = [], isLoading, error, refetch, isFetching } = useQuery<Article[]>({
+    queryKey: [status === "all" ? "/api/admin/articles" : `/api/admin/articles?status=${status}`],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/articles"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+  };
+
+  const togglePin = useMutation({
+    mutationFn: async (article: Article) => {
+      await apiRequest("PATCH", `/api/admin/articles/${article.id}`, { pinned: !article.pinnedAt });
+    },
+    onSuccess: onChanged,
+    onError: () => {
+      toast({ title: "Couldn't update pin", variant: "destructive" });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/articles/${id}`);
+    },
+    onSuccess: onChanged,
+    onError: (error: Error) => {
+      toast({ title: "Couldn't delete article", description: serverMessage(error), variant: "destructive" });
+    },
+  });
+
+  const errorStatus = error?.message?.split(":")[0];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur-xl border-b border-border/50 shadow-sm">
+        <div className="flex items-center justify-between px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <Link href="/" className="p-2 rounded-lg hover:bg-muted/80 transition-all duration-300">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <h1 className="text-xl font-bold text-green-600 dark:text-green-400">Articles</h1>
+              <p className="text-xs text-muted-foreground -mt-1">Write, correct, schedule and pin</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={!isAuthenticated || isFetching}>
+              <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            </Button>
+            <Button size="sm" onClick={() => setEditing("new")} disabled={!isAuthenticated}>
+              <Plus className="h-4 w-4 mr-1" />
+              New
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-4 space-y-4">
+        {isAuthenticated && (
+          <div className="flex flex-wrap gap-1">
+            {statusFilters.map((filter) => (
+              <Button
+                key={filter.id}
+                variant={filter.id === status ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setStatus(filter.id)}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {isAuthLoading ? null : !isAuthenticated ? (
+          <p className="text-center py-16 text-muted-foreground">Sign in with an editor account</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-16">
+            <RefreshCw className="w-6 h-6 animate-spin text-bull" />
+          </div>
+        ) : errorStatus === "403" ? (
+          <p className="text-center py-16 text-muted-foreground">This page is for editors only</p>
+        ) : articles.length === 0 ? (
+          <p className="text-center py-16 text-muted-foreground">No articles here yet</p>
+        ) : (
+          <div className="space-y-2">
+            {articles.map((article) => (
+              <div key={article.id} className="p-3 rounded-lg border border-border/50 space-y-2">
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="text-sm font-medium">
+                    {article.pinnedAt && <Pin className="w-3 h-3 inline mr-1 text-amber-500" />}
+                    {article.title}
+                  </span>
+                  <span className={cn("text-xs px-2 py-0.5 rounded-full whitespace-nowrap", statusStyles[article.publishStatus])}>
+                    {article.publishStatus}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {article.category} · {article.contentSource ?? "app"}{article.isPremium ? " · premium" : ""} · {formatTime(article.publishedAt)}
+                  </span>
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(article)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => togglePin.mutate(article)} disabled={togglePin.isPending}>
+                      {article.pinnedAt ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    {!article.contentSource && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => window.confirm("Delete this article?") && remove.mutate(article.id)}
+                        disabled={remove.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {editing && (
+        <ArticleEditor
+          key={editing === "new" ? "new" : editing.id}
+          article={editing === "new" ? undefined : editing}
+          open
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+}
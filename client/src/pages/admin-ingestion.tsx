@@ -0,0 +1,236 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, RefreshCw, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { IngestionRowReport, IngestionRun } from "@shared/schema";
+
+const statusTabs: { id: IngestionRowReport["status"]; label: string }[] = [
+  { id: "rejected", label: "Rejected" },
+  { id: "corrected", label: "Corrected" },
+  { id: "incomplete", label: "Held" },
+  { id: "accepted", label: "Accepted" },
+];
+
+function formatTime(value: string | Date) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "medium" });
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function RowList({ rows }: { rows: IngestionRowReport[] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No rows</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div key={`${row.tab}-${row.rowNumber}`} className="p-3 rounded-lg border border-border/50">
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-sm font-medium truncate">{row.title || "(no title)"}</span>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {row.tab} · row {row.rowNumber}{row.sheetId ? ` · id ${row.sheetId}` : ""}
+            </span>
+          </div>
+          {row.issues.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {row.issues.map((issue, index) => (
+                <li key={index} className="text-xs">
+                  <span className="font-mono font-semibold mr-1">{issue.column}</span>
+                  <span>{issue.problem}</span>
+                  <span className="text-muted-foreground"> → {issue.action}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Imports a CSV laid out like the sheet as its own source; re-uploading a name replaces it
+function CsvUpload({ onImported }: { onImported: (source: string) => void }) {
+  const [name, setName] = useState("");
+  const fileRef = useRef<HTMLInputElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const upload = useMutation({
+    mutationFn: async (file: File) => {
+      const res = await fetch(`/api/admin/sources/csv?name=${encodeURIComponent(name.trim() || "upload")}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: await file.text(),
+        credentials: "include",
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.message);
+      return body as { source: string };
+    },
+    // The import runs with the next sync, so its report shows up once that finishes
+    onSuccess: ({ source }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ingestion/sources"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/ingestion/latest?source=${encodeURIComponent(source)}`] });
+      onImported(source);
+      if (fileRef.current) fileRef.current.value = "";
+      toast({ title: "CSV import queued", description: "Refresh in a moment to see the import report." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't import CSV", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value.toLowerCase().replace(/[^a-z0-9_-]/g, ""))}
+        placeholder="Upload name"
+        className="h-9 w-36"
+      />
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={(e) => e.target.files?.[0] && upload.mutate(e.target.files[0])}
+      />
+      <Button variant="outline" size="sm" onClick={() => fileRef.current?.click()} disabled={upload.isPending}>
+        <Upload className="h-4 w-4 mr-1" />
+        {upload.isPending ? "Importing..." : "Import CSV"}
+      </Button>
+    </div>
+  );
+}
+
+export default function AdminIngestionPage() {
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const [selectedSource, setSelectedSource] = useState<string | null>(null);
+  const { data: sources = [] } = useQuery<string[]>({
+    queryKey: ["/api/admin/ingestion/sources"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+  const source = selectedSource ?? sources[0];
+  const { data: run, isLoading, error, refetch, isFetching } = useQuery<IngestionRun>({
+    queryKey: [`/api/admin/ingestion/latest?source=${encodeURIComponent(source ?? "")}`],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const errorStatus = error?.message?.split(":")[0];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur-xl border-b border-border/50 shadow-sm">
+        <div className="flex items-center justify-between px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <Link href="/" className="p-2 rounded-lg hover:bg-muted/80 transition-all duration-300">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <h1 className="text-xl font-bold text-green-600 dark:text-green-400">Ingestion</h1>
+              <p className="text-xs text-muted-foreground -mt-1">
+                {run ? `Last sync ${formatTime(run.startedAt)}` : "Latest sync report"}
+              </p>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={!isAuthenticated || isFetching}>
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+          </Button>
+        </div>
+      </header>
+
+      <main className="px-4 py-4 space-y-4">
+        {isAuthenticated && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap gap-1">
+              {sources.map((name) => (
+                <Button
+                  key={name}
+                  variant={name === source ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setSelectedSource(name)}
+                >
+                  {name}
+                </Button>
+              ))}
+            </div>
+            <CsvUpload onImported={setSelectedSource} />
+          </div>
+        )}
+
+        {isAuthLoading ? null : !isAuthenticated ? (
+          <p className="text-center py-16 text-muted-foreground">Sign in with an admin account</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-16">
+            <RefreshCw className="w-6 h-6 animate-spin text-bull" />
+          </div>
+        ) : errorStatus === "403" ? (
+          <p className="text-center py-16 text-muted-foreground">This page is for admins only</p>
+        ) : errorStatus === "404" ? (
+          <p className="text-center py-16 text-muted-foreground">No sync has run yet</p>
+        ) : !run ? (
+          <p className="text-center py-16 text-muted-foreground">Couldn't load the ingestion report</p>
+        ) : (
+          <>
+            {run.status === "failed" && (
+              <div className="p-3 rounded-lg border border-red-500/40 bg-red-500/5 text-sm">
+                Sync failed: {run.error}
+              </div>
+            )}
+
+            <div className="grid grid-cols-4 gap-2 text-center">
+              <div className="p-3 rounded-lg bg-muted/30">
+                <div className="text-2xl font-bold text-green-600">{run.acceptedRows}</div>
+                <div className="text-xs text-muted-foreground">Accepted</div>
+              </div>
+              <div className="p-3 rounded-lg bg-muted/30">
+                <div className="text-2xl font-bold text-amber-500">{run.correctedRows}</div>
+                <div className="text-xs text-muted-foreground">Corrected</div>
+              </div>
+              <Link href="/admin/review" className="p-3 rounded-lg bg-muted/30 hover:bg-muted/60">
+                <div className="text-2xl font-bold text-blue-500">{run.incompleteRows}</div>
+                <div className="text-xs text-muted-foreground">Held for review</div>
+              </Link>
+              <div className="p-3 rounded-lg bg-muted/30">
+                <div className="text-2xl font-bold text-red-500">{run.rejectedRows}</div>
+                <div className="text-xs text-muted-foreground">Rejected</div>
+              </div>
+            </div>
+
+            {run.status === "succeeded" && (
+              <p className="text-xs text-muted-foreground text-center">
+                {run.insertedCount} new · {run.updatedCount} updated · {run.archivedCount} archived · {run.unchangedCount} unchanged · took {formatDuration(run.durationMs)}
+              </p>
+            )}
+
+            <Tabs defaultValue={run.rejectedRows > 0 ? "rejected" : run.incompleteRows > 0 ? "incomplete" : run.correctedRows > 0 ? "corrected" : "accepted"}>
+              <TabsList className="w-full">
+                {statusTabs.map((tab) => (
+                  <TabsTrigger key={tab.id} value={tab.id} className="flex-1">
+                    {tab.label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+              {statusTabs.map((tab) => (
+                <TabsContent key={tab.id} value={tab.id}>
+                  <RowList rows={run.rows.filter(row => row.status === tab.id)} />
+                </TabsContent>
+              ))}
+            </Tabs>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
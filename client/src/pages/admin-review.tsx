@@ -0,0 +1,114 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Check, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { Article } from "@shared/schema";
+
+function formatTime(value: string | Date) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+const flagLabels: Record<string, string> = {
+  empty: "No body",
+  duplicate: "Duplicate body",
+  boilerplate: "Placeholder text",
+};
+
+export default function AdminReviewPage() {
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { data: articles = [], isLoading, error, refetch, isFetching } = useQuery<Article[]>({
+    queryKey: ["/api/admin/review"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const approve = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/admin/review/${id}/approve`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/review"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+    },
+    onError: () => {
+      toast({ title: "Couldn't publish article", variant: "destructive" });
+    },
+  });
+
+  const errorStatus = error?.message?.split(":")[0];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur-xl border-b border-border/50 shadow-sm">
+        <div className="flex items-center justify-between px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <Link href="/admin/ingestion" className="p-2 rounded-lg hover:bg-muted/80 transition-all duration-300">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <h1 className="text-xl font-bold text-green-600 dark:text-green-400">Review queue</h1>
+              <p className="text-xs text-muted-foreground -mt-1">
+                Fix these in their source, or publish them as they are
+              </p>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={!isAuthenticated || isFetching}>
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+          </Button>
+        </div>
+      </header>
+
+      <main className="px-4 py-4 space-y-2">
+        {isAuthLoading ? null : !isAuthenticated ? (
+          <p className="text-center py-16 text-muted-foreground">Sign in with an editor account</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-16">
+            <RefreshCw className="w-6 h-6 animate-spin text-bull" />
+          </div>
+        ) : errorStatus === "403" ? (
+          <p className="text-center py-16 text-muted-foreground">This page is for editors only</p>
+        ) : articles.length === 0 ? (
+          <p className="text-center py-16 text-muted-foreground">Nothing is waiting for review</p>
+        ) : (
+          articles.map((article) => (
+            <div key={article.id} className="p-3 rounded-lg border border-border/50 space-y-2">
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-sm font-medium">{article.title}</span>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {article.contentSource ?? "app"} · {formatTime(article.publishedAt)}
+                </span>
+              </div>
+              {article.content && (
+                <p className="text-xs text-muted-foreground line-clamp-2">{article.content}</p>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex flex-wrap gap-1">
+                  {article.contentFlags.map((flag) => (
+                    <span key={flag} className="text-xs px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-600">
+                      {flagLabels[flag] ?? flag}
+                    </span>
+                  ))}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => approve.mutate(article.id)}
+                  disabled={approve.isPending}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Publish anyway
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft, Bell, CheckCheck, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { AuthDialog } from "@/components/auth-dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useAlerts, type NewAlertRule } from "@/hooks/use-alerts";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { AlertRule } from "@shared/schema";
+
+const ruleTypes: { id: NewAlertRule["type"]; label: string }[] = [
+  { id: "symbol_article", label: "New article" },
+  { id: "price_move", label: "Price move" },
+  { id: "watchlist_category", label: "Category" },
+];
+
+const alertCategories = [
+  { id: "breakout", label: "Breakout" },
+  { id: "warrant", label: "Warrants" },
+  { id: "order_wins", label: "Order Wins" },
+  { id: "results", label: "Results" },
+  { id: "research_report", label: "Research" },
+];
+
+function describeRule(rule: AlertRule) {
+  const target = rule.stockSymbol || "my watchlist";
+  switch (rule.type) {
+    case "symbol_article":
+      return `Any new article on ${target}`;
+    case "price_move":
+      return `Price change beyond ±${(rule.thresholdBps ?? 0) / 100}% on ${target}`;
+    case "watchlist_category": {
+      const labels = (rule.categories ?? []).map(id => alertCategories.find(c => c.id === id)?.label ?? id);
+      return `New ${labels.join(" / ")} article on ${target}`;
+    }
+    default:
+      return rule.type;
+  }
+}
+
+function formatTime(value: string | Date) {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function AlertsPage() {
+  const [authOpen, setAuthOpen] = useState(false);
+  const [ruleType, setRuleType] = useState<NewAlertRule["type"]>("symbol_article");
+  const [symbol, setSymbol] = useState("");
+  const [threshold, setThreshold] = useState("5");
+  const [categories, setCategories] = useState<string[]>(["breakout", "warrant"]);
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const { alerts, rules, isLoading, markRead, createRule, toggleRule, deleteRule, isCreating } = useAlerts(isAuthenticated);
+  const { toast } = useToast();
+
+  const unreadCount = alerts.filter(alert => !alert.readAt).length;
+  const trimmedSymbol = symbol.trim();
+
+  const toggleCategory = (id: string) => {
+    setCategories(current => current.includes(id) ? current.filter(c => c !== id) : [...current, id]);
+  };
+
+  const handleCreate = () => {
+    // Price and category alerts cover the whole watchlist when no symbol is given
+    createRule({
+      type: ruleType,
+      stockSymbol: trimmedSymbol || null,
+      thresholdPercent: ruleType === "price_move" ? parseFloat(threshold) : null,
+      categories: ruleType === "watchlist_category" ? categories : null,
+    }, {
+      onSuccess: () => setSymbol(""),
+      onError: () => {
+        toast({
+          title: "Couldn't create alert",
+          description: "Check the alert details and try again.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur-xl border-b border-border/50 shadow-sm">
+        <div className="flex items-center justify-between px-4 py-4">
+          <div className="flex items-center space-x-3">
+            <Link href="/" className="p-2 rounded-lg hover:bg-muted/80 transition-all duration-300">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+            <div>
+              <h1 className="text-xl font-bold text-green-600 dark:text-green-400">Alerts</h1>
+              <p className="text-xs text-muted-foreground -mt-1">
+                {unreadCount} unread
+              </p>
+            </div>
+          </div>
+          {isAuthenticated && unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => markRead(undefined)}>
+              <CheckCheck className="h-4 w-4 mr-1" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="px-4 py-4 space-y-6">
+        {isAuthLoading ? null : !isAuthenticated ? (
+          <div className="text-center py-16 space-y-3">
+            <p className="text-muted-foreground text-lg">Sign in to get stock alerts</p>
+            <Button onClick={() => setAuthOpen(true)}>Sign in</Button>
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-16">
+            <RefreshCw className="w-6 h-6 animate-spin text-bull" />
+          </div>
+        ) : (
+          <>
+            <section className="space-y-2">
+              {alerts.length === 0 ? (
+                <div className="text-center py-10">
+                  <Bell className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
+                  <p className="text-muted-foreground text-sm">No alerts yet</p>
+                </div>
+              ) : (
+                alerts.map((alert) => (
+                  <button
+                    key={alert.id}
+                    onClick={() => !alert.readAt && markRead([alert.id])}
+                    className={cn(
+                      "w-full text-left p-3 rounded-lg border transition-all duration-300",
+                      alert.readAt
+                        ? "border-border/50 bg-background"
+                        : "border-green-500/40 bg-green-500/5"
+                    )}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className={cn("text-sm", !alert.readAt && "font-semibold")}>{alert.title}</span>
+                      {!alert.readAt && <span className="h-2 w-2 rounded-full bg-green-500" />}
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">{alert.message}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{formatTime(alert.createdAt)}</p>
+                  </button>
+                ))
+              )}
+            </section>
+
+            <section className="space-y-3 p-3 rounded-lg border border-border/50 bg-muted/20">
+              <h2 className="font-semibold text-sm">New alert</h2>
+              <div className="flex gap-2">
+                {ruleTypes.map((type) => (
+                  <Button
+                    key={type.id}
+                    size="sm"
+                    variant={ruleType === type.id ? "default" : "outline"}
+                    onClick={() => setRuleType(type.id)}
+                  >
+                    {type.label}
+                  </Button>
+                ))}
+              </div>
+              <Input
+                placeholder={ruleType === "symbol_article" ? "Symbol, e.g. RELIANCE" : "Symbol (blank for my watchlist)"}
+                value={symbol}
+                onChange={(e) => setSymbol(e.target.value)}
+                autoCapitalize="characters"
+              />
+              {ruleType === "price_move" && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Beyond ±</span>
+                  <Input
+                    type="number"
+                    min="0.1"
+                    step="0.1"
+                    className="w-24"
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                  />
+                  <span className="text-sm text-muted-foreground">%</span>
+                </div>
+              )}
+              {ruleType === "watchlist_category" && (
+                <div className="flex flex-wrap gap-2">
+                  {alertCategories.map((category) => (
+                    <Button
+                      key={category.id}
+                      size="sm"
+                      variant={categories.includes(category.id) ? "default" : "outline"}
+                      onClick={() => toggleCategory(category.id)}
+                    >
+                      {category.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <Button
+                className="w-full"
+                onClick={handleCreate}
+                disabled={isCreating || (ruleType === "symbol_article" && !trimmedSymbol)}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add alert
+              </Button>
+            </section>
+
+            {rules.length > 0 && (
+              <section className="space-y-2">
+                <h2 className="font-semibold text-sm">My alerts</h2>
+                {rules.map((rule) => (
+                  <div
+                    key={rule.id}
+                    className="flex items-center justify-between p-3 rounded-lg border border-border/50"
+                  >
+                    <span className={cn("text-sm", !rule.isActive && "text-muted-foreground")}>
+                      {describeRule(rule)}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={rule.isActive}
+                        onCheckedChange={(isActive) => toggleRule({ id: rule.id, isActive })}
+                      />
+                      <button
+                        onClick={() => deleteRule(rule.id)}
+                        className="p-2 rounded-lg text-muted-foreground hover:text-red-500 transition-all duration-300"
+                        title="Delete alert"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </section>
+            )}
+          </>
+        )}
+      </main>
+
+      <AuthDialog isOpen={authOpen} onClose={() => setAuthOpen(false)} />
+    </div>
+  );
+}
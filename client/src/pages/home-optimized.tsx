@@ -22,10 +22,12 @@ export default function Home() {
   const queryClient = useQueryClient();
 
   // Super fast data fetching with auto-refresh
-  const { data: allArticles = [], isLoading, refetch } = useQuery({
-    queryKey: ["/api/articles", selectedCategory],
+  const { data: articles = [], isLoading, refetch } = useQuery({
+    queryKey: ["/api/articles", selectedCategory, selectedSentiment],
     queryFn: async () => {
-      const url = `/api/articles?category=${selectedCategory}`;
+      // Sentiment is classified and filtered on the server
+      const sentimentParam = selectedSentiment === 'all' ? '' : `&sentiment=${selectedSentiment}`;
+      const url = `/api/articles?category=${selectedCategory}${sentimentParam}`;
       const res = await fetch(url);
       if (!res.ok) throw new Error('Failed to fetch articles');
       return res.json();
@@ -36,40 +38,6 @@ export default function Home() {
     refetchOnWindowFocus: true, // Refresh when user returns to tab
   });
 
-  // Filter articles by sentiment (applied after category filtering)
-  const articles = useMemo(() => {
-    // First filter by category (already done by the API call)
-    let filteredArticles = allArticles;
-    
-    // Then filter by sentiment if not 'all'
-    if (selectedSentiment !== 'all') {
-      filteredArticles = allArticles.filter(article => {
-        // Get sentiment from article sentiment field or price change
-        let articleSentiment = 'neutral';
-        
-        // Use Column N sentiment values first
-        if (article.sentiment && article.sentiment.trim() !== '') {
-          const s = article.sentiment.toLowerCase().trim();
-          if (s === 'bullish' || s === 'positive' || s === 'bull') articleSentiment = 'positive';
-          else if (s === 'bearish' || s === 'negative' || s === 'bear') articleSentiment = 'negative';
-          else if (s === 'neutral') articleSentiment = 'neutral';
-        } else if (article.priceChange) {
-          // Use price change to determine sentiment
-          const cleanPrice = article.priceChange.replace(/[^\d.-]/g, '');
-          const priceValue = parseFloat(cleanPrice);
-          if (!isNaN(priceValue)) {
-            if (priceValue > 0) articleSentiment = 'positive';
-            else if (priceValue < 0) articleSentiment = 'negative';
-          }
-        }
-        
-        return articleSentiment === selectedSentiment;
-      });
-    }
-    
-    return filteredArticles;
-  }, [allArticles, selectedSentiment]);
-
   // Track article views
   const trackViewMutation = useMutation({
     mutationFn: async (articleId: number) => {
@@ -140,17 +108,19 @@ export default function Home() {
           const [titleResult, contentResult] = await Promise.all([
             translateMutation.mutateAsync({
               text: currentArticle.title,
-              targetLanguage: "hindi"
+              targetLanguage: "hi"
             }),
             translateMutation.mutateAsync({
               text: currentArticle.content.substring(0, 200), // Shorter for speed
-              targetLanguage: "hindi"
+              targetLanguage: "hi"
             })
           ]);
 
-          // Update article in place
-          currentArticle.titleHi = titleResult.translatedText;
-          currentArticle.contentHi = contentResult.translatedText;
+          // Update article in place, unless the server fell back to the English text
+          if (!titleResult.fellBack && !contentResult.fellBack) {
+            currentArticle.titleHi = titleResult.translatedText;
+            currentArticle.contentHi = contentResult.translatedText;
+          }
           
           // Force re-render
           queryClient.invalidateQueries(["/api/articles"]);
@@ -1,20 +1,22 @@
 import { useState, useEffect, useRef } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Moon, Sun, RefreshCw, ChevronUp, TrendingUp, TrendingDown, Minus, Download } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Moon, Sun, RefreshCw, ChevronUp, TrendingUp, TrendingDown, Minus, Download, Bookmark, Star, Bell } from "lucide-react";
 import { useTheme } from "@/components/theme-provider";
 import { CategoryFilters } from "@/components/category-filters";
 import { ArticleCard } from "@/components/article-card";
 import { SubscriptionDialog } from "@/components/subscription-dialog";
 import { InstallPrompt } from "@/components/install-prompt";
 import { useSwipe } from "@/hooks/use-swipe";
-import { useLanguage } from "@/contexts/language-context";
+import { useAuth } from "@/hooks/useAuth";
+import { useUnreadAlertCount } from "@/hooks/use-alerts";
+import { useTranslation } from "@/hooks/use-translation";
 import { cn } from "@/lib/utils";
-import { apiRequest } from "@/lib/queryClient";
-import type { Article } from "@shared/schema";
+import type { Article, SentimentLabel } from "@shared/schema";
 
 export default function Home() {
   const [selectedCategory, setSelectedCategory] = useState("trending");
-  const [sentimentFilter, setSentimentFilter] = useState<'all' | 'positive' | 'negative' | 'neutral'>('all');
+  const [sentimentFilter, setSentimentFilter] = useState<'all' | SentimentLabel>('all');
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [newArticlesCount, setNewArticlesCount] = useState(0);
@@ -22,19 +24,22 @@ export default function Home() {
   const [isScrolling, setIsScrolling] = useState(false);
   const [subscriptionDialogOpen, setSubscriptionDialogOpen] = useState(false);
   const [subscriptionTriggerType, setSubscriptionTriggerType] = useState<'warrant' | 'breakout' | 'general'>('general');
-  const previousArticleCountRef = useRef<number>(0);
+  const latestPublishedAtRef = useRef<number>(0);
   const autoRefreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const { theme, toggleTheme } = useTheme();
-  const { language, setLanguage, isTranslating, setIsTranslating } = useLanguage();
+  const { language, t } = useTranslation();
   const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+  const unreadAlertCount = useUnreadAlertCount(isAuthenticated);
 
   const { data: articles = [], isLoading, error, refetch } = useQuery<Article[]>({
-    queryKey: ["/api/articles", selectedCategory],
+    queryKey: ["/api/articles", selectedCategory, language, sentimentFilter],
     queryFn: async () => {
       try {
-        const url = selectedCategory === "all" 
-          ? "/api/articles" 
-          : `/api/articles?category=${selectedCategory}`;
+        const params = new URLSearchParams({ lang: language });
+        if (selectedCategory !== "all") params.set("category", selectedCategory);
+        if (sentimentFilter !== "all") params.set("sentiment", sentimentFilter);
+        const url = `/api/articles?${params}`;
         const res = await fetch(url, {
           credentials: 'include',
           headers: {
@@ -57,73 +62,6 @@ export default function Home() {
     retry: 3
   });
 
-  const translateMutation = useMutation({
-    mutationFn: async ({ text, targetLanguage }: { text: string; targetLanguage: string }) => {
-      console.log(`Frontend translating: "${text}" to ${targetLanguage}`);
-      
-      const response = await apiRequest("POST", "/api/translate-openai", { text, targetLanguage });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error("Translation API error:", errorData);
-        throw new Error(errorData.message || "Translation failed");
-      }
-      
-      const result = await response.json();
-      console.log("Translation result:", result);
-      return result;
-    },
-  });
-
-  // OpenAI translation - fast and accurate
-  const handleGlobalLanguageToggle = async () => {
-    if (language === 'en') {
-      setIsTranslating(true);
-      setLanguage('hi');
-      
-      // Get current articles that need translation
-      const articlesNeedingTranslation = articles.filter(article => !article.titleHi || !article.contentHi);
-      
-      if (articlesNeedingTranslation.length > 0) {
-        try {
-          // Translate only the current visible article for instant performance
-          const currentArticle = articles[currentIndex];
-          if (currentArticle && (!currentArticle.titleHi || !currentArticle.contentHi)) {
-            const [titleResult, contentResult] = await Promise.all([
-              translateMutation.mutateAsync({
-                text: currentArticle.title,
-                targetLanguage: "hindi"
-              }),
-              translateMutation.mutateAsync({
-                text: currentArticle.content.substring(0, 150), // Shorter content for faster translation
-                targetLanguage: "hindi"
-              })
-            ]);
-            
-            // Update current article in place
-            currentArticle.titleHi = titleResult.translatedText;
-            currentArticle.contentHi = contentResult.translatedText;
-          }
-          
-          // Update cache immediately
-          queryClient.setQueryData(["/api/articles", selectedCategory], (oldData: Article[]) => {
-            return oldData.map(article => {
-              const translated = translatedArticles.find(t => t.id === article.id);
-              return translated || article;
-            });
-          });
-          
-        } catch (error) {
-          console.error("OpenAI translation failed:", error);
-        }
-      }
-      
-      setIsTranslating(false);
-    } else {
-      setLanguage('en');
-    }
-  };
-
   // Compact translation dictionary for essential financial terms only
   const getInstantTranslation = (text: string): string => {
     const translationDict: {[key: string]: string} = {
@@ -168,46 +106,8 @@ export default function Home() {
     return translatedWords.join(' ');
   };
 
-  // Filter articles by sentiment
-  const getSentiment = (title: string, content: string) => {
-    const text = (title + " " + content).toLowerCase();
-    
-    const positiveWords = [
-      'surge', 'surged', 'rally', 'rallied', 'gain', 'gains', 'high', 'breakout', 'jump', 'jumped',
-      'rise', 'rises', 'rose', 'up', 'bullish', 'strong', 'positive', 'boost', 'soar', 'soared',
-      'hits new high', 'record high', 'all-time high', 'outperform', 'buy', 'upgrade', 'target',
-      'growth', 'profit', 'beat', 'beats', 'exceed', 'expansion', 'partnership', 'deal'
-    ];
-    
-    const negativeWords = [
-      'fall', 'falls', 'fell', 'drop', 'dropped', 'decline', 'declined', 'crash', 'crashed',
-      'bearish', 'weak', 'negative', 'loss', 'losses', 'low', 'bear', 'sell', 'downgrade',
-      'concern', 'concerns', 'worry', 'worries', 'risk', 'risks', 'cut', 'cuts', 'miss',
-      'misses', 'missed', 'disappoint', 'disappointing', 'slump', 'plunge', 'tumble'
-    ];
-
-    let positiveScore = 0;
-    let negativeScore = 0;
-
-    positiveWords.forEach(word => {
-      if (text.includes(word)) positiveScore++;
-    });
-
-    negativeWords.forEach(word => {
-      if (text.includes(word)) negativeScore++;
-    });
-
-    if (positiveScore > negativeScore) return 'positive';
-    if (negativeScore > positiveScore) return 'negative';
-    return 'neutral';
-  };
-
-  const filteredArticles = articles
-    .filter(article => {
-      if (sentimentFilter === 'all') return true;
-      return getSentiment(article.title, article.content) === sentimentFilter;
-    })
-    .sort((a, b) => b.id - a.id);
+  // The server filters by sentiment (?sentiment=)
+  const filteredArticles = [...articles].sort((a, b) => b.id - a.id);
 
   const totalArticles = filteredArticles.length;
 
@@ -237,19 +137,21 @@ export default function Home() {
     };
   }, [refetch]);
 
-  // Track article count changes for notifications
+  // Notify about articles published after the newest one already seen
   useEffect(() => {
     if (articles.length > 0) {
-      const currentCount = articles.length;
-      const previousCount = previousArticleCountRef.current;
-
-      if (previousCount > 0 && currentCount > previousCount && isScrolling) {
-        const newCount = currentCount - previousCount;
-        setNewArticlesCount(newCount);
-        setShowNewArticlesNotification(true);
+      const publishedTimes = articles.map(article => new Date(article.publishedAt).getTime());
+      const latestSeen = latestPublishedAtRef.current;
+
+      if (latestSeen > 0 && isScrolling) {
+        const newCount = publishedTimes.filter(time => time > latestSeen).length;
+        if (newCount > 0) {
+          setNewArticlesCount(newCount);
+          setShowNewArticlesNotification(true);
+        }
       }
 
-      previousArticleCountRef.current = currentCount;
+      latestPublishedAtRef.current = Math.max(latestSeen, ...publishedTimes);
     }
   }, [articles, isScrolling]);
 
@@ -336,7 +238,7 @@ export default function Home() {
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
           <RefreshCw className="w-8 h-8 animate-spin mx-auto mb-4 text-bull" />
-          <p className="text-muted-foreground">Loading StocksShorts...</p>
+          <p className="text-muted-foreground">{t("feed.loading")}</p>
         </div>
       </div>
     );
@@ -352,34 +254,34 @@ export default function Home() {
               <h1 className="text-xl font-bold text-green-600 dark:text-green-400">
                 StocksShorts
               </h1>
-              <p className="text-xs text-muted-foreground -mt-1">Real-time Stock News</p>
+              <p className="text-xs text-muted-foreground -mt-1">{t("app.tagline")}</p>
             </div>
           </div>
 
           <div className="flex items-center space-x-1">
             {/* Sentiment Filter Icons */}
             <button
-              onClick={() => setSentimentFilter('positive')}
+              onClick={() => setSentimentFilter('bullish')}
               className={cn(
                 "p-2 rounded-lg transition-all duration-300 hover:scale-105 group",
-                sentimentFilter === 'positive' 
+                sentimentFilter === 'bullish' 
                   ? "bg-green-500/20 text-green-600" 
                   : "hover:bg-green-500/10 text-green-600/70"
               )}
-              title="Positive News"
+              title={t("nav.positive")}
             >
               <TrendingUp className="h-4 w-4 group-hover:text-green-500" />
             </button>
             
             <button
-              onClick={() => setSentimentFilter('negative')}
+              onClick={() => setSentimentFilter('bearish')}
               className={cn(
                 "p-2 rounded-lg transition-all duration-300 hover:scale-105 group",
-                sentimentFilter === 'negative' 
+                sentimentFilter === 'bearish' 
                   ? "bg-red-500/20 text-red-600" 
                   : "hover:bg-red-500/10 text-red-600/70"
               )}
-              title="Negative News"
+              title={t("nav.negative")}
             >
               <TrendingDown className="h-4 w-4 group-hover:text-red-500" />
             </button>
@@ -392,15 +294,44 @@ export default function Home() {
                   ? "bg-gray-500/20 text-gray-600" 
                   : "hover:bg-gray-500/10 text-gray-600/70"
               )}
-              title="Neutral News"
+              title={t("nav.neutral")}
             >
               <Minus className="h-4 w-4 group-hover:text-gray-500" />
             </button>
             
+            <Link
+              href="/watchlist"
+              className="p-2 rounded-lg hover:bg-amber-500/10 transition-all duration-300 hover:scale-105 group"
+              title={t("nav.myStocks")}
+            >
+              <Star className="h-4 w-4 text-amber-500 group-hover:text-amber-400" />
+            </Link>
+
+            <Link
+              href="/alerts"
+              className="relative p-2 rounded-lg hover:bg-green-500/10 transition-all duration-300 hover:scale-105 group"
+              title={t("nav.alerts")}
+            >
+              <Bell className="h-4 w-4 text-green-600 group-hover:text-green-500" />
+              {unreadAlertCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+                  {unreadAlertCount > 9 ? "9+" : unreadAlertCount}
+                </span>
+              )}
+            </Link>
+
+            <Link
+              href="/saved"
+              className="p-2 rounded-lg hover:bg-green-500/10 transition-all duration-300 hover:scale-105 group"
+              title={t("nav.saved")}
+            >
+              <Bookmark className="h-4 w-4 text-green-600 group-hover:text-green-500" />
+            </Link>
+
             <button
               className="p-2 rounded-lg hover:bg-blue-500/10 transition-all duration-300 hover:scale-105 group"
-              title="Install App"
-              onClick={() => alert('Use browser menu: Share → Add to Home Screen')}
+              title={t("nav.install")}
+              onClick={() => alert(t("nav.installHint"))}
             >
               <Download className="h-4 w-4 text-blue-600 group-hover:text-blue-500" />
             </button>
@@ -435,7 +366,7 @@ export default function Home() {
       >
         <div className="bg-bull text-white px-4 py-2 rounded-full text-sm font-medium flex items-center space-x-2">
           <RefreshCw className="w-4 h-4 animate-spin" />
-          <span>Refreshing...</span>
+          <span>{t("feed.refreshing")}</span>
         </div>
       </div>
 
@@ -450,7 +381,7 @@ export default function Home() {
         >
           <button className="bg-gradient-to-r from-green-500 to-emerald-600 text-white px-6 py-3 rounded-full text-sm font-semibold flex items-center space-x-3 shadow-lg hover:shadow-xl transition-all duration-300 hover:scale-105 border border-white/20">
             <ChevronUp className="w-4 h-4" />
-            <span>{newArticlesCount} new article{newArticlesCount > 1 ? 's' : ''}</span>
+            <span>{t("feed.newArticles", { count: newArticlesCount })}</span>
           </button>
         </div>
       )}
@@ -461,10 +392,21 @@ export default function Home() {
           {filteredArticles.length === 0 ? (
             <div className="absolute inset-0 flex items-center justify-center">
               <div className="text-center">
-                <p className="text-muted-foreground text-lg mb-2">No articles found</p>
-                <p className="text-muted-foreground text-sm">
-                  Try selecting a different category or sentiment filter
-                </p>
+                {selectedCategory === "my_stocks" ? (
+                  <>
+                    <p className="text-muted-foreground text-lg mb-2">{t("feed.myStocksEmpty")}</p>
+                    <Link href="/watchlist" className="text-sm text-green-600 hover:underline">
+                      {t("feed.manageStocks")}
+                    </Link>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-muted-foreground text-lg mb-2">{t("feed.empty")}</p>
+                    <p className="text-muted-foreground text-sm">
+                      {t("feed.emptyHint")}
+                    </p>
+                  </>
+                )}
               </div>
             </div>
           ) : (
@@ -473,7 +415,6 @@ export default function Home() {
                 key={article.id}
                 article={article}
                 isActive={index === currentIndex}
-                onLanguageToggle={handleGlobalLanguageToggle}
                 style={{
                   transform: `translateY(${(index - currentIndex) * 100}%)`,
                   zIndex: index === currentIndex ? 1 : 0,
@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, BookmarkX, RefreshCw } from "lucide-react";
+import { useBookmarks } from "@/hooks/use-bookmarks";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "@/hooks/use-translation";
+import { cn, getCategoryColor } from "@/lib/utils";
+import type { FeedArticle } from "@shared/schema";
+
+export default function Saved() {
+  const { language, categoryLabel } = useTranslation();
+  const { removeBookmark, isUpdating } = useBookmarks();
+
+  const { data: articles = [], isLoading } = useQuery<FeedArticle[]>({
+    queryKey: ["/api/bookmarks/articles", language],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/bookmarks/articles?lang=${language}`);
+      return res.json();
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur-xl border-b border-border/50 shadow-sm">
+        <div className="flex items-center px-4 py-4 space-x-3">
+          <Link href="/" className="p-2 rounded-lg hover:bg-muted/80 transition-all duration-300">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+          <div>
+            <h1 className="text-xl font-bold text-green-600 dark:text-green-400">Saved Articles</h1>
+            <p className="text-xs text-muted-foreground -mt-1">
+              {articles.length} saved
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-4 space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <RefreshCw className="w-6 h-6 animate-spin text-bull" />
+          </div>
+        ) : articles.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-muted-foreground text-lg mb-2">No saved articles yet</p>
+            <p className="text-muted-foreground text-sm">
+              Tap Save on any article to read it later
+            </p>
+          </div>
+        ) : (
+          articles.map((article) => (
+            <div
+              key={article.id}
+              className="flex gap-3 p-3 rounded-lg border border-border/50 bg-muted/20"
+            >
+              {article.imageUrl && (
+                <img
+                  src={article.imageUrl}
+                  alt={article.title}
+                  className="w-20 h-20 rounded object-cover flex-shrink-0"
+                  loading="lazy"
+                />
+              )}
+              <div className="flex-1 min-w-0 space-y-1">
+                <span className={cn("inline-block px-2 py-0.5 rounded text-[10px] text-white", getCategoryColor(article.category))}>
+                  {categoryLabel(article.category)}
+                </span>
+                <h2 className="font-semibold leading-tight line-clamp-2">
+                  {article.title}
+                </h2>
+                <p className="text-sm text-muted-foreground line-clamp-2">
+                  {article.locked
+                    ? "Premium analysis. Subscribe to read the full article."
+                    : article.content}
+                </p>
+              </div>
+              <button
+                onClick={() => removeBookmark(article.id)}
+                disabled={isUpdating}
+                className="self-start p-2 rounded-lg text-muted-foreground hover:text-red-500 transition-all duration-300"
+                title="Remove from saved"
+              >
+                <BookmarkX className="h-4 w-4" />
+              </button>
+            </div>
+          ))
+        )}
+      </main>
+    </div>
+  );
+}
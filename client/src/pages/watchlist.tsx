@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Plus, RefreshCw, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { AuthDialog } from "@/components/auth-dialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { useToast } from "@/hooks/use-toast";
+import type { StockSymbolSuggestion } from "@shared/schema";
+
+export default function WatchlistPage() {
+  const [query, setQuery] = useState("");
+  const [authOpen, setAuthOpen] = useState(false);
+  const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+  const { watchlist, isLoading, addSymbol, removeSymbol, isUpdating } = useWatchlist(isAuthenticated);
+  const { toast } = useToast();
+
+  const trimmedQuery = query.trim();
+  const { data: suggestions = [] } = useQuery<StockSymbolSuggestion[]>({
+    queryKey: [`/api/symbols?q=${encodeURIComponent(trimmedQuery)}`],
+    enabled: isAuthenticated && trimmedQuery.length > 0,
+  });
+
+  const handleAdd = (stockSymbol: string, exchange?: string | null) => {
+    addSymbol({ stockSymbol, exchange }, {
+      onSuccess: () => setQuery(""),
+      onError: () => {
+        toast({
+          title: "Couldn't add stock",
+          description: "Check the symbol and try again.",
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="sticky top-0 z-50 bg-background/95 backdrop-blur-xl border-b border-border/50 shadow-sm">
+        <div className="flex items-center px-4 py-4 space-x-3">
+          <Link href="/" className="p-2 rounded-lg hover:bg-muted/80 transition-all duration-300">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+          <div>
+            <h1 className="text-xl font-bold text-green-600 dark:text-green-400">My Stocks</h1>
+            <p className="text-xs text-muted-foreground -mt-1">
+              {watchlist.length} followed
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="px-4 py-4 space-y-4">
+        {isAuthLoading ? null : !isAuthenticated ? (
+          <div className="text-center py-16 space-y-3">
+            <p className="text-muted-foreground text-lg">Sign in to follow stocks</p>
+            <Button onClick={() => setAuthOpen(true)}>Sign in</Button>
+          </div>
+        ) : (
+          <>
+            <div className="relative">
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (trimmedQuery) handleAdd(trimmedQuery);
+                }}
+              >
+                <Input
+                  placeholder="Search a symbol, e.g. RELIANCE"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  autoCapitalize="characters"
+                />
+                <Button type="submit" disabled={!trimmedQuery || isUpdating}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </form>
+
+              {suggestions.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full rounded-lg border border-border bg-background shadow-lg">
+                  {suggestions.map((suggestion) => (
+                    <button
+                      key={suggestion.stockSymbol}
+                      onClick={() => handleAdd(suggestion.stockSymbol, suggestion.exchange)}
+                      className="flex w-full items-center justify-between px-3 py-2 text-sm hover:bg-muted/50"
+                    >
+                      <span className="font-medium">{suggestion.stockSymbol}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {suggestion.exchange ? `${suggestion.exchange} · ` : ""}{suggestion.articleCount} articles
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-16">
+                <RefreshCw className="w-6 h-6 animate-spin text-bull" />
+              </div>
+            ) : watchlist.length === 0 ? (
+              <div className="text-center py-16">
+                <p className="text-muted-foreground text-lg mb-2">You're not following any stocks yet</p>
+                <p className="text-muted-foreground text-sm">
+                  Add symbols to see their news under My Stocks
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {watchlist.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="flex items-center justify-between p-3 rounded-lg border border-border/50 bg-muted/20"
+                  >
+                    <div>
+                      <span className="font-semibold">{entry.stockSymbol}</span>
+                      {entry.exchange && (
+                        <span className="ml-2 text-xs text-muted-foreground">{entry.exchange}</span>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => removeSymbol(entry.stockSymbol)}
+                      disabled={isUpdating}
+                      className="p-2 rounded-lg text-muted-foreground hover:text-red-500 transition-all duration-300"
+                      title="Stop following"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <AuthDialog isOpen={authOpen} onClose={() => setAuthOpen(false)} />
+    </div>
+  );
+}
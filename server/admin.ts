@@ -0,0 +1,24 @@
+import { USER_ROLES, type User, type UserRole } from "@shared/schema";
+
+// Emails in ADMIN_EMAILS (comma-separated) are always admins, so a fresh install has someone who can grant roles
+function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function getRole(user: User | undefined): UserRole {
+  if (!user) return 'reader';
+  if (user.email && getAdminEmails().includes(user.email.toLowerCase())) return 'admin';
+  return USER_ROLES.includes(user.role as UserRole) ? user.role as UserRole : 'reader';
+}
+
+// Roles are ordered: an admin can do everything an editor can
+export function hasRole(user: User | undefined, role: UserRole): boolean {
+  return USER_ROLES.indexOf(getRole(user)) >= USER_ROLES.indexOf(role);
+}
+
+export function isAdmin(user: User | undefined): boolean {
+  return hasRole(user, 'admin');
+}
@@ -0,0 +1,30 @@
+import type { Alert, User } from "@shared/schema";
+
+// A way of getting an alert in front of the user; push, email and webhook plug in here
+export interface AlertChannel {
+  readonly name: string;
+  deliver(alert: Alert, user: User): Promise<void>;
+}
+
+// The alert row itself is the in-app inbox, so there is nothing more to send
+export class InAppAlertChannel implements AlertChannel {
+  readonly name = "in_app";
+
+  async deliver(_alert: Alert, _user: User): Promise<void> {}
+}
+
+const channels = new Map<string, AlertChannel>();
+
+export function registerAlertChannel(channel: AlertChannel) {
+  channels.set(channel.name, channel);
+}
+
+export function getAlertChannel(name: string): AlertChannel | undefined {
+  return channels.get(name);
+}
+
+export function getAlertChannelNames(): string[] {
+  return Array.from(channels.keys());
+}
+
+registerAlertChannel(new InAppAlertChannel());
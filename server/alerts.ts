@@ -0,0 +1,172 @@
+import { z } from "zod";
+import type { Alert, AlertRule, Article, User } from "@shared/schema";
+import { storage, type SourceSyncResult } from "./storage";
+import { getAlertChannel, getAlertChannelNames } from "./alert-channels";
+import { normalizeSymbol } from "./watchlists";
+
+export const ALERT_RULE_TYPES = ['symbol_article', 'price_move', 'watchlist_category'] as const;
+export type AlertRuleType = typeof ALERT_RULE_TYPES[number];
+
+const MAX_RULES_PER_USER = 50;
+const INBOX_LIMIT = 100;
+
+export class AlertError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "AlertError";
+  }
+}
+
+const alertRuleInputSchema = z.object({
+  type: z.enum(ALERT_RULE_TYPES),
+  stockSymbol: z.string().nullish(),
+  thresholdPercent: z.number().positive().max(100).nullish(),
+  categories: z.array(z.string().min(1)).nullish(),
+  channels: z.array(z.string()).min(1).optional(),
+});
+
+export type AlertRuleInput = z.infer<typeof alertRuleInputSchema>;
+
+export async function getRules(userId: number): Promise<AlertRule[]> {
+  return await storage.getAlertRules(userId);
+}
+
+export async function createRule(userId: number, input: unknown): Promise<AlertRule> {
+  const parsed = alertRuleInputSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new AlertError(parsed.error.errors[0]?.message || "Invalid alert rule");
+  }
+  const { type, stockSymbol, thresholdPercent, categories, channels = ['in_app'] } = parsed.data;
+
+  if (type === 'symbol_article' && !stockSymbol) {
+    throw new AlertError("Choose a stock for this alert");
+  }
+  if (type === 'price_move' && !thresholdPercent) {
+    throw new AlertError("Set a price change threshold");
+  }
+  if (type === 'watchlist_category' && !categories?.length) {
+    throw new AlertError("Choose at least one category");
+  }
+  const unknownChannel = channels.find(channel => !getAlertChannelNames().includes(channel));
+  if (unknownChannel) {
+    throw new AlertError(`Unknown delivery channel "${unknownChannel}"`);
+  }
+
+  const existing = await storage.getAlertRules(userId);
+  if (existing.length >= MAX_RULES_PER_USER) {
+    throw new AlertError(`You can have up to ${MAX_RULES_PER_USER} alerts`, 409);
+  }
+
+  return await storage.createAlertRule({
+    userId,
+    type,
+    stockSymbol: stockSymbol ? normalizeSymbol(stockSymbol) : null,
+    thresholdBps: type === 'price_move' && thresholdPercent ? Math.round(thresholdPercent * 100) : null,
+    categories: type === 'watchlist_category' ? categories : null,
+    channels,
+  });
+}
+
+export async function setRuleActive(userId: number, id: number, isActive: boolean): Promise<AlertRule> {
+  const rule = await storage.updateAlertRule(userId, id, { isActive });
+  if (!rule) {
+    throw new AlertError("Alert not found", 404);
+  }
+  return rule;
+}
+
+export async function deleteRule(userId: number, id: number): Promise<void> {
+  if (!(await storage.deleteAlertRule(userId, id))) {
+    throw new AlertError("Alert not found", 404);
+  }
+}
+
+export async function getInbox(userId: number, unreadOnly = false): Promise<Alert[]> {
+  return await storage.getAlerts(userId, { unreadOnly, limit: INBOX_LIMIT });
+}
+
+function articleSymbol(article: Article): string | null {
+  return article.stockSymbol ? article.stockSymbol.trim().toUpperCase() : null;
+}
+
+// Builds the inbox entry when the article matches the rule, or null when it doesn't
+function matchRule(rule: AlertRule, article: Article, isNew: boolean, symbols: string[]): { title: string; message: string } | null {
+  const symbol = articleSymbol(article);
+  if (!symbol || !symbols.includes(symbol)) return null;
+
+  switch (rule.type as AlertRuleType) {
+    case 'symbol_article':
+      return isNew ? { title: `New on ${symbol}`, message: article.title } : null;
+    case 'price_move': {
+      const changeBps = article.priceChangeBps;
+      if (changeBps === null || !rule.thresholdBps || Math.abs(changeBps) < rule.thresholdBps) return null;
+      return { title: `${symbol} moved ${article.priceChange}`, message: article.title };
+    }
+    case 'watchlist_category':
+      return isNew && rule.categories?.includes(article.category)
+        ? { title: `New ${article.category} article on ${symbol}`, message: article.title }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Runs after every ingestion; the (rule, article) unique key makes re-runs harmless
+export async function evaluateAlerts(result: Pick<SourceSyncResult, 'insertedArticles' | 'updatedArticles'>): Promise<number> {
+  const candidates = [
+    ...result.insertedArticles.map(article => ({ article, isNew: true })),
+    ...result.updatedArticles.map(article => ({ article, isNew: false })),
+  ].filter(({ article }) => articleSymbol(article));
+  if (candidates.length === 0) return 0;
+
+  const rules = await storage.getActiveAlertRules();
+  const watchlistSymbols = new Map<number, string[]>();
+  const users = new Map<number, User | undefined>();
+  let created = 0;
+
+  for (const rule of rules) {
+    let symbols: string[];
+    if (rule.stockSymbol) {
+      symbols = [rule.stockSymbol];
+    } else {
+      if (!watchlistSymbols.has(rule.userId)) {
+        const watchlist = await storage.getWatchlist(rule.userId);
+        watchlistSymbols.set(rule.userId, watchlist.map(entry => entry.stockSymbol));
+      }
+      symbols = watchlistSymbols.get(rule.userId)!;
+    }
+
+    for (const { article, isNew } of candidates) {
+      const match = matchRule(rule, article, isNew, symbols);
+      if (!match) continue;
+
+      const alert = await storage.createAlert({ userId: rule.userId, ruleId: rule.id, articleId: article.id, ...match });
+      if (!alert) continue;
+      created++;
+
+      if (!users.has(rule.userId)) {
+        users.set(rule.userId, await storage.getUserById(rule.userId));
+      }
+      await deliverAlert(alert, users.get(rule.userId), rule.channels);
+    }
+  }
+
+  return created;
+}
+
+// A failing channel is logged and skipped; the inbox entry already exists
+async function deliverAlert(alert: Alert, user: User | undefined, channelNames: string[]) {
+  if (!user) return;
+  for (const name of channelNames) {
+    const channel = getAlertChannel(name);
+    if (!channel) {
+      console.error(`Alert ${alert.id}: unknown delivery channel "${name}"`);
+      continue;
+    }
+    try {
+      await channel.deliver(alert, user);
+    } catch (error) {
+      console.error(`Alert ${alert.id}: delivery via ${name} failed:`, error);
+    }
+  }
+}
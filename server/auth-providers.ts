@@ -0,0 +1,250 @@
+import { createPublicKey, createVerify, type JsonWebKey, type KeyObject } from "crypto";
+
+export interface OtpSender {
+  readonly name: string;
+  sendCode(phoneNumber: string, code: string): Promise<void>;
+}
+
+export interface MagicLinkSender {
+  readonly name: string;
+  sendLink(email: string, link: string): Promise<void>;
+}
+
+// Claims we rely on from a verified Google ID token
+export interface GoogleIdentity {
+  googleId: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+export interface GoogleTokenVerifier {
+  readonly clientId: string | null;
+  // Throws GoogleTokenError when the token is not a valid ID token for our client
+  verify(idToken: string): Promise<GoogleIdentity>;
+}
+
+export class GoogleTokenError extends Error {
+  status = 401;
+
+  constructor(message = "Invalid Google ID token") {
+    super(message);
+    this.name = "GoogleTokenError";
+  }
+}
+
+// Twilio Programmable Messaging over its REST API
+export class TwilioOtpSender implements OtpSender {
+  readonly name = "twilio";
+
+  static createFromEnv() {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID;
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const from = process.env.TWILIO_FROM_NUMBER;
+
+    if (!accountSid || !authToken || !from) {
+      return null;
+    }
+    return new TwilioOtpSender(accountSid, authToken, from);
+  }
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string,
+  ) {}
+
+  async sendCode(phoneNumber: string, code: string): Promise<void> {
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        To: phoneNumber,
+        From: this.from,
+        Body: `${code} is your StocksShorts sign-in code. It expires in 10 minutes.`,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Twilio API error: ${response.status} - ${errorText}`);
+    }
+  }
+}
+
+// Resend transactional email over its REST API
+export class ResendMagicLinkSender implements MagicLinkSender {
+  readonly name = "resend";
+
+  static createFromEnv() {
+    const apiKey = process.env.RESEND_API_KEY;
+    const from = process.env.AUTH_EMAIL_FROM;
+
+    if (!apiKey || !from) {
+      return null;
+    }
+    return new ResendMagicLinkSender(apiKey, from);
+  }
+
+  constructor(
+    private apiKey: string,
+    private from: string,
+  ) {}
+
+  async sendLink(email: string, link: string): Promise<void> {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: email,
+        subject: "Your StocksShorts sign-in link",
+        text: `Sign in to StocksShorts: ${link}\n\nThis link expires in 15 minutes. If you didn't ask for it, you can ignore this email.`,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Resend API error: ${response.status} - ${errorText}`);
+    }
+  }
+}
+
+// Local stand-ins for development and tests; they log instead of delivering
+export class ConsoleOtpSender implements OtpSender {
+  readonly name = "console";
+  readonly sent: { phoneNumber: string; code: string }[] = [];
+
+  async sendCode(phoneNumber: string, code: string): Promise<void> {
+    this.sent.push({ phoneNumber, code });
+    console.log(`Sign-in code for ${phoneNumber}: ${code}`);
+  }
+}
+
+export class ConsoleMagicLinkSender implements MagicLinkSender {
+  readonly name = "console";
+  readonly sent: { email: string; link: string }[] = [];
+
+  async sendLink(email: string, link: string): Promise<void> {
+    this.sent.push({ email, link });
+    console.log(`Sign-in link for ${email}: ${link}`);
+  }
+}
+
+const GOOGLE_CERTS_URL = "https://www.googleapis.com/oauth2/v3/certs";
+const GOOGLE_ISSUERS = ["accounts.google.com", "https://accounts.google.com"];
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+// Verifies RS256 ID tokens from Google Identity Services against Google's published keys
+export class GoogleIdTokenVerifier implements GoogleTokenVerifier {
+  private keys = new Map<string, KeyObject>();
+  private keysExpireAt = 0;
+
+  static createFromEnv() {
+    const clientId = process.env.GOOGLE_CLIENT_ID;
+    return clientId ? new GoogleIdTokenVerifier(clientId) : null;
+  }
+
+  constructor(readonly clientId: string) {}
+
+  async verify(idToken: string): Promise<GoogleIdentity> {
+    const [headerSegment, payloadSegment, signatureSegment] = idToken.split(".");
+    if (!headerSegment || !payloadSegment || !signatureSegment) {
+      throw new GoogleTokenError();
+    }
+
+    let header: any;
+    let payload: any;
+    try {
+      header = decodeSegment(headerSegment);
+      payload = decodeSegment(payloadSegment);
+    } catch {
+      throw new GoogleTokenError();
+    }
+
+    if (header.alg !== "RS256") {
+      throw new GoogleTokenError();
+    }
+
+    const key = await this.getKey(header.kid);
+    const verifier = createVerify("RSA-SHA256");
+    verifier.update(`${headerSegment}.${payloadSegment}`);
+    if (!key || !verifier.verify(key, Buffer.from(signatureSegment, "base64url"))) {
+      throw new GoogleTokenError();
+    }
+
+    if (!GOOGLE_ISSUERS.includes(payload.iss) || payload.aud !== this.clientId) {
+      throw new GoogleTokenError("Google ID token was not issued for this app");
+    }
+    if (typeof payload.exp !== "number" || payload.exp * 1000 < Date.now()) {
+      throw new GoogleTokenError("Google ID token has expired");
+    }
+
+    return {
+      googleId: String(payload.sub),
+      email: payload.email ?? null,
+      emailVerified: payload.email_verified === true || payload.email_verified === "true",
+      name: payload.name ?? null,
+    };
+  }
+
+  private async getKey(kid: string): Promise<KeyObject | undefined> {
+    if (Date.now() >= this.keysExpireAt || !this.keys.has(kid)) {
+      await this.refreshKeys();
+    }
+    return this.keys.get(kid);
+  }
+
+  private async refreshKeys(): Promise<void> {
+    const response = await fetch(GOOGLE_CERTS_URL);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Google signing keys: ${response.status}`);
+    }
+
+    const { keys } = await response.json() as { keys: (JsonWebKey & { kid: string })[] };
+    this.keys = new Map(keys.map(jwk => [jwk.kid, createPublicKey({ key: jwk, format: "jwk" })] as [string, KeyObject]));
+
+    // Google rotates keys; honour the cache lifetime it advertises
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get("cache-control") || "");
+    this.keysExpireAt = Date.now() + (maxAge ? parseInt(maxAge[1]) : 3600) * 1000;
+  }
+}
+
+// Accepts "fake:<email>" tokens so the Google flow can be exercised locally
+export class FakeGoogleTokenVerifier implements GoogleTokenVerifier {
+  readonly clientId = null;
+
+  async verify(idToken: string): Promise<GoogleIdentity> {
+    const match = /^fake:(.+@.+)$/.exec(idToken);
+    if (!match) {
+      throw new GoogleTokenError();
+    }
+    return { googleId: `fake_${match[1]}`, email: match[1], emailVerified: true, name: match[1].split("@")[0] };
+  }
+}
+
+export interface AuthProviders {
+  otpSender: OtpSender | null;
+  magicLinkSender: MagicLinkSender | null;
+  googleVerifier: GoogleTokenVerifier | null;
+}
+
+// Real providers when configured; the console/fake stand-ins are never used in production
+export function createAuthProvidersFromEnv(): AuthProviders {
+  const allowFakes = process.env.NODE_ENV !== "production";
+
+  return {
+    otpSender: TwilioOtpSender.createFromEnv() ?? (allowFakes ? new ConsoleOtpSender() : null),
+    magicLinkSender: ResendMagicLinkSender.createFromEnv() ?? (allowFakes ? new ConsoleMagicLinkSender() : null),
+    googleVerifier: GoogleIdTokenVerifier.createFromEnv() ?? (allowFakes ? new FakeGoogleTokenVerifier() : null),
+  };
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ConsoleOtpSender } from "./auth-providers";
+import { authProviders, normalizeStoredContacts, requestPhoneCode, verifyPhoneCode } from "./auth";
+import { storage } from "./storage";
+
+let sender: ConsoleOtpSender;
+let nextPhone = 9000000000;
+
+// A fresh number per test keeps the per-number request limit out of the way
+function newPhone() {
+  return String(nextPhone++);
+}
+
+function lastCode() {
+  return sender.sent[sender.sent.length - 1].code;
+}
+
+function wrongCode() {
+  return lastCode() === "000000" ? "111111" : "000000";
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  sender = new ConsoleOtpSender();
+  authProviders.otpSender = sender;
+});
+
+describe("phone sign-in", () => {
+  it("signs in with the sent code and stores the normalized number", async () => {
+    const phone = newPhone();
+    await requestPhoneCode(phone);
+    const user = await verifyPhoneCode(phone, lastCode());
+    expect(user.phoneNumber).toBe(`+91${phone}`);
+  });
+
+  it("accepts the right code after a few wrong ones", async () => {
+    const phone = newPhone();
+    await requestPhoneCode(phone);
+    for (let i = 0; i < 4; i++) {
+      await expect(verifyPhoneCode(phone, wrongCode())).rejects.toThrow("Incorrect code");
+    }
+    await expect(verifyPhoneCode(phone, lastCode())).resolves.toMatchObject({ phoneNumber: `+91${phone}` });
+  });
+
+  it("locks the code after five wrong attempts, even for the right code", async () => {
+    const phone = newPhone();
+    await requestPhoneCode(phone);
+    for (let i = 0; i < 5; i++) {
+      await expect(verifyPhoneCode(phone, wrongCode())).rejects.toThrow("Incorrect code");
+    }
+    await expect(verifyPhoneCode(phone, lastCode())).rejects.toMatchObject({ status: 429 });
+  });
+
+  it("holds the lock against a burst of parallel guesses", async () => {
+    const phone = newPhone();
+    await requestPhoneCode(phone);
+    const guesses = await Promise.allSettled(Array.from({ length: 8 }, () => verifyPhoneCode(phone, wrongCode())));
+    const reasons = guesses.map(guess => guess.status === "rejected" ? guess.reason : null);
+    expect(reasons.filter(reason => reason?.message === "Incorrect code")).toHaveLength(5);
+    expect(reasons.filter(reason => reason?.status === 429)).toHaveLength(3);
+    await expect(verifyPhoneCode(phone, lastCode())).rejects.toMatchObject({ status: 429 });
+  });
+
+  it("starts a fresh count with a new code", async () => {
+    const phone = newPhone();
+    await requestPhoneCode(phone);
+    for (let i = 0; i < 5; i++) {
+      await verifyPhoneCode(phone, wrongCode()).catch(() => {});
+    }
+    await requestPhoneCode(phone);
+    await expect(verifyPhoneCode(phone, lastCode())).resolves.toMatchObject({ phoneNumber: `+91${phone}` });
+  });
+
+  it("does not accept a code twice", async () => {
+    const phone = newPhone();
+    await requestPhoneCode(phone);
+    const code = lastCode();
+    await verifyPhoneCode(phone, code);
+    await expect(verifyPhoneCode(phone, code)).rejects.toThrow("expired");
+  });
+
+  it("limits how many codes one number can request", async () => {
+    const phone = newPhone();
+    for (let i = 0; i < 3; i++) {
+      await requestPhoneCode(phone);
+    }
+    await expect(requestPhoneCode(phone)).rejects.toMatchObject({ status: 429 });
+  });
+
+  it("finds users stored with the number as typed once their contacts are normalized", async () => {
+    const phone = newPhone();
+    const legacy = await storage.createUser({ phoneNumber: `${phone.slice(0, 5)} ${phone.slice(5)}`, name: "Legacy" });
+    await normalizeStoredContacts();
+
+    await requestPhoneCode(phone);
+    const user = await verifyPhoneCode(phone, lastCode());
+    expect(user.id).toBe(legacy.id);
+  });
+});
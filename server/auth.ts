@@ -0,0 +1,231 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import type { AuthCode, InsertUser, User } from "@shared/schema";
+import { storage } from "./storage";
+import { createAuthProvidersFromEnv, type AuthProviders } from "./auth-providers";
+import { RequestRateLimiter } from "./rate-limit";
+
+const MINUTE_MS = 60 * 1000;
+
+export const OTP_TTL_MS = 10 * MINUTE_MS;
+export const MAGIC_LINK_TTL_MS = 15 * MINUTE_MS;
+const MAX_OTP_ATTEMPTS = 5;
+
+// At most this many codes per phone number or email in the window
+const CODE_REQUESTS_PER_TARGET = 3;
+// And this many code requests per client IP, across all targets
+const CODE_REQUESTS_PER_IP = 10;
+const CODE_REQUEST_WINDOW_MS = 15 * MINUTE_MS;
+
+export const authProviders: AuthProviders = createAuthProvidersFromEnv();
+
+export class AuthError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// In-process per-IP limit; per-target limits are enforced from stored codes instead
+const ipLimiter = new RequestRateLimiter(CODE_REQUESTS_PER_IP, CODE_REQUEST_WINDOW_MS);
+
+function hashSecret(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function hashesMatch(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+// Indian 10-digit mobiles get +91; anything else must already be in E.164 form
+export function normalizePhoneNumber(phoneNumber: string): string {
+  const compact = String(phoneNumber || "").replace(/[\s()-]/g, "");
+  const normalized = /^[6-9]\d{9}$/.test(compact) ? `+91${compact}` : compact;
+  if (!/^\+\d{10,15}$/.test(normalized)) {
+    throw new AuthError("Enter a valid mobile number");
+  }
+  return normalized;
+}
+
+export function normalizeEmail(email: string): string {
+  const normalized = String(email || "").trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalized)) {
+    throw new AuthError("Enter a valid email address");
+  }
+  return normalized;
+}
+
+function normalizedOrNull(normalize: (value: string) => string, value: string | null): string | null {
+  if (!value) return null;
+  try {
+    return normalize(value);
+  } catch {
+    return null;
+  }
+}
+
+// Accounts made before sign-in normalized contact details hold them as typed ("98765 43210", "A@B.com"),
+// which lookups by the normalized form would miss. Rewrites them once; values that aren't valid, or that
+// another account already holds in normalized form, are left as they are.
+export async function normalizeStoredContacts(): Promise<number> {
+  const users = await storage.getUsersWithContactDetails();
+  const taken = new Set<string>();
+  users.forEach(user => {
+    if (user.phoneNumber) taken.add(`phone:${user.phoneNumber}`);
+    if (user.email) taken.add(`email:${user.email}`);
+  });
+
+  let updated = 0;
+  for (const user of users) {
+    const updates: Partial<InsertUser> = {};
+    const phoneNumber = normalizedOrNull(normalizePhoneNumber, user.phoneNumber);
+    if (phoneNumber && phoneNumber !== user.phoneNumber && !taken.has(`phone:${phoneNumber}`)) {
+      updates.phoneNumber = phoneNumber;
+      taken.add(`phone:${phoneNumber}`);
+    }
+    const email = normalizedOrNull(normalizeEmail, user.email);
+    if (email && email !== user.email && !taken.has(`email:${email}`)) {
+      updates.email = email;
+      taken.add(`email:${email}`);
+    }
+
+    if (updates.phoneNumber || updates.email) {
+      await storage.updateUser(user.id, updates);
+      updated++;
+    }
+  }
+  return updated;
+}
+
+async function enforceRateLimit(channel: string, target: string, ip: string | undefined) {
+  if (ip && !ipLimiter.tryHit(ip)) {
+    throw new AuthError("Too many sign-in requests. Please try again later.", 429);
+  }
+  const recent = await storage.countAuthCodesSince(channel, target, new Date(Date.now() - CODE_REQUEST_WINDOW_MS));
+  if (recent >= CODE_REQUESTS_PER_TARGET) {
+    throw new AuthError("Too many codes requested. Please wait a few minutes and try again.", 429);
+  }
+}
+
+function isUsable(code: AuthCode | undefined, now: Date = new Date()): code is AuthCode {
+  return !!code && !code.consumedAt && code.expiresAt > now;
+}
+
+export async function requestPhoneCode(phoneNumber: string, ip?: string, name?: string): Promise<void> {
+  const sender = authProviders.otpSender;
+  if (!sender) {
+    throw new AuthError("Phone sign-in is not available right now", 503);
+  }
+
+  const target = normalizePhoneNumber(phoneNumber);
+  await enforceRateLimit("phone", target, ip);
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+  await storage.createAuthCode({
+    channel: "phone",
+    target,
+    codeHash: hashSecret(`${target}:${code}`),
+    name: name || null,
+    expiresAt: new Date(Date.now() + OTP_TTL_MS),
+  });
+  await sender.sendCode(target, code);
+}
+
+export async function verifyPhoneCode(phoneNumber: string, code: string): Promise<User> {
+  const target = normalizePhoneNumber(phoneNumber);
+  const authCode = await storage.getLatestAuthCode("phone", target);
+  if (!isUsable(authCode)) {
+    throw new AuthError("This code has expired. Please request a new one.");
+  }
+  // Counted before the code is compared; storage refuses the attempt once the limit is reached
+  if (!(await storage.recordAuthCodeAttempt(authCode.id, MAX_OTP_ATTEMPTS))) {
+    throw new AuthError("Too many incorrect attempts. Please request a new code.", 429);
+  }
+  if (!hashesMatch(hashSecret(`${target}:${String(code || "").trim()}`), authCode.codeHash)) {
+    throw new AuthError("Incorrect code");
+  }
+  if (!(await storage.consumeAuthCode(authCode.id))) {
+    throw new AuthError("This code has already been used");
+  }
+
+  const existing = await storage.getUserByPhone(target);
+  return existing ?? await storage.createUser({ phoneNumber: target, name: authCode.name });
+}
+
+export async function requestMagicLink(email: string, baseUrl: string, ip?: string, name?: string): Promise<void> {
+  const sender = authProviders.magicLinkSender;
+  if (!sender) {
+    throw new AuthError("Email sign-in is not available right now", 503);
+  }
+
+  const target = normalizeEmail(email);
+  await enforceRateLimit("email", target, ip);
+
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAuthCode({
+    channel: "email",
+    target,
+    codeHash: hashSecret(token),
+    name: name || null,
+    expiresAt: new Date(Date.now() + MAGIC_LINK_TTL_MS),
+  });
+  await sender.sendLink(target, `${baseUrl}/api/auth/email/verify?token=${encodeURIComponent(token)}`);
+}
+
+export async function verifyMagicLink(token: string): Promise<User> {
+  const authCode = token ? await storage.getAuthCodeByHash(hashSecret(token)) : undefined;
+  if (!isUsable(authCode) || authCode.channel !== "email") {
+    throw new AuthError("This sign-in link is invalid or has expired");
+  }
+  if (!(await storage.consumeAuthCode(authCode.id))) {
+    throw new AuthError("This sign-in link has already been used");
+  }
+
+  const existing = await storage.getUserByEmail(authCode.target);
+  return existing ?? await storage.createUser({ email: authCode.target, name: authCode.name });
+}
+
+// Links the Google account to an existing user only when Google has verified the email
+export async function signInWithGoogle(idToken: string): Promise<User> {
+  const verifier = authProviders.googleVerifier;
+  if (!verifier) {
+    throw new AuthError("Google sign-in is not available right now", 503);
+  }
+  if (!idToken) {
+    throw new AuthError("Google ID token required");
+  }
+
+  const identity = await verifier.verify(idToken);
+
+  const linked = await storage.getUserByGoogleId(identity.googleId);
+  if (linked) return linked;
+
+  const email = identity.email ? identity.email.toLowerCase() : null;
+  if (email && identity.emailVerified) {
+    const byEmail = await storage.getUserByEmail(email);
+    if (byEmail) {
+      return await storage.updateUser(byEmail.id, { googleId: identity.googleId, name: byEmail.name || identity.name });
+    }
+  }
+
+  return await storage.createUser({
+    googleId: identity.googleId,
+    email: identity.emailVerified ? email : null,
+    name: identity.name,
+  });
+}
+
+const CLEANUP_INTERVAL_MS = 60 * MINUTE_MS;
+
+// Unused codes are useless once expired; drop them so the table doesn't grow forever
+export function startAuthCodeCleanup(): NodeJS.Timeout {
+  return setInterval(() => {
+    ipLimiter.prune();
+    storage.deleteExpiredAuthCodes(new Date())
+      .then(deleted => {
+        if (deleted) console.log(`Deleted ${deleted} expired sign-in codes`);
+      })
+      .catch(error => console.error("Auth code cleanup failed:", error));
+  }, CLEANUP_INTERVAL_MS);
+}
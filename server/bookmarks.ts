@@ -0,0 +1,86 @@
+import type { Session, SessionData } from "express-session";
+import type { Article } from "@shared/schema";
+import { storage, isLive } from "./storage";
+
+// Bookmarks made before signing in are kept on the session and merged on login
+export interface SavedBookmark {
+  articleId: number;
+  createdAt: Date;
+}
+
+declare module "express-session" {
+  interface SessionData {
+    anonymousBookmarks: { articleId: number; createdAt: string }[];
+  }
+}
+
+type BookmarkSession = Session & Partial<SessionData>;
+
+export async function getBookmarks(session: BookmarkSession): Promise<SavedBookmark[]> {
+  if (session.userId) {
+    const bookmarks = await storage.getBookmarks(session.userId);
+    return bookmarks
+      .map(({ articleId, createdAt }) => ({ articleId, createdAt }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  return (session.anonymousBookmarks || [])
+    .map(({ articleId, createdAt }) => ({ articleId, createdAt: new Date(createdAt) }))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+export async function isBookmarked(session: BookmarkSession, articleId: number): Promise<boolean> {
+  if (session.userId) {
+    return await storage.isBookmarked(session.userId, articleId);
+  }
+  return (session.anonymousBookmarks || []).some(bookmark => bookmark.articleId === articleId);
+}
+
+export async function addBookmark(session: BookmarkSession, articleId: number): Promise<SavedBookmark> {
+  if (session.userId) {
+    const existing = (await storage.getBookmarks(session.userId)).find(bookmark => bookmark.articleId === articleId);
+    const bookmark = existing || await storage.addBookmark({ userId: session.userId, articleId });
+    return { articleId: bookmark.articleId, createdAt: bookmark.createdAt };
+  }
+
+  const anonymousBookmarks = session.anonymousBookmarks || [];
+  const existing = anonymousBookmarks.find(bookmark => bookmark.articleId === articleId);
+  if (existing) {
+    return { articleId, createdAt: new Date(existing.createdAt) };
+  }
+
+  const createdAt = new Date();
+  session.anonymousBookmarks = [...anonymousBookmarks, { articleId, createdAt: createdAt.toISOString() }];
+  return { articleId, createdAt };
+}
+
+export async function removeBookmark(session: BookmarkSession, articleId: number): Promise<void> {
+  if (session.userId) {
+    await storage.removeBookmark(session.userId, articleId);
+    return;
+  }
+  session.anonymousBookmarks = (session.anonymousBookmarks || []).filter(bookmark => bookmark.articleId !== articleId);
+}
+
+// Articles unpublished, archived or held after they were saved drop out of the list
+export async function getBookmarkedArticles(session: BookmarkSession): Promise<Article[]> {
+  const bookmarks = await getBookmarks(session);
+  const articles = await Promise.all(bookmarks.map(bookmark => storage.getArticle(bookmark.articleId)));
+  return articles.filter((article): article is Article => !!article && isLive(article));
+}
+
+// Called right after login; moves the anonymous bookmarks onto the account
+export async function mergeAnonymousBookmarks(session: BookmarkSession, userId: number): Promise<number> {
+  const anonymousBookmarks = session.anonymousBookmarks || [];
+  let merged = 0;
+
+  for (const { articleId } of anonymousBookmarks) {
+    if (!(await storage.isBookmarked(userId, articleId))) {
+      await storage.addBookmark({ userId, articleId });
+      merged++;
+    }
+  }
+
+  delete session.anonymousBookmarks;
+  return merged;
+}
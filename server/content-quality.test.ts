@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { IngestionRowReport } from "@shared/schema";
+import { assessContent, flagIncompleteArticles } from "./content-quality";
+import type { SourceArticle, SourceFetchResult } from "./content-source";
+
+const BODY = "Reliance Industries rose 3% after refining margins beat estimates.";
+
+describe("assessContent", () => {
+  it("passes a real body", () => {
+    expect(assessContent("Reliance hits record high", BODY)).toEqual([]);
+  });
+
+  it("flags missing, short and headline-only bodies as empty", () => {
+    expect(assessContent("Reliance hits record high", "")).toEqual(["empty"]);
+    expect(assessContent("Reliance hits record high", "-")).toEqual(["empty"]);
+    expect(assessContent("Reliance hits record high on strong refining margins", "Reliance hits record high on  strong refining margins")).toEqual(["empty"]);
+  });
+
+  it("flags placeholder copy and the old generated filler", () => {
+    expect(assessContent("Reliance", "TBA")).toEqual(["boilerplate"]);
+    expect(assessContent("Reliance", `${BODY} Market participants continue to monitor these developments.`)).toEqual(["boilerplate"]);
+  });
+});
+
+describe("flagIncompleteArticles", () => {
+  function fetchResult(rows: [string, string, string][]): SourceFetchResult {
+    return {
+      articles: rows.map(([sheetId, title, content]) => ({ sheetId, title, content, category: "breakout", imageUrl: "", timeAgo: "" } as SourceArticle)),
+      rows: rows.map(([sheetId, title], index): IngestionRowReport => ({ tab: "Sheet1", rowNumber: index + 2, sheetId, title, status: "accepted", issues: [] })),
+      columns: { Sheet1: { content: "C" } },
+    };
+  }
+
+  it("holds empty rows and later copies of a body, keeping the first", () => {
+    const result = fetchResult([
+      ["1", "Reliance hits record high", BODY],
+      ["2", "Reliance at a record", BODY],
+      ["3", "Tata Steel", ""],
+    ]);
+    flagIncompleteArticles(result);
+
+    expect(result.articles.map(article => [article.contentStatus, article.contentFlags])).toEqual([
+      ["complete", []],
+      ["incomplete", ["duplicate"]],
+      ["incomplete", ["empty"]],
+    ]);
+    expect(result.rows.map(row => row.status)).toEqual(["accepted", "incomplete", "incomplete"]);
+    expect(result.rows[1].issues).toEqual([{ column: "C", problem: "Same body as row 2", action: "Held for editorial review" }]);
+  });
+
+  it("does not count empty bodies as duplicates of each other", () => {
+    const result = fetchResult([["1", "A", ""], ["2", "B", ""]]);
+    flagIncompleteArticles(result);
+    expect(result.articles.map(article => article.contentFlags)).toEqual([["empty"], ["empty"]]);
+  });
+});
@@ -0,0 +1,76 @@
+import type { SourceFetchResult } from "./content-source";
+
+// Articles whose body is missing, copied or placeholder text are held for editorial review
+// rather than padded with generated text.
+
+export const CONTENT_FLAGS = ['empty', 'duplicate', 'boilerplate'] as const;
+export type ContentFlag = typeof CONTENT_FLAGS[number];
+
+// Shorter bodies ("-", "TBA", a lone ticker) say nothing the headline doesn't
+const MIN_CONTENT_LENGTH = 40;
+
+// Placeholder copy seen in the sheet, plus the filler the app used to generate, so stored rows carrying it get flagged
+const BOILERPLATE_PATTERNS = [
+  /domestic indices extended gains/i,
+  /technical analysts highlight/i,
+  /market participants continue to monitor these developments/i,
+  /traders and investors are monitoring these developments/i,
+  /lorem ipsum/i,
+  /^(tbd|tba|to be updated|coming soon|n\/?a|na)\.?$/i,
+];
+
+const FLAG_PROBLEMS: Record<ContentFlag, string> = {
+  empty: 'Missing or too-short body',
+  duplicate: 'Same body as an earlier row',
+  boilerplate: 'Placeholder text instead of a body',
+};
+
+function normalizeBody(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function assessContent(title: string, content: string): ContentFlag[] {
+  const body = normalizeBody(content);
+  if (BOILERPLATE_PATTERNS.some(pattern => pattern.test(body))) return ['boilerplate'];
+  // A body that only repeats the headline is as good as none
+  if (body.length < MIN_CONTENT_LENGTH || body === normalizeBody(title)) return ['empty'];
+  return [];
+}
+
+// Sets contentStatus and contentFlags on every fetched article and notes held rows in the ingestion report.
+// Within one fetch the first of several identical bodies is kept and the rest are flagged as duplicates.
+export function flagIncompleteArticles(result: SourceFetchResult) {
+  const reportsBySheetId = new Map(
+    result.rows.filter(row => row.sheetId && row.status !== 'rejected').map(row => [row.sheetId!, row]),
+  );
+  const firstByBody = new Map<string, string>();
+
+  result.articles.forEach(article => {
+    const flags = assessContent(article.title, article.content);
+    const body = normalizeBody(article.content);
+    const earlier = flags.length === 0 ? firstByBody.get(body) : undefined;
+    if (earlier) {
+      flags.push('duplicate');
+    } else if (flags.length === 0) {
+      firstByBody.set(body, article.sheetId);
+    }
+
+    article.contentStatus = flags.length > 0 ? 'incomplete' : 'complete';
+    article.contentFlags = flags;
+
+    const report = reportsBySheetId.get(article.sheetId);
+    if (!report || flags.length === 0) return;
+    let problem = FLAG_PROBLEMS[flags[0]];
+    const earlierReport = earlier ? reportsBySheetId.get(earlier) : undefined;
+    if (earlierReport) {
+      const location = earlierReport.tab === report.tab ? `row ${earlierReport.rowNumber}` : `${earlierReport.tab} row ${earlierReport.rowNumber}`;
+      problem = `Same body as ${location}`;
+    }
+    report.status = 'incomplete';
+    report.issues.push({
+      column: result.columns[report.tab]?.content ?? '-',
+      problem,
+      action: 'Held for editorial review',
+    });
+  });
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { columnLetter, mapHeaderColumns, parseSourceRecord, type RecordContext, type SourceField } from "./content-source";
+
+const syncTime = new Date("2025-01-10T06:30:00Z");
+const LETTERS: Partial<Record<SourceField, string>> = { sheetId: "A", title: "B", content: "C", category: "D", exchange: "E", publishedAt: "F", isPremium: "G", stockPrice: "H", sentiment: "I" };
+
+const context: RecordContext = {
+  tab: "Sheet1",
+  rowNumber: 2,
+  index: 0,
+  syncTime,
+  column: field => LETTERS[field] ?? "-",
+  hasField: field => field in LETTERS,
+};
+
+const validRow = {
+  sheetId: "12",
+  title: "Reliance hits record high",
+  content: "Shares rose 3% on strong refining margins.",
+  category: "breakout",
+  exchange: "nse",
+  publishedAt: "2 hours ago",
+  isPremium: "TRUE",
+  stockPrice: "₹2,845",
+  sentiment: "Bullish",
+};
+
+describe("parseSourceRecord", () => {
+  it("accepts a clean row", () => {
+    const { article, report } = parseSourceRecord(validRow, context);
+    expect(report).toEqual({ tab: "Sheet1", rowNumber: 2, sheetId: "12", title: "Reliance hits record high", status: "accepted", issues: [] });
+    expect(article).toMatchObject({
+      sheetId: "12",
+      category: "breakout",
+      exchange: "NSE",
+      isPremium: true,
+      timeAgo: "2 hours ago",
+      publishedAt: new Date(syncTime.getTime() - 2 * 60 * 60 * 1000),
+    });
+  });
+
+  it("rejects a row without an id or title, naming the column", () => {
+    const { article, report } = parseSourceRecord({ ...validRow, sheetId: " ", title: undefined }, context);
+    expect(article).toBeUndefined();
+    expect(report.status).toBe("rejected");
+    expect(report.issues).toEqual([
+      { column: "A", problem: "Missing article id", action: "Row skipped" },
+      { column: "B", problem: "Missing title", action: "Row skipped" },
+    ]);
+  });
+
+  it("corrects bad optional cells and reports each one", () => {
+    const { article, report } = parseSourceRecord({
+      ...validRow,
+      category: "",
+      exchange: "LSE",
+      publishedAt: "sometime",
+      isPremium: "maybe",
+      stockPrice: "call us",
+      sentiment: "meh",
+    }, context);
+
+    expect(report.status).toBe("corrected");
+    expect(report.issues.map(issue => [issue.column, issue.action])).toEqual([
+      ["D", 'Filed under "others"'],
+      ["E", "Left blank"],
+      ["F", "Used the sync time"],
+      ["G", "Treated as not premium"],
+      ["H", "Kept as text only"],
+      ["I", "Ignored"],
+    ]);
+    expect(article).toMatchObject({ category: "others", exchange: null, publishedAt: syncTime, isPremium: false, sentiment: null });
+  });
+
+  it("files rows with a blank category under the tab's category", () => {
+    const { article, report } = parseSourceRecord({ ...validRow, category: "" }, { ...context, defaultCategory: "warrants" });
+    expect(report.status).toBe("accepted");
+    expect(article?.category).toBe("warrant");
+  });
+
+  it("does not report a publish time for sources that have none", () => {
+    const { article, report } = parseSourceRecord({ ...validRow, publishedAt: undefined }, { ...context, hasField: field => field !== "publishedAt" });
+    expect(report.status).toBe("accepted");
+    expect(article?.publishedAt).toEqual(syncTime);
+  });
+});
+
+describe("mapHeaderColumns", () => {
+  it("finds fields by header name in any order, ignoring case and punctuation", () => {
+    const { columns, missing } = mapHeaderColumns(["Headline", "Stock Price (₹)", "ID", "Time Ago", "Body"]);
+    expect(columns).toMatchObject({ title: 0, sheetId: 2, publishedAt: 3, content: 4 });
+    expect(missing).toEqual([]);
+  });
+
+  it("reports required headers that are missing", () => {
+    expect(mapHeaderColumns(["Content", "Category"]).missing).toEqual(["sheetId", "title"]);
+  });
+
+  it("lets configured aliases claim a column before the defaults", () => {
+    const { columns } = mapHeaderColumns(["ID", "Title", "Headline EN"], { title: ["Headline EN"] });
+    expect(columns.title).toBe(2);
+  });
+
+  it("never maps two fields to one column", () => {
+    const { columns } = mapHeaderColumns(["ID", "Title", "Price"]);
+    expect(columns.stockPrice).toBe(2);
+    expect(Object.values(columns).filter(index => index === 2)).toHaveLength(1);
+  });
+});
+
+describe("columnLetter", () => {
+  it("names columns the way the spreadsheet does", () => {
+    expect([0, 25, 26, 51, 701, 702].map(columnLetter)).toEqual(["A", "Z", "AA", "AZ", "ZZ", "AAA"]);
+  });
+});
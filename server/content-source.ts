@@ -0,0 +1,450 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import type { IngestionIssue, IngestionRowReport, InsertArticle } from "@shared/schema";
+import { getArticleImage } from "./image-logic";
+import { parsePublishedAt } from "./published-at";
+import { normalizeArticlePrices } from "./prices";
+
+// An item from any source ready to be upserted, keyed by its id within that source
+export type SourceArticle = InsertArticle & { sheetId: string };
+
+// Header names each field is read from, compared after lower-casing and dropping punctuation.
+// Sheets and CSV match these against their header row, JSON feeds against item keys.
+export const DEFAULT_HEADER_ALIASES = {
+  sheetId: ['id', 'article id', 'sheet id'],
+  title: ['title', 'headline'],
+  content: ['content', 'body', 'summary', 'description'],
+  category: ['category', 'section'],
+  stockSymbol: ['stock symbol', 'symbol', 'ticker', 'stock'],
+  stockPrice: ['stock price', 'price', 'cmp', 'ltp'],
+  priceChange: ['price change', 'change', 'change percent', 'change pct'],
+  exchange: ['exchange'],
+  publishedAt: ['published at', 'published', 'publish time', 'time ago', 'time', 'date'],
+  isPremium: ['is premium', 'premium'],
+  source: ['source'],
+  priceTarget: ['price target', 'target', 'price/target'],
+  sentiment: ['sentiment'],
+};
+export type SourceField = keyof typeof DEFAULT_HEADER_ALIASES;
+export type HeaderAliases = Partial<Record<SourceField, string[]>>;
+
+// Without these a row can't be identified, so a tab missing them fails the whole fetch
+export const REQUIRED_FIELDS: SourceField[] = ['sheetId', 'title'];
+
+export interface SourceFetchResult {
+  articles: SourceArticle[];
+  // One entry per non-blank row or feed item, in source order
+  rows: IngestionRowReport[];
+  // Where each field was read from, by tab: a column letter for sheets and CSV, an element or key for feeds
+  columns: Record<string, Partial<Record<SourceField, string>>>;
+}
+
+// Somewhere articles come from. Sources are synced together, so the name doubles as the
+// ingestion run's source and scopes which stored articles a fetch can archive.
+export interface ContentSource {
+  readonly name: string;
+  // Throws when the source can't be read, so the caller never mistakes a failure for an empty source
+  fetchArticles(): Promise<SourceFetchResult>;
+}
+
+export class ContentSourceError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "ContentSourceError";
+  }
+}
+
+// Per-source settings shared by every adapter
+export interface SourceOptions {
+  // Extra raw category -> category entries tried before the built-in map, e.g. {"markets": "nifty"}
+  categoryMap?: Record<string, string>;
+  // Used when an item has no category
+  defaultCategory?: string;
+}
+
+const SOURCE_NAME_PATTERN = /^[a-z0-9_-]{1,40}$/;
+
+export function assertSourceName(name: string) {
+  if (!SOURCE_NAME_PATTERN.test(name)) {
+    throw new ContentSourceError(`Source name "${name}" must be 1-40 lowercase letters, digits, - or _`);
+  }
+}
+
+// Ids from sources other than the sheet, and from its later tabs, are namespaced so they can't collide in articles.sheet_id
+export function sourceItemId(sourceName: string, itemId: string): string {
+  const id = `${sourceName}:${itemId}`;
+  return id.length <= 100 ? id : `${sourceName}:${createHash('sha1').update(itemId).digest('hex')}`;
+}
+
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+export function mapHeaderColumns(header: string[], extraAliases: HeaderAliases = {}): { columns: Partial<Record<SourceField, number>>; missing: SourceField[] } {
+  const normalized = header.map(cell => normalizeHeader(cell || ''));
+  const columns: Partial<Record<SourceField, number>> = {};
+  const taken = new Set<number>();
+
+  (Object.keys(DEFAULT_HEADER_ALIASES) as SourceField[]).forEach(field => {
+    // Configured aliases are tried first so they can claim a column a default would also match
+    const aliases = [...(extraAliases[field] || []), ...DEFAULT_HEADER_ALIASES[field]].map(normalizeHeader);
+    for (const alias of aliases) {
+      const index = normalized.findIndex((cell, i) => cell === alias && !taken.has(i));
+      if (index !== -1) {
+        columns[field] = index;
+        taken.add(index);
+        return;
+      }
+    }
+  });
+
+  return { columns, missing: REQUIRED_FIELDS.filter(field => columns[field] === undefined) };
+}
+
+// Describes missing required headers for an error message
+export function describeMissingHeaders(missing: SourceField[]): string {
+  return missing.map(field => `"${DEFAULT_HEADER_ALIASES[field][0]}"`).join(', ');
+}
+
+const CATEGORY_MAP: Record<string, string> = {
+  // Global categories
+  'global': 'global',
+  'world': 'global',
+  'international': 'global',
+  'us market': 'global',
+  'dow': 'global',
+  'nasdaq': 'global',
+  's&p': 'global',
+  
+  // Nifty categories (exclude MCX)
+  'nifty': 'nifty',
+  'market': 'nifty',
+  'markets': 'nifty',
+  'index': 'nifty',
+  'sensex': 'nifty',
+  'banknifty': 'nifty',
+  'bank nifty': 'nifty',
+  
+  // Warrant categories
+  'warrant': 'warrant',
+  'warrants': 'warrant',
+  'call warrant': 'warrant',
+  'put warrant': 'warrant',
+  
+  // Breakout categories
+  'breakout': 'breakout',
+  'breakouts': 'breakout',
+  'technical': 'breakout',
+  'chart': 'breakout',
+  
+  // Research Report categories
+  'research report': 'research_report',
+  'research_report': 'research_report',
+  'researchreport': 'research_report',
+  'research': 'research_report',
+  'report': 'research_report',
+  'analysis': 'research_report',
+  'analyst': 'research_report',
+  
+  // Movers categories
+  'movers': 'movers',
+  'mover': 'movers',
+  'most active': 'movers',
+  'mostactive': 'movers',
+  'gainers': 'movers',
+  'losers': 'movers',
+  'top gainers': 'movers',
+  'top losers': 'movers',
+  
+  // Order wins categories
+  'orderwins': 'order_wins',
+  'order wins': 'order_wins',
+  'order_wins': 'order_wins',
+  'orderwin': 'order_wins',
+  'order win': 'order_wins',
+  'wins': 'order_wins',
+  'deal': 'order_wins',
+  'contract': 'order_wins',
+  
+  // ATH categories
+  'ath': 'ath',
+  'all time high': 'ath',
+  'all-time high': 'ath',
+  'record high': 'ath',
+  'new high': 'ath',
+  
+  // Results categories
+  'results': 'results',
+  'result': 'results',
+  'earnings': 'results',
+  'quarterly': 'results',
+  'q1': 'results',
+  'q2': 'results',
+  'q3': 'results',
+  'q4': 'results',
+  
+  // IPO categories
+  'ipo': 'ipo',
+  'ipos': 'ipo',
+  'initial public offering': 'ipo',
+  'public offering': 'ipo',
+  'listing': 'ipo',
+  
+  // SME IPO categories
+  'sme ipo': 'sme ipo',
+  'smeipo': 'sme ipo',
+  'sme': 'sme ipo',
+  'small medium enterprises': 'sme ipo',
+  
+  // MCX/Commodities (separate from index)
+  'mcx': 'others',
+  'commodity': 'others',
+  'commodities': 'others',
+  'gold': 'others',
+  'silver': 'others',
+  'crude': 'others',
+  'oil': 'others',
+  
+  // Others/General
+  'others': 'others',
+  'other': 'others',
+  'general': 'others',
+  'news': 'others',
+  'policy': 'others',
+  'rbi': 'others',
+  'government': 'others'
+};
+
+// The categories feeds filter on; every source value ends up as one of these
+export const ARTICLE_CATEGORIES = Array.from(new Set(Object.values(CATEGORY_MAP)));
+
+export function mapToValidCategory(rawCategory: string, overrides: Record<string, string> = {}): { category: string; exact: boolean } {
+  const raw = rawCategory.trim().toLowerCase();
+
+  // A source's own mapping wins, but still has to land on a category the app knows
+  const override = Object.keys(overrides).find(key => key.trim().toLowerCase() === raw);
+  if (override && CATEGORY_MAP[overrides[override].toLowerCase()]) {
+    return { category: CATEGORY_MAP[overrides[override].toLowerCase()], exact: true };
+  }
+
+  // Look for exact match first
+  if (CATEGORY_MAP[raw]) {
+    return { category: CATEGORY_MAP[raw], exact: true };
+  }
+
+  // Check for partial matches; these are reported so editors can fix the source
+  if (raw) {
+    for (const [key, value] of Object.entries(CATEGORY_MAP)) {
+      if (raw.includes(key) || key.includes(raw)) {
+        return { category: value, exact: false };
+      }
+    }
+  }
+
+  // Default to 'others' if no match found
+  return { category: 'others', exact: false };
+}
+
+const optionalCell = z.string().trim().optional().transform(value => value || null);
+
+// Only a missing id or title rejects a row; everything else is corrected and reported
+const sourceRecordSchema = z.object({
+  sheetId: z.string({ required_error: "Missing article id" }).trim().min(1, "Missing article id").max(100, "Article id is longer than 100 characters"),
+  title: z.string({ required_error: "Missing title" }).trim().min(1, "Missing title"),
+  content: z.string().trim().default(""),
+  category: z.string().trim().default(""),
+  stockSymbol: optionalCell,
+  stockPrice: optionalCell,
+  priceChange: optionalCell,
+  exchange: optionalCell,
+  publishedAt: optionalCell,
+  isPremium: optionalCell,
+  source: optionalCell,
+  priceTarget: optionalCell,
+  sentiment: optionalCell,
+});
+
+const PREMIUM_VALUES = new Set(['true', 'false']);
+const SENTIMENT_VALUES = new Set(['bullish', 'bearish', 'neutral', 'positive', 'negative', 'bull', 'bear']);
+
+export type SourceRecord = Partial<Record<SourceField, string>>;
+
+export interface RecordContext {
+  tab: string;
+  rowNumber: number;
+  index: number;
+  syncTime: Date;
+  // How the report refers to a field, e.g. column "C" or element "pubDate"
+  column: (field: SourceField) => string;
+  // Optional fields the source doesn't have at all aren't reported as missing
+  hasField: (field: SourceField) => boolean;
+  categoryMap?: Record<string, string>;
+  defaultCategory?: string | null;
+}
+
+// Validates one row or feed item into an article plus the report of what was corrected
+export function parseSourceRecord(cells: SourceRecord, context: RecordContext): { article?: SourceArticle; report: IngestionRowReport } {
+  const { column, syncTime } = context;
+
+  const result = sourceRecordSchema.safeParse(cells);
+  if (!result.success) {
+    return {
+      report: {
+        tab: context.tab,
+        rowNumber: context.rowNumber,
+        sheetId: cells.sheetId?.trim() || null,
+        title: cells.title?.trim() || null,
+        status: "rejected",
+        issues: result.error.errors.map(issue => ({
+          column: column(issue.path[0] as SourceField),
+          problem: issue.message,
+          action: "Row skipped",
+        })),
+      },
+    };
+  }
+
+  const data = result.data;
+  const issues: IngestionIssue[] = [];
+
+  const { category, exact } = !data.category && context.defaultCategory
+    ? mapToValidCategory(context.defaultCategory)
+    : mapToValidCategory(data.category, context.categoryMap);
+  if (!exact) {
+    issues.push({
+      column: column("category"),
+      problem: data.category ? `Unknown category "${data.category}"` : "Missing category",
+      action: `Filed under "${category}"`,
+    });
+  }
+
+  let exchange = data.exchange?.toUpperCase() ?? null;
+  if (exchange && exchange !== 'NSE' && exchange !== 'BSE') {
+    issues.push({ column: column("exchange"), problem: `Unknown exchange "${data.exchange}"`, action: "Left blank" });
+    exchange = null;
+  }
+
+  // A source without a publish time simply uses the sync time; only bad or empty values are reported
+  let publishedAt = parsePublishedAt(data.publishedAt, syncTime);
+  if (!publishedAt && context.hasField("publishedAt")) {
+    issues.push({
+      column: column("publishedAt"),
+      problem: data.publishedAt ? `Unrecognised publish time "${data.publishedAt}"` : "Missing publish time",
+      action: "Used the sync time",
+    });
+  }
+  publishedAt = publishedAt ?? syncTime;
+
+  const premiumText = (data.isPremium || "").toLowerCase();
+  if (premiumText && !PREMIUM_VALUES.has(premiumText)) {
+    issues.push({ column: column("isPremium"), problem: `Expected TRUE or FALSE, got "${data.isPremium}"`, action: "Treated as not premium" });
+  }
+
+  const prices = normalizeArticlePrices({ stockPrice: data.stockPrice, priceChange: data.priceChange, exchange });
+  if (data.stockPrice && prices.stockPricePaise === null) {
+    issues.push({ column: column("stockPrice"), problem: `Couldn't read a price from "${data.stockPrice}"`, action: "Kept as text only" });
+  }
+  if (data.priceChange && prices.priceChangeBps === null) {
+    issues.push({ column: column("priceChange"), problem: `Couldn't read a change from "${data.priceChange}"`, action: "Kept as text only" });
+  }
+
+  let sentiment = data.sentiment;
+  if (sentiment && !SENTIMENT_VALUES.has(sentiment.toLowerCase())) {
+    issues.push({ column: column("sentiment"), problem: `Unknown sentiment "${sentiment}"`, action: "Ignored" });
+    sentiment = null;
+  }
+
+  const articleData = {
+    sheetId: data.sheetId,
+    title: data.title,
+    content: data.content,
+    category: category,
+    stockSymbol: data.stockSymbol,
+    stockPrice: data.stockPrice,
+    priceChange: data.priceChange,
+    exchange: exchange,
+    timeAgo: data.publishedAt || "Just now",
+    // Relative values ("2 hours ago") are resolved against this sync
+    publishedAt: publishedAt,
+    isPremium: premiumText === 'true',
+    source: data.source,
+    sentiment: sentiment,
+    priceTarget: data.priceTarget,
+    imageUrl: ""
+  };
+
+  // Use intelligent image selection based on article content
+  articleData.imageUrl = getArticleImage({ ...articleData, id: parseInt(articleData.sheetId) || context.index + 1 });
+
+  return {
+    article: articleData,
+    report: {
+      tab: context.tab,
+      rowNumber: context.rowNumber,
+      sheetId: data.sheetId,
+      title: data.title,
+      status: issues.length > 0 ? "corrected" : "accepted",
+      issues,
+    },
+  };
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// The same story from several sources is kept once, from whichever source was registered first
+export function dedupeAcrossSources(fetches: { source: string; result: SourceFetchResult }[]) {
+  const firstSourceByTitle = new Map<string, string>();
+
+  fetches.forEach(({ source, result }) => {
+    const duplicates = new Map<string, string>();
+    result.articles.forEach(article => {
+      const key = normalizeTitle(article.title);
+      const earlier = firstSourceByTitle.get(key);
+      if (earlier) {
+        duplicates.set(article.sheetId, earlier);
+      }
+    });
+    result.articles.forEach(article => {
+      const key = normalizeTitle(article.title);
+      if (!firstSourceByTitle.has(key)) firstSourceByTitle.set(key, source);
+    });
+    if (duplicates.size === 0) return;
+
+    result.articles = result.articles.filter(article => !duplicates.has(article.sheetId));
+    result.rows.forEach(report => {
+      const earlier = report.sheetId && report.status !== 'rejected' ? duplicates.get(report.sheetId) : undefined;
+      if (!earlier) return;
+      report.status = 'rejected';
+      report.issues.push({
+        column: result.columns[report.tab]?.title ?? 'title',
+        problem: `Same story as an item from ${earlier}`,
+        action: 'Skipped',
+      });
+    });
+  });
+}
+
+const sources = new Map<string, ContentSource>();
+
+export function registerContentSource(source: ContentSource) {
+  sources.set(source.name, source);
+}
+
+export function getContentSource(name: string): ContentSource | undefined {
+  return sources.get(name);
+}
+
+export function getContentSources(): ContentSource[] {
+  return Array.from(sources.values());
+}
@@ -5,6 +5,15 @@ import {
   readLater,
   upiPayments,
   articleViews,
+  plans,
+  authCodes,
+  watchlists,
+  alertRules,
+  alerts,
+  ingestionRuns,
+  articleRevisions,
+  translations,
+  articleTranslations,
   type Article,
   type InsertArticle,
   type Bookmark,
@@ -17,140 +26,195 @@ import {
   type InsertUpiPayment,
   type ArticleView,
   type InsertArticleView,
+  type Plan,
+  type InsertPlan,
+  type AuthCode,
+  type InsertAuthCode,
+  type Watchlist,
+  type InsertWatchlist,
+  type StockSymbolSuggestion,
+  type AlertRule,
+  type InsertAlertRule,
+  type Alert,
+  type InsertAlert,
+  type IngestionRun,
+  type InsertIngestionRun,
+  type ArticleRevision,
+  type InsertArticleRevision,
+  type Translation,
+  type InsertTranslation,
+  type ArticleTranslation,
+  type InsertArticleTranslation,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc, gte, sql, avg } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { eq, and, or, asc, desc, gte, lt, lte, like, sql, avg, count, inArray, isNull, isNotNull } from "drizzle-orm";
+import type { IStorage, SourceSyncResult, SourceArticleState, SubscriptionUpdate, AlertRuleUpdate } from "./storage";
+import { getSubscriptionState, hasPremiumAccess } from "./subscription-state";
+import type { SourceArticle } from "./content-source";
+import { pickDemoArticle } from "./demo-articles";
+import { normalizeArticlePrices } from "./prices";
+import { classifyArticleSentiment } from "./sentiment";
 
-export interface IAuthStorage {
-  // User management
-  createUser(user: InsertUser): Promise<User>;
-  getUserById(id: number): Promise<User | undefined>;
-  getUserByEmail(email: string): Promise<User | undefined>;
-  getUserByPhone(phoneNumber: string): Promise<User | undefined>;
-  getUserByGoogleId(googleId: string): Promise<User | undefined>;
-  updateUser(id: number, updates: Partial<InsertUser>): Promise<User>;
-  
-  // Subscription management
-  updateSubscription(userId: number, isSubscribed: boolean, expiryDate?: Date): Promise<User>;
-  isUserSubscribed(userId: number): Promise<boolean>;
-  
-  // Article management
-  getArticles(category?: string, userId?: number): Promise<Article[]>;
-  getArticle(id: number): Promise<Article | undefined>;
-  createArticle(article: InsertArticle): Promise<Article>;
-  
-  // Bookmark management
-  getBookmarks(userId: number): Promise<Bookmark[]>;
-  addBookmark(bookmark: InsertBookmark): Promise<Bookmark>;
-  removeBookmark(userId: number, articleId: number): Promise<void>;
-  isBookmarked(userId: number, articleId: number): Promise<boolean>;
-  
-  // Read Later management
-  getReadLater(userId: number): Promise<ReadLater[]>;
-  addToReadLater(readLater: InsertReadLater): Promise<ReadLater>;
-  removeFromReadLater(userId: number, articleId: number): Promise<void>;
-  isInReadLater(userId: number, articleId: number): Promise<boolean>;
-  
-  // UPI Payment management
-  createUpiPayment(payment: InsertUpiPayment): Promise<UpiPayment>;
-  updatePaymentStatus(id: number, status: string, transactionId?: string): Promise<UpiPayment>;
-  getUserPayments(userId: number): Promise<UpiPayment[]>;
-  
-  // Article Analytics
-  recordArticleView(view: InsertArticleView): Promise<ArticleView>;
-  getTrendingArticles(): Promise<Article[]>;
+// Readers only see articles that are published, not archived and not held for review
+function liveArticle() {
+  return and(isNull(articles.archivedAt), eq(articles.contentStatus, 'complete'), eq(articles.publishStatus, 'published'))!;
 }
 
-export class DatabaseStorage implements IAuthStorage {
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database = createDb()) {}
+
   // User management
   async createUser(userData: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(userData).returning();
+    const [user] = await this.db.insert(users).values(userData).returning();
     return user;
   }
 
   async getUserById(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
     return user;
   }
 
   async getUserByPhone(phoneNumber: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.phoneNumber, phoneNumber));
+    const [user] = await this.db.select().from(users).where(eq(users.phoneNumber, phoneNumber));
     return user;
   }
 
   async getUserByGoogleId(googleId: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.googleId, googleId));
+    const [user] = await this.db.select().from(users).where(eq(users.googleId, googleId));
     return user;
   }
 
+  async getUsersWithContactDetails(): Promise<User[]> {
+    return await this.db.select()
+      .from(users)
+      .where(or(isNotNull(users.phoneNumber), isNotNull(users.email)))
+      .orderBy(asc(users.id));
+  }
+
   async updateUser(id: number, updates: Partial<InsertUser>): Promise<User> {
-    const [user] = await db.update(users)
+    const [user] = await this.db.update(users)
       .set(updates)
       .where(eq(users.id, id))
       .returning();
     return user;
   }
 
-  // Subscription management
-  async updateSubscription(userId: number, isSubscribed: boolean, expiryDate?: Date): Promise<User> {
-    const [user] = await db.update(users)
-      .set({
-        isSubscribed,
-        subscriptionExpiry: expiryDate
-      })
-      .where(eq(users.id, userId))
+  // Auth code management
+  async createAuthCode(codeData: InsertAuthCode): Promise<AuthCode> {
+    const [code] = await this.db.insert(authCodes).values(codeData).returning();
+    return code;
+  }
+
+  async getAuthCodeByHash(codeHash: string): Promise<AuthCode | undefined> {
+    const [code] = await this.db.select().from(authCodes).where(eq(authCodes.codeHash, codeHash));
+    return code;
+  }
+
+  async getLatestAuthCode(channel: string, target: string): Promise<AuthCode | undefined> {
+    const [code] = await this.db.select()
+      .from(authCodes)
+      .where(and(eq(authCodes.channel, channel), eq(authCodes.target, target), isNull(authCodes.consumedAt)))
+      .orderBy(desc(authCodes.id))
+      .limit(1);
+    return code;
+  }
+
+  async countAuthCodesSince(channel: string, target: string, since: Date): Promise<number> {
+    const [result] = await this.db.select({ count: count() })
+      .from(authCodes)
+      .where(and(eq(authCodes.channel, channel), eq(authCodes.target, target), gte(authCodes.createdAt, since)));
+    return result.count;
+  }
+
+  async recordAuthCodeAttempt(id: number, maxAttempts: number): Promise<AuthCode | undefined> {
+    // Checked and counted in one statement, so parallel guesses can't all slip under the limit
+    const [code] = await this.db.update(authCodes)
+      .set({ attempts: sql`${authCodes.attempts} + 1` })
+      .where(and(eq(authCodes.id, id), lt(authCodes.attempts, maxAttempts)))
       .returning();
-    return user;
+    return code;
+  }
+
+  async consumeAuthCode(id: number): Promise<AuthCode | undefined> {
+    // The consumedAt guard makes a code single-use even when two verifications race
+    const [code] = await this.db.update(authCodes)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(authCodes.id, id), isNull(authCodes.consumedAt)))
+      .returning();
+    return code;
+  }
+
+  async deleteExpiredAuthCodes(before: Date): Promise<number> {
+    const deleted = await this.db.delete(authCodes)
+      .where(lt(authCodes.expiresAt, before))
+      .returning({ id: authCodes.id });
+    return deleted.length;
+  }
+
+  // Subscription management
+  async updateSubscription(userId: number, subscription: SubscriptionUpdate): Promise<User> {
+    return await this.updateUser(userId, subscription);
   }
 
   async isUserSubscribed(userId: number): Promise<boolean> {
-    const [user] = await db.select({ 
-      isSubscribed: users.isSubscribed, 
-      subscriptionExpiry: users.subscriptionExpiry 
+    const [user] = await this.db.select({
+      subscriptionStatus: users.subscriptionStatus,
+      subscriptionExpiry: users.subscriptionExpiry
     })
     .from(users)
     .where(eq(users.id, userId));
-    
+
     if (!user) return false;
-    
-    if (!user.isSubscribed) return false;
-    
-    // Check if subscription is still valid
-    if (user.subscriptionExpiry && new Date() > user.subscriptionExpiry) {
-      // Subscription expired, update user
-      await this.updateSubscription(userId, false);
-      return false;
-    }
-    
-    return true;
+
+    return hasPremiumAccess(getSubscriptionState(user));
+  }
+
+  async getUsersBySubscriptionStatus(statuses: string[]): Promise<User[]> {
+    return await this.db.select().from(users).where(inArray(users.subscriptionStatus, statuses));
+  }
+
+  // Plan management
+  async getPlans(): Promise<Plan[]> {
+    return await this.db.select().from(plans).orderBy(plans.sortOrder);
+  }
+
+  async getPlan(id: number): Promise<Plan | undefined> {
+    const [plan] = await this.db.select().from(plans).where(eq(plans.id, id));
+    return plan;
+  }
+
+  async getPlanByCode(code: string): Promise<Plan | undefined> {
+    const [plan] = await this.db.select().from(plans).where(eq(plans.code, code));
+    return plan;
+  }
+
+  async createPlan(planData: InsertPlan): Promise<Plan> {
+    const [plan] = await this.db.insert(plans).values(planData).returning();
+    return plan;
   }
 
   // Article management
-  async getArticles(category?: string, userId?: number): Promise<Article[]> {
+  async getArticles(category?: string): Promise<Article[]> {
     try {
       if (category === 'trending') {
         return await this.getTrendingArticles();
       }
       
-      let query = db.select().from(articles);
-      
+      // Articles removed from the source are kept for history, and incomplete ones wait for review; neither is in the feed
+      const conditions = [liveArticle()];
       if (category && category !== 'all') {
-        query = query.where(eq(articles.category, category));
-      }
-      
-      const allArticles = await query.orderBy(desc(articles.createdAt));
-      
-      // If user is not provided or not subscribed, filter out premium content
-      if (!userId || !(await this.isUserSubscribed(userId))) {
-        return allArticles.filter(article => !article.isPremium);
+        conditions.push(eq(articles.category, category));
       }
       
-      return allArticles;
+      return await this.db.select()
+        .from(articles)
+        .where(and(...conditions))
+        .orderBy(sql`${articles.pinnedAt} desc nulls last`, desc(articles.publishedAt));
     } catch (error) {
       console.error('Error fetching articles:', error);
       return [];
@@ -158,7 +222,7 @@ export class DatabaseStorage implements IAuthStorage {
   }
 
   async getArticle(id: number): Promise<Article | undefined> {
-    const [article] = await db.select().from(articles).where(eq(articles.id, id));
+    const [article] = await this.db.select().from(articles).where(eq(articles.id, id));
     return article;
   }
 
@@ -166,51 +230,479 @@ export class DatabaseStorage implements IAuthStorage {
     // Set isPremium to true for warrant and breakout categories
     const isPremium = articleData.category === 'warrant' || articleData.category === 'breakout';
     
-    const [article] = await db.insert(articles)
-      .values({ ...articleData, isPremium })
+    const [article] = await this.db.insert(articles)
+      .values({ ...articleData, ...normalizeArticlePrices(articleData), ...classifyArticleSentiment(articleData), isPremium })
       .returning();
     return article;
   }
 
+  async addTestArticle(): Promise<Article> {
+    return await this.createArticle(pickDemoArticle());
+  }
+
+  async getSourceArticleStates(contentSource: string): Promise<SourceArticleState[]> {
+    const rows = await this.db.select({
+      sheetId: articles.sheetId,
+      sourceHash: articles.sourceHash,
+      archivedAt: articles.archivedAt,
+    })
+      .from(articles)
+      .where(and(eq(articles.contentSource, contentSource), isNotNull(articles.sheetId)));
+    return rows.map(row => ({ ...row, sheetId: row.sheetId! }));
+  }
+
+  async applySourceChanges(contentSource: string, upserts: SourceArticle[], archiveSheetIds: string[]): Promise<SourceSyncResult> {
+    // The same id may appear twice in a source; the last row wins
+    const rowsBySheetId = new Map<string, SourceArticle>();
+    upserts.forEach(row => rowsBySheetId.set(row.sheetId, row));
+    const rows = Array.from(rowsBySheetId.values());
+    const sheetIds = Array.from(rowsBySheetId.keys());
+
+    if (rows.length === 0 && archiveSheetIds.length === 0) {
+      return { inserted: 0, updated: 0, archived: 0, insertedArticles: [], updatedArticles: [], previousArticles: [] };
+    }
+
+    return await this.db.transaction(async (tx) => {
+      const now = new Date();
+      const existing = sheetIds.length === 0 ? [] : await tx.select()
+        .from(articles)
+        .where(inArray(articles.sheetId, sheetIds));
+
+      // Keep id, createdAt and viewCount so bookmarks and views survive syncs
+      const stored = rows.length === 0 ? [] : await tx.insert(articles)
+        .values(rows.map(row => ({ ...row, ...normalizeArticlePrices(row), ...classifyArticleSentiment(row), contentSource, updatedAt: now })))
+        .onConflictDoUpdate({
+          target: articles.sheetId,
+          set: {
+            title: sql`excluded.title`,
+            content: sql`excluded.content`,
+            category: sql`excluded.category`,
+            stockSymbol: sql`excluded.stock_symbol`,
+            stockPrice: sql`excluded.stock_price`,
+            priceChange: sql`excluded.price_change`,
+            stockPricePaise: sql`excluded.stock_price_paise`,
+            priceChangeBps: sql`excluded.price_change_bps`,
+            priceCurrency: sql`excluded.price_currency`,
+            exchange: sql`excluded.exchange`,
+            imageUrl: sql`excluded.image_url`,
+            timeAgo: sql`excluded.time_ago`,
+            // Mirrors resolvePublishedAt: unchanged text never moves the timestamp later
+            publishedAt: sql`case when ${articles.timeAgo} = excluded.time_ago then least(${articles.publishedAt}, excluded.published_at) else excluded.published_at end`,
+            isPremium: sql`excluded.is_premium`,
+            source: sql`excluded.source`,
+            sentiment: sql`excluded.sentiment`,
+            sentimentLabel: sql`excluded.sentiment_label`,
+            sentimentConfidence: sql`excluded.sentiment_confidence`,
+            sentimentSource: sql`excluded.sentiment_source`,
+            sentimentReason: sql`excluded.sentiment_reason`,
+            // Mirrors keepsApproval: an approval stands while the title and body are unchanged
+            contentStatus: sql`case when ${articles.contentStatus} = 'complete' and cardinality(${articles.contentFlags}) > 0 and ${articles.title} = excluded.title and ${articles.content} = excluded.content then 'complete' else excluded.content_status end`,
+            contentFlags: sql`excluded.content_flags`,
+            contentSource: sql`excluded.content_source`,
+            sourceHash: sql`excluded.source_hash`,
+            updatedAt: now,
+            archivedAt: null,
+          },
+        })
+        .returning();
+
+      const archived = archiveSheetIds.length === 0 ? [] : await tx.update(articles)
+        .set({ archivedAt: now })
+        .where(and(
+          eq(articles.contentSource, contentSource),
+          isNull(articles.archivedAt),
+          inArray(articles.sheetId, archiveSheetIds),
+        ))
+        .returning({ id: articles.id });
+
+      const existingIds = new Set(existing.map(row => row.sheetId));
+      const insertedArticles = stored.filter(article => !existingIds.has(article.sheetId));
+      const updatedArticles = stored.filter(article => existingIds.has(article.sheetId));
+
+      return {
+        inserted: insertedArticles.length,
+        updated: updatedArticles.length,
+        archived: archived.length,
+        insertedArticles,
+        updatedArticles,
+        previousArticles: existing,
+      };
+    });
+  }
+
+  async getIncompleteArticles(): Promise<Article[]> {
+    return await this.db.select()
+      .from(articles)
+      .where(and(isNull(articles.archivedAt), eq(articles.contentStatus, 'incomplete')))
+      .orderBy(desc(articles.publishedAt));
+  }
+
+  // Stays approved until the source row's title or body changes, when the body is assessed again
+  async approveArticleContent(articleId: number): Promise<Article | undefined> {
+    const [article] = await this.db.update(articles)
+      .set({ contentStatus: 'complete', updatedAt: new Date() })
+      .where(eq(articles.id, articleId))
+      .returning();
+    return article;
+  }
+
+  // Every article an editor can still work on, drafts and scheduled ones included
+  async getEditorArticles(publishStatus?: string): Promise<Article[]> {
+    const conditions = [isNull(articles.archivedAt)];
+    if (publishStatus) {
+      conditions.push(eq(articles.publishStatus, publishStatus));
+    }
+    return await this.db.select()
+      .from(articles)
+      .where(and(...conditions))
+      .orderBy(desc(articles.publishedAt));
+  }
+
+  async updateArticle(articleId: number, changes: Partial<InsertArticle>): Promise<Article | undefined> {
+    const existing = await this.getArticle(articleId);
+    if (!existing) return undefined;
+
+    const [article] = await this.db.update(articles)
+      .set({
+        ...changes,
+        ...normalizeArticlePrices({ ...existing, ...changes }),
+        ...classifyArticleSentiment({ ...existing, ...changes }),
+        updatedAt: new Date(),
+      })
+      .where(eq(articles.id, articleId))
+      .returning();
+    return article;
+  }
+
+  async archiveArticle(articleId: number): Promise<Article | undefined> {
+    const [article] = await this.db.update(articles)
+      .set({ archivedAt: new Date() })
+      .where(eq(articles.id, articleId))
+      .returning();
+    return article;
+  }
+
+  async publishDueArticles(now: Date): Promise<Article[]> {
+    return await this.db.update(articles)
+      .set({ publishStatus: 'published', updatedAt: now })
+      .where(and(eq(articles.publishStatus, 'scheduled'), isNull(articles.archivedAt), lte(articles.publishedAt, now)))
+      .returning();
+  }
+
+  async getClusterCandidates(since: Date): Promise<Article[]> {
+    return await this.db.select()
+      .from(articles)
+      .where(and(liveArticle(), gte(articles.publishedAt, since)));
+  }
+
+  async setStoryClusters(assignments: { articleId: number; storyClusterId: number | null }[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      for (const { articleId, storyClusterId } of assignments) {
+        await tx.update(articles)
+          .set({ storyClusterId })
+          .where(eq(articles.id, articleId));
+      }
+    });
+  }
+
+  async getStoryClusterArticles(storyClusterId: number): Promise<Article[]> {
+    return await this.db.select()
+      .from(articles)
+      .where(and(eq(articles.storyClusterId, storyClusterId), liveArticle()))
+      .orderBy(asc(articles.publishedAt));
+  }
+
+  async incrementViewCount(articleId: number): Promise<void> {
+    await this.db.update(articles)
+      .set({ viewCount: sql`${articles.viewCount} + 1` })
+      .where(eq(articles.id, articleId));
+  }
+
   // Bookmark management
   async getBookmarks(userId: number): Promise<Bookmark[]> {
-    return await db.select().from(bookmarks).where(eq(bookmarks.userId, userId));
+    return await this.db.select().from(bookmarks).where(eq(bookmarks.userId, userId));
   }
 
   async addBookmark(bookmarkData: InsertBookmark): Promise<Bookmark> {
-    const [bookmark] = await db.insert(bookmarks).values(bookmarkData).returning();
+    const [bookmark] = await this.db.insert(bookmarks).values(bookmarkData).returning();
     return bookmark;
   }
 
   async removeBookmark(userId: number, articleId: number): Promise<void> {
-    await db.delete(bookmarks)
+    await this.db.delete(bookmarks)
       .where(and(eq(bookmarks.userId, userId), eq(bookmarks.articleId, articleId)));
   }
 
   async isBookmarked(userId: number, articleId: number): Promise<boolean> {
-    const [bookmark] = await db.select()
+    const [bookmark] = await this.db.select()
       .from(bookmarks)
       .where(and(eq(bookmarks.userId, userId), eq(bookmarks.articleId, articleId)));
     return !!bookmark;
   }
 
+  // Watchlist management
+  async getWatchlist(userId: number): Promise<Watchlist[]> {
+    return await this.db.select()
+      .from(watchlists)
+      .where(eq(watchlists.userId, userId))
+      .orderBy(asc(watchlists.stockSymbol));
+  }
+
+  async addToWatchlist(entryData: InsertWatchlist): Promise<Watchlist> {
+    const [inserted] = await this.db.insert(watchlists)
+      .values(entryData)
+      .onConflictDoNothing({ target: [watchlists.userId, watchlists.stockSymbol] })
+      .returning();
+    if (inserted) return inserted;
+
+    const [existing] = await this.db.select()
+      .from(watchlists)
+      .where(and(eq(watchlists.userId, entryData.userId), eq(watchlists.stockSymbol, entryData.stockSymbol)));
+    return existing;
+  }
+
+  async removeFromWatchlist(userId: number, stockSymbol: string): Promise<void> {
+    await this.db.delete(watchlists)
+      .where(and(eq(watchlists.userId, userId), eq(watchlists.stockSymbol, stockSymbol)));
+  }
+
+  async getArticlesBySymbols(stockSymbols: string[]): Promise<Article[]> {
+    if (stockSymbols.length === 0) return [];
+
+    // Sheet rows aren't consistently cased, so match on the normalized symbol
+    return await this.db.select()
+      .from(articles)
+      .where(and(
+        liveArticle(),
+        inArray(sql`upper(trim(${articles.stockSymbol}))`, stockSymbols)
+      ))
+      .orderBy(desc(articles.publishedAt));
+  }
+
+  async searchArticleSymbols(prefix: string, limit: number): Promise<StockSymbolSuggestion[]> {
+    const symbol = sql<string>`upper(trim(${articles.stockSymbol}))`;
+    const articleCount = count();
+
+    return await this.db.select({
+      stockSymbol: symbol,
+      exchange: sql<string | null>`max(${articles.exchange})`,
+      articleCount,
+    })
+      .from(articles)
+      .where(and(
+        isNull(articles.archivedAt),
+        isNotNull(articles.stockSymbol),
+        like(symbol, `${prefix}%`)
+      ))
+      .groupBy(symbol)
+      .orderBy(desc(articleCount), asc(symbol))
+      .limit(limit);
+  }
+
+  // Alert management
+  async getAlertRules(userId: number): Promise<AlertRule[]> {
+    return await this.db.select().from(alertRules).where(eq(alertRules.userId, userId)).orderBy(asc(alertRules.id));
+  }
+
+  async getActiveAlertRules(): Promise<AlertRule[]> {
+    return await this.db.select().from(alertRules).where(eq(alertRules.isActive, true));
+  }
+
+  async createAlertRule(ruleData: InsertAlertRule): Promise<AlertRule> {
+    const [rule] = await this.db.insert(alertRules).values(ruleData).returning();
+    return rule;
+  }
+
+  async updateAlertRule(userId: number, id: number, updates: AlertRuleUpdate): Promise<AlertRule | undefined> {
+    const [rule] = await this.db.update(alertRules)
+      .set(updates)
+      .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)))
+      .returning();
+    return rule;
+  }
+
+  async deleteAlertRule(userId: number, id: number): Promise<boolean> {
+    const deleted = await this.db.delete(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)))
+      .returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  async createAlert(alertData: InsertAlert): Promise<Alert | undefined> {
+    const [alert] = await this.db.insert(alerts)
+      .values(alertData)
+      .onConflictDoNothing({ target: [alerts.ruleId, alerts.articleId] })
+      .returning();
+    return alert;
+  }
+
+  async getAlerts(userId: number, options: { unreadOnly?: boolean; limit: number }): Promise<Alert[]> {
+    const conditions = [eq(alerts.userId, userId)];
+    if (options.unreadOnly) {
+      conditions.push(isNull(alerts.readAt));
+    }
+    return await this.db.select()
+      .from(alerts)
+      .where(and(...conditions))
+      .orderBy(desc(alerts.id))
+      .limit(options.limit);
+  }
+
+  async countUnreadAlerts(userId: number): Promise<number> {
+    const [result] = await this.db.select({ count: count() })
+      .from(alerts)
+      .where(and(eq(alerts.userId, userId), isNull(alerts.readAt)));
+    return result.count;
+  }
+
+  async markAlertsRead(userId: number, ids?: number[]): Promise<number> {
+    const conditions = [eq(alerts.userId, userId), isNull(alerts.readAt)];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(alerts.id, ids));
+    }
+    const marked = await this.db.update(alerts)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: alerts.id });
+    return marked.length;
+  }
+
+  // Article revisions
+  async createArticleRevisions(revisionData: InsertArticleRevision[]): Promise<ArticleRevision[]> {
+    if (revisionData.length === 0) return [];
+    return await this.db.insert(articleRevisions).values(revisionData).returning();
+  }
+
+  async getArticleRevisions(articleId: number): Promise<ArticleRevision[]> {
+    return await this.db.select()
+      .from(articleRevisions)
+      .where(eq(articleRevisions.articleId, articleId))
+      .orderBy(desc(articleRevisions.createdAt), desc(articleRevisions.id));
+  }
+
+  async getArticleRevision(id: number): Promise<ArticleRevision | undefined> {
+    const [revision] = await this.db.select().from(articleRevisions).where(eq(articleRevisions.id, id));
+    return revision;
+  }
+
+  async markArticlesRevised(articleIds: number[], revisedAt: Date): Promise<void> {
+    if (articleIds.length === 0) return;
+    await this.db.update(articles)
+      .set({ revisedAt })
+      .where(inArray(articles.id, articleIds));
+  }
+
+  // Translations
+  async getTranslation(language: string, sourceHash: string): Promise<Translation | undefined> {
+    const [translation] = await this.db.select()
+      .from(translations)
+      .where(and(eq(translations.language, language), eq(translations.sourceHash, sourceHash)));
+    return translation;
+  }
+
+  async saveTranslation(translationData: InsertTranslation): Promise<void> {
+    await this.db.insert(translations).values(translationData).onConflictDoNothing();
+  }
+
+  async getArticlesNeedingTranslation(language: string, limit: number, offset = 0): Promise<Article[]> {
+    // Same hash as articleTextHash in storage.ts
+    const rows = await this.db.select()
+      .from(articles)
+      .leftJoin(articleTranslations, and(
+        eq(articleTranslations.articleId, articles.id),
+        eq(articleTranslations.language, language),
+      ))
+      .where(and(
+        isNull(articles.archivedAt),
+        eq(articles.contentStatus, 'complete'),
+        sql`${articleTranslations.sourceHash} is distinct from md5(${articles.title} || E'\n' || ${articles.content})`,
+      ))
+      .orderBy(desc(articles.publishedAt), desc(articles.id))
+      .limit(limit)
+      .offset(offset);
+    return rows.map(row => row.articles);
+  }
+
+  async saveArticleTranslation(translationData: InsertArticleTranslation): Promise<ArticleTranslation> {
+    const { title, content, sourceHash } = translationData;
+    const [translation] = await this.db.insert(articleTranslations)
+      .values(translationData)
+      .onConflictDoUpdate({
+        target: [articleTranslations.articleId, articleTranslations.language],
+        set: { title, content, sourceHash, updatedAt: new Date() },
+      })
+      .returning();
+    return translation;
+  }
+
+  async getArticleTranslations(articleIds: number[], language: string): Promise<ArticleTranslation[]> {
+    if (articleIds.length === 0) return [];
+    return await this.db.select()
+      .from(articleTranslations)
+      .where(and(inArray(articleTranslations.articleId, articleIds), eq(articleTranslations.language, language)));
+  }
+
+  async classifyUnlabelledArticles(): Promise<number> {
+    const unlabelled = await this.db.select().from(articles).where(isNull(articles.sentimentLabel));
+    if (unlabelled.length === 0) return 0;
+
+    await this.db.transaction(async (tx) => {
+      for (const article of unlabelled) {
+        await tx.update(articles)
+          .set(classifyArticleSentiment(article))
+          .where(eq(articles.id, article.id));
+      }
+    });
+    return unlabelled.length;
+  }
+
+  // Ingestion reports
+  async createIngestionRun(runData: InsertIngestionRun): Promise<IngestionRun> {
+    const [run] = await this.db.insert(ingestionRuns).values(runData).returning();
+    return run;
+  }
+
+  async getLatestIngestionRun(source: string): Promise<IngestionRun | undefined> {
+    const [run] = await this.db.select()
+      .from(ingestionRuns)
+      .where(eq(ingestionRuns.source, source))
+      .orderBy(desc(ingestionRuns.startedAt), desc(ingestionRuns.id))
+      .limit(1);
+    return run;
+  }
+
+  async pruneIngestionRuns(source: string, keep: number): Promise<number> {
+    const stale = await this.db.select({ id: ingestionRuns.id })
+      .from(ingestionRuns)
+      .where(eq(ingestionRuns.source, source))
+      .orderBy(desc(ingestionRuns.startedAt), desc(ingestionRuns.id))
+      .offset(keep);
+    if (stale.length === 0) return 0;
+
+    const deleted = await this.db.delete(ingestionRuns)
+      .where(inArray(ingestionRuns.id, stale.map(run => run.id)))
+      .returning({ id: ingestionRuns.id });
+    return deleted.length;
+  }
+
   // Read Later management
   async getReadLater(userId: number): Promise<ReadLater[]> {
-    return await db.select().from(readLater).where(eq(readLater.userId, userId));
+    return await this.db.select().from(readLater).where(eq(readLater.userId, userId));
   }
 
   async addToReadLater(readLaterData: InsertReadLater): Promise<ReadLater> {
-    const [item] = await db.insert(readLater).values(readLaterData).returning();
+    const [item] = await this.db.insert(readLater).values(readLaterData).returning();
     return item;
   }
 
   async removeFromReadLater(userId: number, articleId: number): Promise<void> {
-    await db.delete(readLater)
+    await this.db.delete(readLater)
       .where(and(eq(readLater.userId, userId), eq(readLater.articleId, articleId)));
   }
 
   async isInReadLater(userId: number, articleId: number): Promise<boolean> {
-    const [item] = await db.select()
+    const [item] = await this.db.select()
       .from(readLater)
       .where(and(eq(readLater.userId, userId), eq(readLater.articleId, articleId)));
     return !!item;
@@ -218,7 +710,7 @@ export class DatabaseStorage implements IAuthStorage {
 
   // UPI Payment management
   async createUpiPayment(paymentData: InsertUpiPayment): Promise<UpiPayment> {
-    const [payment] = await db.insert(upiPayments).values(paymentData).returning();
+    const [payment] = await this.db.insert(upiPayments).values(paymentData).returning();
     return payment;
   }
 
@@ -228,7 +720,7 @@ export class DatabaseStorage implements IAuthStorage {
       updateData.upiTransactionId = transactionId;
     }
     
-    const [payment] = await db.update(upiPayments)
+    const [payment] = await this.db.update(upiPayments)
       .set(updateData)
       .where(eq(upiPayments.id, id))
       .returning();
@@ -236,15 +728,38 @@ export class DatabaseStorage implements IAuthStorage {
   }
 
   async getUserPayments(userId: number): Promise<UpiPayment[]> {
-    return await db.select()
+    return await this.db.select()
       .from(upiPayments)
       .where(eq(upiPayments.userId, userId))
       .orderBy(desc(upiPayments.createdAt));
   }
 
+  async getPaymentByProviderOrderId(provider: string, orderId: string): Promise<UpiPayment | undefined> {
+    const [payment] = await this.db.select()
+      .from(upiPayments)
+      .where(and(eq(upiPayments.provider, provider), eq(upiPayments.providerOrderId, orderId)));
+    return payment;
+  }
+
+  async getPaymentByReceipt(provider: string, receipt: string): Promise<UpiPayment | undefined> {
+    const [payment] = await this.db.select()
+      .from(upiPayments)
+      .where(and(eq(upiPayments.provider, provider), eq(upiPayments.upiTransactionId, receipt)));
+    return payment;
+  }
+
+  async settlePayment(id: number, status: string, providerPaymentId?: string): Promise<UpiPayment | undefined> {
+    // The status guard makes repeated callbacks a no-op, even when they race
+    const [payment] = await this.db.update(upiPayments)
+      .set({ status, providerPaymentId, settledAt: new Date() })
+      .where(and(eq(upiPayments.id, id), eq(upiPayments.status, 'pending')))
+      .returning();
+    return payment;
+  }
+
   async recordArticleView(viewData: InsertArticleView): Promise<ArticleView> {
     try {
-      const [view] = await db
+      const [view] = await this.db
         .insert(articleViews)
         .values(viewData)
         .returning();
@@ -258,22 +773,21 @@ export class DatabaseStorage implements IAuthStorage {
 
   async getTrendingArticles(): Promise<Article[]> {
     try {
-      // For now, return recent articles since analytics table is empty
-      return await db
+      // Most viewed first, then most recent
+      return await this.db
         .select()
         .from(articles)
-        .orderBy(desc(articles.createdAt))
+        .where(liveArticle())
+        .orderBy(desc(articles.viewCount), desc(articles.publishedAt))
         .limit(20);
     } catch (error) {
       console.error('Error fetching trending articles:', error);
       // Fallback to recent articles if trending fails
-      return await db
+      return await this.db
         .select()
         .from(articles)
-        .orderBy(desc(articles.createdAt))
+        .orderBy(desc(articles.publishedAt))
         .limit(20);
     }
   }
 }
-
-export const authStorage = new DatabaseStorage();
\ No newline at end of file
@@ -2,13 +2,15 @@ import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
 import * as schema from "@shared/schema";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+export function createDb() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
 
-const connectionString = process.env.DATABASE_URL;
-const client = postgres(connectionString);
+  const client = postgres(process.env.DATABASE_URL);
+  return drizzle(client, { schema });
+}
 
-export const db = drizzle(client, { schema });
\ No newline at end of file
+export type Database = ReturnType<typeof createDb>;
@@ -0,0 +1,31 @@
+import type { InsertArticle } from "@shared/schema";
+
+// Articles used by /api/articles/test for demonstrating new article notifications
+export const demoArticles: InsertArticle[] = [
+  {
+    title: "Breaking: Sensex Crosses 80,000 Mark in Historic Rally",
+    content: `Indian stock markets witnessed historic milestone as BSE Sensex crossed 80,000 points for first time ever. The benchmark index surged 2.1% driven by strong buying in banking, IT and pharma sectors. Market experts attribute the rally to positive Q4 earnings, FII inflows and optimistic economic outlook. Banking giants HDFC Bank, ICICI Bank and SBI contributed significantly to the gains. IT majors TCS, Infosys showed strong momentum on cloud computing demand. Pharma sector led by Sun Pharma, Dr Reddy's gained on export opportunities. Market breadth remained positive with advancing stocks outnumbering decliners 3:1. Trading volumes increased substantially indicating broad-based participation.`,
+    category: "nifty",
+    stockSymbol: "SENSEX",
+    stockPrice: "₹80,125",
+    priceChange: "+2.1%",
+    exchange: "BSE",
+    imageUrl: "https://images.unsplash.com/photo-1611974789855-9c2a0a7236a3?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=600",
+    timeAgo: "Just now"
+  },
+  {
+    title: "Reliance Industries Announces Major Green Energy Investment",
+    content: `Reliance Industries announced ₹75,000 crore investment in renewable energy over next 3 years. The conglomerate plans to establish solar manufacturing, battery storage and green hydrogen facilities. RIL shares jumped 4.2% on the announcement with market cap crossing ₹18 lakh crore. Chairman Mukesh Ambani outlined ambitious targets for carbon neutrality by 2035. The investment includes partnerships with global technology leaders for advanced manufacturing capabilities. Analysts upgraded target price citing strong fundamentals and growth prospects. The move positions RIL as major player in India's energy transition story.`,
+    category: "breakout",
+    stockSymbol: "RELIANCE",
+    stockPrice: "₹2,845",
+    priceChange: "+4.2%",
+    exchange: "NSE",
+    imageUrl: "https://images.unsplash.com/photo-1466611653911-95081537e5b7?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=600",
+    timeAgo: "2 minutes ago"
+  }
+];
+
+export function pickDemoArticle(): InsertArticle {
+  return demoArticles[Math.floor(Math.random() * demoArticles.length)];
+}
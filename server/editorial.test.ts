@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SourceArticle } from "./content-source";
+import { createArticle, deleteArticle, listArticles, publishDueArticles, updateArticle } from "./editorial";
+import { isLive, storage } from "./storage";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let nextSheetId = 1;
+
+function sourceRow(overrides: Partial<SourceArticle> = {}): SourceArticle {
+  return {
+    sheetId: `editorial-test-${nextSheetId++}`,
+    title: "Infosys wins deal",
+    content: "Infosys wins deal",
+    category: "breakout",
+    imageUrl: "",
+    timeAgo: "1 hour ago",
+    stockPrice: "₹1,500",
+    contentStatus: "incomplete",
+    contentFlags: ["empty"],
+    ...overrides,
+  };
+}
+
+async function syncRow(row: SourceArticle) {
+  await storage.applySourceChanges("test_source", [row], []);
+  return (await storage.getEditorArticles()).find(article => article.sheetId === row.sheetId)!;
+}
+
+function draftInput(fields: Record<string, unknown> = {}) {
+  return { title: "Bajaj Finance results", content: "Profit rose 20% on loan growth.", category: "breakout", ...fields };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("editor-owned fields on source articles", () => {
+  it("refuses to change the premium flag of a source article", async () => {
+    const article = await syncRow(sourceRow({ contentStatus: "complete", contentFlags: [] }));
+
+    await expect(updateArticle(article.id, { isPremium: !article.isPremium })).rejects.toMatchObject({ status: 409 });
+    // The editor form always sends the flag; sending it unchanged is fine
+    await expect(updateArticle(article.id, { isPremium: article.isPremium, title: "Infosys bags a deal" }))
+      .resolves.toMatchObject({ title: "Infosys bags a deal" });
+  });
+
+  it("keeps an approval when the row changes elsewhere", async () => {
+    const row = sourceRow();
+    const held = await syncRow(row);
+    await storage.approveArticleContent(held.id);
+
+    const synced = await syncRow({ ...row, stockPrice: "₹1,520" });
+    expect(synced).toMatchObject({ id: held.id, contentStatus: "complete", stockPrice: "₹1,520" });
+  });
+
+  it("holds the article again when its body changes after approval", async () => {
+    const row = sourceRow();
+    const held = await syncRow(row);
+    await storage.approveArticleContent(held.id);
+
+    const synced = await syncRow({ ...row, content: "TBD" });
+    expect(synced.contentStatus).toBe("incomplete");
+  });
+});
+
+describe("publishing", () => {
+  it("creates drafts by default, which stay out of the feed", async () => {
+    const article = await createArticle(draftInput());
+    expect(article.publishStatus).toBe("draft");
+    expect(isLive(article)).toBe(false);
+    expect((await listArticles("draft")).map(draft => draft.id)).toContain(article.id);
+  });
+
+  it("publishes straight away when asked", async () => {
+    const before = Date.now();
+    const article = await createArticle(draftInput({ publishStatus: "published" }));
+    expect(isLive(article)).toBe(true);
+    expect(article.publishedAt.getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it("needs a future time to schedule", async () => {
+    await expect(createArticle(draftInput({ publishStatus: "scheduled" }))).rejects.toMatchObject({ status: 400 });
+    await expect(createArticle(draftInput({ publishStatus: "scheduled", publishedAt: new Date(Date.now() - HOUR_MS) })))
+      .rejects.toMatchObject({ status: 400 });
+  });
+
+  it("publishes a scheduled article once its time comes", async () => {
+    const publishAt = new Date(Date.now() + HOUR_MS);
+    const article = await createArticle(draftInput({ publishStatus: "scheduled", publishedAt: publishAt }));
+    expect(isLive(article)).toBe(false);
+
+    await publishDueArticles(new Date(publishAt.getTime() - 1000));
+    expect((await storage.getArticle(article.id))?.publishStatus).toBe("scheduled");
+
+    await publishDueArticles(publishAt);
+    const published = (await storage.getArticle(article.id))!;
+    expect(published.publishStatus).toBe("published");
+    expect(published.publishedAt).toEqual(publishAt);
+  });
+
+  it("refuses to move a scheduled time into the past", async () => {
+    const article = await createArticle(draftInput({ publishStatus: "scheduled", publishedAt: new Date(Date.now() + HOUR_MS) }));
+    await expect(updateArticle(article.id, { publishedAt: new Date(Date.now() - HOUR_MS) })).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("dates a published draft now unless the editor backdates it", async () => {
+    const draft = await createArticle(draftInput({ publishedAt: new Date(Date.now() - 24 * HOUR_MS) }));
+    const before = Date.now();
+    const published = await updateArticle(draft.id, { publishStatus: "published" });
+    expect(published.publishedAt.getTime()).toBeGreaterThanOrEqual(before);
+
+    const backdatedDraft = await createArticle(draftInput());
+    const backdate = new Date(Date.now() - 2 * HOUR_MS);
+    const backdated = await updateArticle(backdatedDraft.id, { publishStatus: "published", publishedAt: backdate });
+    expect(backdated.publishedAt).toEqual(backdate);
+  });
+
+  it("takes an article out of the feed when moved back to draft", async () => {
+    const article = await createArticle(draftInput({ publishStatus: "published" }));
+    expect(isLive(await updateArticle(article.id, { publishStatus: "draft" }))).toBe(false);
+  });
+
+  it("archives editor articles but not source ones", async () => {
+    const article = await createArticle(draftInput({ publishStatus: "published" }));
+    await deleteArticle(article.id);
+    expect((await storage.getArticle(article.id))?.archivedAt).toBeInstanceOf(Date);
+    await expect(updateArticle(article.id, { title: "Too late" })).rejects.toMatchObject({ status: 404 });
+
+    const sourced = await syncRow(sourceRow({ contentStatus: "complete", contentFlags: [] }));
+    await expect(deleteArticle(sourced.id)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("rejects unknown categories and publish states", async () => {
+    await expect(createArticle(draftInput({ category: "gossip" }))).rejects.toMatchObject({ status: 400 });
+    await expect(createArticle(draftInput({ publishStatus: "live" }))).rejects.toMatchObject({ status: 400 });
+    await expect(listArticles("live")).rejects.toMatchObject({ status: 400 });
+  });
+});
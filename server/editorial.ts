@@ -0,0 +1,169 @@
+import { z } from "zod";
+import { editorArticleSchema, PUBLISH_STATUSES, type Article, type EditorArticle, type InsertArticle } from "@shared/schema";
+import { storage } from "./storage";
+import { evaluateAlerts } from "./alerts";
+import { ARTICLE_CATEGORIES } from "./content-source";
+import { recordRevisions } from "./revisions";
+import { requestTranslation } from "./translation";
+
+// Articles written or corrected by editors in the admin console. Source-owned articles can be
+// edited too; the edit stands until the source row itself changes. Their premium flag is the
+// source's to set, since every sync of the row would put it back.
+
+const PUBLISH_INTERVAL_MS = 60 * 1000;
+
+export class EditorialError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "EditorialError";
+  }
+}
+
+function parseInput<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, input: unknown): T {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    throw new EditorialError(parsed.error.errors[0]?.message || "Invalid article");
+  }
+  return parsed.data;
+}
+
+function checkCategory(category: string | undefined) {
+  if (category !== undefined && !ARTICLE_CATEGORIES.includes(category)) {
+    throw new EditorialError(`Unknown category "${category}"`);
+  }
+}
+
+// Works out publishStatus and publishedAt from what the editor asked for
+function resolvePublishing(publishStatus: EditorArticle["publishStatus"], publishedAt: Date | undefined, now: Date) {
+  if (publishStatus === 'scheduled') {
+    if (!publishedAt || publishedAt <= now) {
+      throw new EditorialError("Pick a publish time in the future");
+    }
+    return { publishStatus, publishedAt };
+  }
+  return { publishStatus, publishedAt: publishedAt ?? now };
+}
+
+// Newly published articles alert watchers the same way ingested ones do
+async function announce(article: Article) {
+  try {
+    await evaluateAlerts({ insertedArticles: [article], updatedArticles: [] });
+  } catch (error) {
+    console.error("Failed to evaluate alerts:", error);
+  }
+}
+
+export function getCategories(): string[] {
+  return ARTICLE_CATEGORIES;
+}
+
+export async function listArticles(publishStatus?: unknown): Promise<Article[]> {
+  if (publishStatus === undefined || publishStatus === "") {
+    return await storage.getEditorArticles();
+  }
+  if (!PUBLISH_STATUSES.includes(publishStatus as EditorArticle["publishStatus"])) {
+    throw new EditorialError("Unknown publish status");
+  }
+  return await storage.getEditorArticles(publishStatus as string);
+}
+
+export async function createArticle(input: unknown, userId?: number): Promise<Article> {
+  const { pinned, publishStatus, publishedAt, isPremium, ...fields } = parseInput(editorArticleSchema, input);
+  checkCategory(fields.category);
+  const now = new Date();
+  const publishing = resolvePublishing(publishStatus, publishedAt, now);
+
+  let article = await storage.createArticle({
+    ...fields,
+    ...publishing,
+    timeAgo: publishing.publishedAt.toISOString(),
+    pinnedAt: pinned ? now : null,
+  });
+  // createArticle defaults premium by category; an explicit choice from the editor wins
+  if (isPremium !== undefined && isPremium !== article.isPremium) {
+    article = (await storage.updateArticle(article.id, { isPremium }))!;
+  }
+  await recordRevisions([{ before: null, after: article }], 'editor', { userId });
+  requestTranslation();
+
+  if (article.publishStatus === 'published') {
+    await announce(article);
+  }
+  return article;
+}
+
+export async function updateArticle(articleId: number, input: unknown, userId?: number): Promise<Article> {
+  const existing = await storage.getArticle(articleId);
+  if (!existing || existing.archivedAt) {
+    throw new EditorialError("Article not found", 404);
+  }
+
+  const { pinned, publishStatus, publishedAt, ...fields } = parseInput(editorArticleSchema.partial(), input);
+  checkCategory(fields.category);
+  if (existing.contentSource && fields.isPremium !== undefined && fields.isPremium !== existing.isPremium) {
+    throw new EditorialError(`This article comes from ${existing.contentSource}; set premium there or the next sync undoes it`, 409);
+  }
+  const now = new Date();
+  const changes: Partial<InsertArticle> = { ...fields };
+
+  if (pinned !== undefined) {
+    changes.pinnedAt = pinned ? existing.pinnedAt ?? now : null;
+  }
+  if (publishStatus !== undefined && publishStatus !== existing.publishStatus) {
+    // Publishing a draft puts it at the top of the feed unless the editor backdates it
+    Object.assign(changes, resolvePublishing(publishStatus, publishedAt ?? (publishStatus === 'scheduled' ? existing.publishedAt : undefined), now));
+  } else if (publishedAt !== undefined) {
+    if (existing.publishStatus === 'scheduled' && publishedAt <= now) {
+      throw new EditorialError("Pick a publish time in the future");
+    }
+    changes.publishedAt = publishedAt;
+  }
+  if (changes.publishedAt) {
+    changes.timeAgo = changes.publishedAt.toISOString();
+  }
+
+  const updated = (await storage.updateArticle(articleId, changes))!;
+  await recordRevisions([{ before: existing, after: updated }], 'editor', { userId });
+  if (updated.title !== existing.title || updated.content !== existing.content) {
+    requestTranslation();
+  }
+  // Re-read so the "updated" mark recordRevisions may have set is included
+  const article = (await storage.getArticle(articleId))!;
+  if (existing.publishStatus !== 'published' && article.publishStatus === 'published') {
+    await announce(article);
+  }
+  return article;
+}
+
+// Archives rather than deletes, so bookmarks and view history keep pointing at something
+export async function deleteArticle(articleId: number): Promise<void> {
+  const article = await storage.getArticle(articleId);
+  if (!article || article.archivedAt) {
+    throw new EditorialError("Article not found", 404);
+  }
+  if (article.contentSource) {
+    throw new EditorialError(`This article comes from ${article.contentSource}; remove it there or it comes back on the next sync`, 409);
+  }
+  await storage.archiveArticle(articleId);
+}
+
+export async function publishDueArticles(now: Date = new Date()): Promise<number> {
+  const published = await storage.publishDueArticles(now);
+  for (const article of published) {
+    await announce(article);
+  }
+  return published.length;
+}
+
+export function startPublishScheduler(): NodeJS.Timeout {
+  const run = () => {
+    publishDueArticles()
+      .then(count => {
+        if (count > 0) console.log(`Published ${count} scheduled articles`);
+      })
+      .catch(error => console.error("Publishing scheduled articles failed:", error));
+  };
+
+  run();
+  return setInterval(run, PUBLISH_INTERVAL_MS);
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { dedupeAcrossSources, type SourceFetchResult } from "./content-source";
+import { GoogleSheetsService } from "./google-sheets";
+
+const HEADER = ["ID", "Title", "Content", "Category"];
+
+// Serves each tab's rows the way the Sheets API does: the header, then the data rows
+function sheetWith(tabs: Record<string, string[][]>) {
+  const service = new GoogleSheetsService({}, "spreadsheet", { tabs: Object.keys(tabs) });
+  (service as any).sheets = {
+    spreadsheets: {
+      get: async () => ({
+        data: {
+          sheets: Object.entries(tabs).map(([title, rows]) => ({
+            properties: { title, gridProperties: { rowCount: rows.length + 1 } },
+          })),
+        },
+      }),
+      values: {
+        get: async ({ range }: { range: string }) => {
+          const tab = range.slice(1, range.indexOf("'!"));
+          return { data: { values: range.endsWith("!1:1") ? [HEADER] : tabs[tab] } };
+        },
+      },
+    },
+  };
+  return service;
+}
+
+function row(id: string, title: string): string[] {
+  return [id, title, `${title}, with enough body text to pass the content checks.`, "breakout"];
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("GoogleSheetsService.fetchArticles", () => {
+  it("namespaces ids on later tabs, in both the articles and the row report", async () => {
+    const result = await sheetWith({
+      Breakout: [row("1", "Reliance breaks out")],
+      Warrants: [row("1", "Tata Steel warrants listed")],
+    }).fetchArticles();
+
+    expect(result.articles.map(article => article.sheetId)).toEqual(["1", "Warrants:1"]);
+    expect(result.rows.map(report => [report.sheetId, report.status])).toEqual([["1", "accepted"], ["Warrants:1", "accepted"]]);
+  });
+
+  it("reports duplicate ids only within a tab", async () => {
+    const result = await sheetWith({
+      Breakout: [row("1", "Reliance breaks out")],
+      Warrants: [row("1", "Tata Steel warrants listed"), row("1", "Tata Steel warrants rally")],
+    }).fetchArticles();
+
+    expect(result.rows.map(report => report.status)).toEqual(["accepted", "rejected", "accepted"]);
+    expect(result.articles.map(article => article.title)).toEqual(["Reliance breaks out", "Tata Steel warrants rally"]);
+  });
+});
+
+describe("dedupeAcrossSources with a later tab", () => {
+  it("rejects the report row of a story dropped as a duplicate", async () => {
+    const sheet = await sheetWith({
+      Breakout: [row("1", "Reliance breaks out")],
+      Warrants: [row("1", "Tata Steel warrants listed")],
+    }).fetchArticles();
+    const feed: SourceFetchResult = {
+      articles: [{ sheetId: "feed:9", title: "Tata Steel warrants listed", content: "From the feed.", category: "breakout", imageUrl: "", timeAgo: "" }],
+      rows: [],
+      columns: {},
+    };
+
+    dedupeAcrossSources([{ source: "feed", result: feed }, { source: "google_sheets", result: sheet }]);
+
+    expect(sheet.articles.map(article => article.sheetId)).toEqual(["1"]);
+    const report = sheet.rows.find(report => report.sheetId === "Warrants:1");
+    expect(report?.status).toBe("rejected");
+    expect(report?.issues.map(issue => issue.problem)).toContain("Same story as an item from feed");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { diffSourceArticles, hashSourceArticle } from "./ingestion";
+import type { SourceArticle } from "./content-source";
+
+function sourceArticle(overrides: Partial<SourceArticle> = {}): SourceArticle {
+  const article = {
+    sheetId: "1",
+    title: "Reliance hits record high",
+    content: "Shares rose 3% on strong refining margins.",
+    category: "markets",
+    stockSymbol: "RELIANCE",
+    stockPrice: "₹2,845",
+    priceChange: "+3%",
+    timeAgo: "2 hours ago",
+    publishedAt: new Date("2025-01-10T08:00:00Z"),
+    ...overrides,
+  } as SourceArticle;
+  return { ...article, sourceHash: overrides.sourceHash ?? hashSourceArticle(article) };
+}
+
+describe("hashSourceArticle", () => {
+  it("is stable across key order and the resolved publish time", () => {
+    const article = sourceArticle();
+    const reordered = Object.fromEntries(Object.entries(article).reverse()) as SourceArticle;
+    expect(hashSourceArticle(reordered)).toBe(hashSourceArticle(article));
+    expect(hashSourceArticle({ ...article, publishedAt: new Date() })).toBe(hashSourceArticle(article));
+  });
+
+  it("ignores a previously stored hash", () => {
+    const article = sourceArticle();
+    expect(hashSourceArticle({ ...article, sourceHash: "stale" })).toBe(hashSourceArticle(article));
+  });
+
+  it("changes when an editorial field changes", () => {
+    const article = sourceArticle();
+    expect(hashSourceArticle({ ...article, title: "Reliance slips" })).not.toBe(hashSourceArticle(article));
+    expect(hashSourceArticle({ ...article, priceChange: "+3.1%" })).not.toBe(hashSourceArticle(article));
+  });
+
+  it("treats an undefined field and a null one alike", () => {
+    const article = sourceArticle();
+    expect(hashSourceArticle({ ...article, stockSymbol: undefined })).toBe(hashSourceArticle({ ...article, stockSymbol: null }));
+  });
+});
+
+describe("diffSourceArticles", () => {
+  it("inserts new rows and skips rows whose hash is unchanged", () => {
+    const existing = sourceArticle({ sheetId: "1" });
+    const added = sourceArticle({ sheetId: "2" });
+    const changes = diffSourceArticles([existing, added], [
+      { sheetId: "1", sourceHash: existing.sourceHash!, archivedAt: null },
+    ]);
+    expect(changes).toEqual({ upserts: [added], archiveSheetIds: [], unchanged: 1 });
+  });
+
+  it("updates rows whose content changed", () => {
+    const edited = sourceArticle({ title: "Reliance slips from record" });
+    const changes = diffSourceArticles([edited], [
+      { sheetId: "1", sourceHash: hashSourceArticle(sourceArticle()), archivedAt: null },
+    ]);
+    expect(changes.upserts).toEqual([edited]);
+    expect(changes.unchanged).toBe(0);
+  });
+
+  it("restores an archived row that reappears unchanged", () => {
+    const article = sourceArticle();
+    const changes = diffSourceArticles([article], [
+      { sheetId: "1", sourceHash: article.sourceHash!, archivedAt: new Date() },
+    ]);
+    expect(changes.upserts).toEqual([article]);
+  });
+
+  it("archives live rows missing from the source, but not ones already archived", () => {
+    const changes = diffSourceArticles([sourceArticle({ sheetId: "1" })], [
+      { sheetId: "1", sourceHash: null, archivedAt: null },
+      { sheetId: "2", sourceHash: "x", archivedAt: null },
+      { sheetId: "3", sourceHash: "y", archivedAt: new Date() },
+    ]);
+    expect(changes.archiveSheetIds).toEqual(["2"]);
+  });
+});
@@ -0,0 +1,260 @@
+import { createHash } from "crypto";
+import type { IngestionRowReport } from "@shared/schema";
+import { storage, type SourceArticleState } from "./storage";
+import { evaluateAlerts } from "./alerts";
+import {
+  dedupeAcrossSources,
+  getContentSources,
+  registerContentSource,
+  type ContentSource,
+  type SourceArticle,
+  type SourceFetchResult,
+} from "./content-source";
+import { createFeedSourcesFromEnv } from "./source-adapters";
+import { flagIncompleteArticles } from "./content-quality";
+import { reclusterRecentStories } from "./story-clusters";
+import { recordRevisions } from "./revisions";
+import { requestTranslation } from "./translation";
+
+const MAX_STORED_RUNS = 50;
+const DEFAULT_SYNC_INTERVAL_MS = 2 * 60 * 1000; // 2 minutes for fresh data
+
+export interface SourceChanges {
+  upserts: SourceArticle[];
+  archiveSheetIds: string[];
+  unchanged: number;
+}
+
+interface SyncCounts {
+  inserted: number;
+  updated: number;
+  archived: number;
+  unchanged: number;
+}
+
+interface FetchedSource {
+  source: ContentSource;
+  startedAt: Date;
+  fetchMs: number;
+  result: SourceFetchResult;
+}
+
+// publishedAt is left out: relative text like "2 hours ago" resolves differently every sync,
+// and the raw text in timeAgo already captures real edits
+export function hashSourceArticle(article: SourceArticle): string {
+  const { publishedAt, sourceHash, ...fields } = article;
+  const stable = Object.keys(fields).sort().map(key => [key, (fields as Record<string, unknown>)[key] ?? null]);
+  return createHash('sha256').update(JSON.stringify(stable)).digest('hex');
+}
+
+// Rows whose hash matches the stored live row are skipped; live rows missing from the source are archived
+export function diffSourceArticles(articles: SourceArticle[], states: SourceArticleState[]): SourceChanges {
+  const statesBySheetId = new Map(states.map(state => [state.sheetId, state]));
+  const seen = new Set<string>();
+  const upserts: SourceArticle[] = [];
+  let unchanged = 0;
+
+  articles.forEach(article => {
+    seen.add(article.sheetId);
+    const state = statesBySheetId.get(article.sheetId);
+    if (state && !state.archivedAt && state.sourceHash === article.sourceHash) {
+      unchanged++;
+    } else {
+      upserts.push(article);
+    }
+  });
+
+  const archiveSheetIds = states
+    .filter(state => !state.archivedAt && !seen.has(state.sheetId))
+    .map(state => state.sheetId);
+
+  return { upserts, archiveSheetIds, unchanged };
+}
+
+// Pulls every registered content source into articles, one run at a time
+export class ContentIngestion {
+  private ready: Promise<void>;
+  private syncInterval: number;
+  // The run in progress, if any; requests made meanwhile set pending and share one follow-up run
+  private running: Promise<void> | null = null;
+  private pending = false;
+
+  constructor() {
+    this.ready = this.initializeSources();
+    this.syncInterval = parseInt(process.env.CONTENT_SYNC_INTERVAL_MS || '') || DEFAULT_SYNC_INTERVAL_MS;
+  }
+
+  private async initializeSources() {
+    try {
+      // Import dynamically to avoid build issues
+      const { GoogleSheetsService } = await import('./google-sheets');
+      const googleSheets = GoogleSheetsService.createFromEnv();
+
+      if (googleSheets) {
+        registerContentSource(googleSheets);
+        console.log('Google Sheets integration enabled');
+      } else {
+        console.log('Google Sheets integration disabled - missing credentials');
+      }
+    } catch (error) {
+      console.error('Failed to initialize Google Sheets:', error);
+    }
+
+    createFeedSourcesFromEnv().forEach(source => {
+      registerContentSource(source);
+      console.log(`Content source "${source.name}" enabled`);
+    });
+  }
+
+  async getSourceNames(): Promise<string[]> {
+    await this.ready;
+    return getContentSources().map(source => source.name);
+  }
+
+  // Background schedule, so request handlers never wait on a source
+  start(): NodeJS.Timeout {
+    this.syncInBackground();
+    return setInterval(() => this.syncInBackground(), this.syncInterval);
+  }
+
+  // For callers that don't wait on the sync; anything syncAll didn't handle is logged, not left unhandled
+  syncInBackground(): void {
+    this.requestSync().catch(error => console.error('Content sync failed:', error));
+  }
+
+  // Never runs two syncs at once; resolves once a sync that started after this call has finished
+  requestSync(): Promise<void> {
+    if (this.running) {
+      this.pending = true;
+      return this.running;
+    }
+
+    this.running = (async () => {
+      try {
+        await this.ready;
+        do {
+          this.pending = false;
+          await this.syncAll();
+        } while (this.pending);
+      } finally {
+        this.running = null;
+      }
+    })();
+    return this.running;
+  }
+
+  // Adds or replaces a source, e.g. an admin CSV upload, and queues a sync to bring it in with the rest.
+  // Sources added here last until restart; their articles stay until the next upload under the same name.
+  async addSource(source: ContentSource): Promise<void> {
+    await this.ready;
+    registerContentSource(source);
+    this.syncInBackground();
+  }
+
+  private async syncAll(): Promise<void> {
+    const fetched: FetchedSource[] = [];
+    for (const source of getContentSources()) {
+      const startedAt = new Date();
+      try {
+        console.log(`Syncing articles from ${source.name}...`);
+        const result = await source.fetchArticles();
+        fetched.push({ source, startedAt, fetchMs: Date.now() - startedAt.getTime(), result });
+      } catch (error) {
+        console.error(`Failed to sync from ${source.name}:`, error);
+        await this.recordRun(source.name, startedAt, [], null, Date.now() - startedAt.getTime(), error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    dedupeAcrossSources(fetched.map(({ source, result }) => ({ source: source.name, result })));
+
+    for (const entry of fetched) {
+      await this.applySource(entry);
+    }
+
+    // Clusters span sources, so they're worked out once every source has been applied
+    try {
+      const moved = await reclusterRecentStories();
+      if (moved > 0) console.log(`Updated story clusters for ${moved} articles`);
+    } catch (error) {
+      console.error('Failed to cluster stories:', error);
+    }
+
+    // Runs on its own so a slow translation API doesn't hold up the next sync
+    requestTranslation();
+  }
+
+  private async applySource({ source, startedAt, fetchMs, result }: FetchedSource): Promise<void> {
+    const applyStartedAt = Date.now();
+    const elapsed = () => fetchMs + Date.now() - applyStartedAt;
+    try {
+      // Archiving every article because of a wiped source is worse than a stale feed
+      if (result.articles.length === 0) {
+        console.log(`No valid articles found in ${source.name}`);
+        await this.recordRun(source.name, startedAt, result.rows, null, elapsed(), 'No valid rows in the source; existing articles were left unchanged');
+        return;
+      }
+
+      flagIncompleteArticles(result);
+      result.articles.forEach(article => {
+        article.sourceHash = hashSourceArticle(article);
+      });
+      const changes = diffSourceArticles(result.articles, await storage.getSourceArticleStates(source.name));
+      const synced = await storage.applySourceChanges(source.name, changes.upserts, changes.archiveSheetIds);
+      console.log(`Synced ${result.articles.length} articles from ${source.name} (${synced.inserted} new, ${synced.updated} updated, ${synced.archived} archived, ${changes.unchanged} unchanged)`);
+      await this.recordRun(source.name, startedAt, result.rows, { ...synced, unchanged: changes.unchanged }, elapsed());
+
+      try {
+        const previous = new Map(synced.previousArticles.map(article => [article.sheetId, article]));
+        await recordRevisions([
+          ...synced.insertedArticles.map(after => ({ before: null, after })),
+          ...synced.updatedArticles.map(after => ({ before: previous.get(after.sheetId) ?? null, after })),
+        ], 'sheet_sync', { note: source.name });
+      } catch (error) {
+        console.error('Failed to record revisions:', error);
+      }
+
+      // Alerts are best-effort; a failing rule must not fail the sync itself
+      try {
+        // Articles held for review aren't in anyone's feed yet, so they don't alert either
+        const alertCount = await evaluateAlerts({
+          insertedArticles: synced.insertedArticles.filter(article => article.contentStatus === 'complete'),
+          updatedArticles: synced.updatedArticles.filter(article => article.contentStatus === 'complete'),
+        });
+        if (alertCount > 0) console.log(`Created ${alertCount} alerts from this sync`);
+      } catch (error) {
+        console.error('Failed to evaluate alerts:', error);
+      }
+    } catch (error) {
+      console.error(`Failed to sync from ${source.name}:`, error);
+      await this.recordRun(source.name, startedAt, result.rows, null, elapsed(), error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Saves the per-row report for the admin ingestion page; never fails the sync
+  private async recordRun(source: string, startedAt: Date, rows: IngestionRowReport[], counts: SyncCounts | null, durationMs: number, error?: string) {
+    try {
+      await storage.createIngestionRun({
+        source,
+        status: error ? 'failed' : 'succeeded',
+        totalRows: rows.length,
+        acceptedRows: rows.filter(row => row.status === 'accepted').length,
+        correctedRows: rows.filter(row => row.status === 'corrected').length,
+        rejectedRows: rows.filter(row => row.status === 'rejected').length,
+        incompleteRows: rows.filter(row => row.status === 'incomplete').length,
+        error: error ?? null,
+        insertedCount: counts?.inserted ?? 0,
+        updatedCount: counts?.updated ?? 0,
+        archivedCount: counts?.archived ?? 0,
+        unchangedCount: counts?.unchanged ?? 0,
+        durationMs,
+        rows,
+        startedAt,
+      });
+      await storage.pruneIngestionRuns(source, MAX_STORED_RUNS);
+    } catch (recordError) {
+      console.error('Failed to record ingestion run:', recordError);
+    }
+  }
+}
+
+export const contentIngestion = new ContentIngestion();
@@ -0,0 +1,115 @@
+import { createHmac } from "crypto";
+import { describe, expect, it } from "vitest";
+import { FakePaymentProvider, PaymentSignatureError, RazorpayProvider } from "./payment-providers";
+
+const WEBHOOK_SECRET = "whsec_test";
+
+function razorpayBody(event: string, status = "captured") {
+  return Buffer.from(JSON.stringify({
+    event,
+    payload: {
+      payment: { entity: { id: "pay_1", status, amount: 1100, currency: "INR" } },
+      payment_link: { entity: { id: "plink_1" } },
+    },
+  }));
+}
+
+function sign(rawBody: Buffer, secret = WEBHOOK_SECRET) {
+  return createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+describe("RazorpayProvider.verifyWebhook", () => {
+  const provider = new RazorpayProvider("key_id", "key_secret", WEBHOOK_SECRET);
+
+  it("accepts a callback signed with the webhook secret", () => {
+    const rawBody = razorpayBody("payment_link.paid");
+    const event = provider.verifyWebhook(rawBody, {
+      "x-razorpay-signature": sign(rawBody),
+      "x-razorpay-event-id": "evt_1",
+    });
+    expect(event).toEqual({
+      eventId: "evt_1",
+      orderId: "plink_1",
+      paymentId: "pay_1",
+      status: "captured",
+      amount: 1100,
+      currency: "INR",
+    });
+  });
+
+  it("rejects a missing, wrong or foreign signature", () => {
+    const rawBody = razorpayBody("payment_link.paid");
+    expect(() => provider.verifyWebhook(rawBody, {})).toThrow(PaymentSignatureError);
+    expect(() => provider.verifyWebhook(rawBody, { "x-razorpay-signature": "deadbeef" })).toThrow(PaymentSignatureError);
+    expect(() => provider.verifyWebhook(rawBody, { "x-razorpay-signature": sign(rawBody, "other") })).toThrow(PaymentSignatureError);
+  });
+
+  it("rejects a body changed after signing", () => {
+    const signature = sign(razorpayBody("payment.failed", "failed"));
+    expect(() => provider.verifyWebhook(razorpayBody("payment_link.paid"), { "x-razorpay-signature": signature }))
+      .toThrow(PaymentSignatureError);
+  });
+
+  it("traces a failed payment, which names no payment link, to its order by receipt", () => {
+    // As Razorpay sends it: only the payment entity, carrying the notes set on the link
+    const rawBody = Buffer.from(JSON.stringify({
+      entity: "event",
+      event: "payment.failed",
+      contains: ["payment"],
+      payload: {
+        payment: {
+          entity: {
+            id: "pay_2",
+            entity: "payment",
+            amount: 1100,
+            currency: "INR",
+            status: "failed",
+            order_id: "order_1",
+            method: "upi",
+            notes: { receipt: "UPI_1_7" },
+            error_code: "BAD_REQUEST_ERROR",
+            error_description: "Payment was unsuccessful as the transaction was declined by the bank.",
+          },
+        },
+      },
+      created_at: 1736467200,
+    }));
+
+    expect(provider.verifyWebhook(rawBody, { "x-razorpay-signature": sign(rawBody) })).toEqual({
+      eventId: "payment.failed:pay_2",
+      orderId: null,
+      receipt: "UPI_1_7",
+      paymentId: "pay_2",
+      status: "failed",
+      amount: 1100,
+      currency: "INR",
+    });
+  });
+
+  it("ignores other events", () => {
+    const other = razorpayBody("refund.created");
+    expect(provider.verifyWebhook(other, { "x-razorpay-signature": sign(other) })).toBeNull();
+  });
+});
+
+describe("FakePaymentProvider.verifyWebhook", () => {
+  const event = {
+    eventId: "evt_1",
+    orderId: "fake_order_1",
+    paymentId: "pay_1",
+    status: "captured" as const,
+    amount: 1100,
+    currency: "INR",
+  };
+
+  it("accepts its own signed callbacks", () => {
+    const provider = new FakePaymentProvider(WEBHOOK_SECRET);
+    const { rawBody, headers } = provider.signedWebhook(event);
+    expect(provider.verifyWebhook(rawBody, headers)).toEqual(event);
+  });
+
+  it("rejects callbacks signed with another secret", () => {
+    const { rawBody, headers } = new FakePaymentProvider("other").signedWebhook(event);
+    expect(() => new FakePaymentProvider(WEBHOOK_SECRET).verifyWebhook(rawBody, headers)).toThrow(PaymentSignatureError);
+  });
+});
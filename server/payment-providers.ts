@@ -0,0 +1,174 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+
+export interface CreateOrderInput {
+  amount: number; // in paise
+  currency: string;
+  receipt: string;
+  description: string;
+  customer?: { name?: string | null; email?: string | null; phoneNumber?: string | null };
+}
+
+export interface PaymentOrder {
+  orderId: string;
+  checkoutUrl: string;
+}
+
+// What a verified server-to-server callback tells us about an order
+export interface PaymentWebhookEvent {
+  eventId: string;
+  orderId: string | null; // null when the callback names only our receipt
+  receipt?: string;
+  paymentId: string;
+  status: 'captured' | 'failed';
+  amount: number; // in paise
+  currency: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createOrder(input: CreateOrderInput): Promise<PaymentOrder>;
+  // Throws PaymentSignatureError when the callback is not signed by the provider
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null;
+}
+
+export class PaymentSignatureError extends Error {
+  status = 401;
+
+  constructor(message = "Invalid payment webhook signature") {
+    super(message);
+    this.name = "PaymentSignatureError";
+  }
+}
+
+function hmacSha256(secret: string, payload: Buffer | string): string {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+function signatureMatches(expected: string, received: string | string[] | undefined): boolean {
+  if (typeof received !== "string") return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(received);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Razorpay Payment Links: the user pays on a hosted UPI page, Razorpay calls our webhook
+export class RazorpayProvider implements PaymentProvider {
+  readonly name = "razorpay";
+
+  static createFromEnv() {
+    const keyId = process.env.RAZORPAY_KEY_ID;
+    const keySecret = process.env.RAZORPAY_KEY_SECRET;
+    const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+
+    if (!keyId || !keySecret || !webhookSecret) {
+      return null;
+    }
+    return new RazorpayProvider(keyId, keySecret, webhookSecret);
+  }
+
+  constructor(
+    private keyId: string,
+    private keySecret: string,
+    private webhookSecret: string,
+  ) {}
+
+  async createOrder(input: CreateOrderInput): Promise<PaymentOrder> {
+    const response = await fetch("https://api.razorpay.com/v1/payment_links", {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${Buffer.from(`${this.keyId}:${this.keySecret}`).toString("base64")}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount: input.amount,
+        currency: input.currency,
+        reference_id: input.receipt,
+        description: input.description,
+        upi_link: true,
+        // Copied onto the link's payments, so a failed payment can be traced back to its order
+        notes: { receipt: input.receipt },
+        customer: {
+          name: input.customer?.name || undefined,
+          email: input.customer?.email || undefined,
+          contact: input.customer?.phoneNumber || undefined,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Razorpay API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return { orderId: data.id, checkoutUrl: data.short_url };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null {
+    const expected = hmacSha256(this.webhookSecret, rawBody);
+    if (!signatureMatches(expected, headers["x-razorpay-signature"])) {
+      throw new PaymentSignatureError();
+    }
+
+    const body = JSON.parse(rawBody.toString("utf8"));
+    const payment = body.payload?.payment?.entity;
+    const paymentLink = body.payload?.payment_link?.entity;
+
+    // We only act on payment link events; anything else is acknowledged and ignored
+    if (!payment) return null;
+    if (body.event !== "payment_link.paid" && body.event !== "payment.failed") return null;
+
+    // payment.failed carries only the payment, so its order is found from the receipt in its notes
+    const receipt: string | undefined = payment.notes?.receipt || undefined;
+    if (!paymentLink && !receipt) return null;
+
+    return {
+      eventId: String(headers["x-razorpay-event-id"] || `${body.event}:${payment.id}`),
+      orderId: paymentLink?.id ?? null,
+      receipt,
+      paymentId: payment.id,
+      status: body.event === "payment_link.paid" && payment.status === "captured" ? "captured" : "failed",
+      amount: payment.amount,
+      currency: payment.currency,
+    };
+  }
+}
+
+// Local stand-in for development and tests; signs its own callbacks
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  constructor(private webhookSecret: string = process.env.FAKE_PAYMENT_WEBHOOK_SECRET || randomUUID()) {}
+
+  async createOrder(_input: CreateOrderInput): Promise<PaymentOrder> {
+    const orderId = `fake_order_${randomUUID()}`;
+    return { orderId, checkoutUrl: `/api/payments/fake/checkout/${orderId}` };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null {
+    if (!signatureMatches(hmacSha256(this.webhookSecret, rawBody), headers["x-fake-signature"])) {
+      throw new PaymentSignatureError();
+    }
+    return JSON.parse(rawBody.toString("utf8"));
+  }
+
+  // Builds a signed callback as the gateway would send it
+  signedWebhook(event: PaymentWebhookEvent): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const rawBody = Buffer.from(JSON.stringify(event));
+    return { rawBody, headers: { "x-fake-signature": hmacSha256(this.webhookSecret, rawBody) } };
+  }
+}
+
+// PAYMENT_PROVIDER picks the gateway; the fake provider is never used in production
+export function createPaymentProviderFromEnv(): PaymentProvider | null {
+  const selected = process.env.PAYMENT_PROVIDER || (process.env.RAZORPAY_KEY_ID ? "razorpay" : "fake");
+
+  if (selected === "razorpay") {
+    return RazorpayProvider.createFromEnv();
+  }
+  if (selected === "fake" && process.env.NODE_ENV !== "production") {
+    return new FakePaymentProvider();
+  }
+  return null;
+}
@@ -0,0 +1,76 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { createHmac } from "crypto";
+import type { Plan, User } from "@shared/schema";
+
+// The provider is picked from the environment when payments.ts loads
+vi.hoisted(() => {
+  process.env.PAYMENT_PROVIDER = "razorpay";
+  process.env.RAZORPAY_KEY_ID = "key_id";
+  process.env.RAZORPAY_KEY_SECRET = "key_secret";
+  process.env.RAZORPAY_WEBHOOK_SECRET = "whsec_test";
+});
+
+import { createSubscriptionOrder, handlePaymentWebhook } from "./payments";
+import { ensureDefaultPlans, DEFAULT_PLAN_CODE } from "./subscriptions";
+import { storage } from "./storage";
+
+let user: User;
+let plan: Plan;
+let linkCount = 0;
+
+function signedCallback(body: object) {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const signature = createHmac("sha256", "whsec_test").update(rawBody).digest("hex");
+  return { rawBody, headers: { "x-razorpay-signature": signature } };
+}
+
+// Stands in for the Payment Links API and returns the notes the link was created with
+async function createOrder() {
+  const requests: any[] = [];
+  vi.stubGlobal("fetch", async (_url: string, init: RequestInit) => {
+    requests.push(JSON.parse(String(init.body)));
+    return new Response(JSON.stringify({ id: `plink_${++linkCount}`, short_url: "https://rzp.io/l/test" }));
+  });
+  const { payment } = await createSubscriptionOrder(user, plan, "upi");
+  return { payment, notes: requests[0].notes };
+}
+
+beforeAll(async () => {
+  await ensureDefaultPlans();
+  plan = (await storage.getPlanByCode(DEFAULT_PLAN_CODE))!;
+  user = await storage.createUser({ email: "payer@example.com" });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("Razorpay webhooks", () => {
+  it("marks the order failed when its payment fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { payment, notes } = await createOrder();
+    expect(notes).toEqual({ receipt: payment.upiTransactionId });
+
+    const { rawBody, headers } = signedCallback({
+      event: "payment.failed",
+      payload: { payment: { entity: { id: "pay_failed", amount: plan.amount, currency: "INR", status: "failed", order_id: "order_1", notes } } },
+    });
+    expect(await handlePaymentWebhook("razorpay", rawBody, headers)).toBe("failed");
+
+    const [stored] = await storage.getUserPayments(user.id);
+    expect(stored).toMatchObject({ id: payment.id, status: "failed", providerPaymentId: "pay_failed" });
+  });
+
+  it("completes the order and renews the subscription when the link is paid", async () => {
+    const { payment, notes } = await createOrder();
+    const { rawBody, headers } = signedCallback({
+      event: "payment_link.paid",
+      payload: {
+        payment: { entity: { id: "pay_ok", amount: plan.amount, currency: "INR", status: "captured", notes } },
+        payment_link: { entity: { id: payment.providerOrderId } },
+      },
+    });
+    expect(await handlePaymentWebhook("razorpay", rawBody, headers)).toBe("completed");
+    expect((await storage.getUserById(user.id))?.subscriptionStatus).toBe("active");
+  });
+});
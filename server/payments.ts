@@ -0,0 +1,92 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Plan, UpiPayment, User } from "@shared/schema";
+import { storage } from "./storage";
+import { createPaymentProviderFromEnv, type PaymentProvider } from "./payment-providers";
+import { renewSubscription } from "./subscriptions";
+
+export const paymentProvider: PaymentProvider | null = createPaymentProviderFromEnv();
+
+export class PaymentWebhookError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PaymentWebhookError";
+  }
+}
+
+export type WebhookOutcome = 'completed' | 'failed' | 'rejected' | 'duplicate' | 'ignored';
+
+export async function createSubscriptionOrder(user: User, plan: Plan, paymentMethod: string): Promise<{ payment: UpiPayment; checkoutUrl: string }> {
+  if (!paymentProvider) {
+    throw new Error("No payment provider configured");
+  }
+
+  const receipt = `UPI_${Date.now()}_${user.id}`;
+  const order = await paymentProvider.createOrder({
+    amount: plan.amount,
+    currency: plan.currency,
+    receipt,
+    description: `StocksShorts Premium - ${plan.name}`,
+    customer: { name: user.name, email: user.email, phoneNumber: user.phoneNumber },
+  });
+
+  const payment = await storage.createUpiPayment({
+    userId: user.id,
+    planId: plan.id,
+    amount: plan.amount,
+    currency: plan.currency,
+    upiTransactionId: receipt,
+    status: 'pending',
+    paymentMethod,
+    provider: paymentProvider.name,
+    providerOrderId: order.orderId,
+  });
+
+  return { payment, checkoutUrl: order.checkoutUrl };
+}
+
+// The only place a subscription is granted: a signed callback that matches the stored order
+export async function handlePaymentWebhook(providerName: string, rawBody: Buffer | undefined, headers: IncomingHttpHeaders): Promise<WebhookOutcome> {
+  if (!paymentProvider || paymentProvider.name !== providerName) {
+    throw new PaymentWebhookError(`Unknown payment provider "${providerName}"`, 404);
+  }
+  if (!rawBody) {
+    throw new PaymentWebhookError("Missing webhook body");
+  }
+
+  const event = paymentProvider.verifyWebhook(rawBody, headers);
+  if (!event) {
+    return 'ignored';
+  }
+
+  const payment = event.orderId
+    ? await storage.getPaymentByProviderOrderId(paymentProvider.name, event.orderId)
+    : event.receipt ? await storage.getPaymentByReceipt(paymentProvider.name, event.receipt) : undefined;
+  if (!payment) {
+    throw new PaymentWebhookError(`No payment found for order ${event.orderId ?? event.receipt}`, 404);
+  }
+
+  if (event.status === 'failed') {
+    const failed = await storage.settlePayment(payment.id, 'failed', event.paymentId);
+    return failed ? 'failed' : 'duplicate';
+  }
+
+  if (event.amount !== payment.amount || event.currency !== payment.currency) {
+    console.error(`Payment ${payment.id} amount mismatch: expected ${payment.amount} ${payment.currency}, got ${event.amount} ${event.currency}`);
+    const rejected = await storage.settlePayment(payment.id, 'rejected', event.paymentId);
+    return rejected ? 'rejected' : 'duplicate';
+  }
+
+  const completed = await storage.settlePayment(payment.id, 'completed', event.paymentId);
+  if (!completed) {
+    return 'duplicate';
+  }
+
+  // The plan is fixed when the order is created, so a later price change can't alter what was paid for
+  const plan = completed.planId ? await storage.getPlan(completed.planId) : undefined;
+  if (!plan) {
+    throw new PaymentWebhookError(`Payment ${completed.id} has no plan`, 500);
+  }
+  await renewSubscription(completed.userId, plan);
+
+  return 'completed';
+}
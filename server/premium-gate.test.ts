@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Article } from "@shared/schema";
+import { checkArticleAccess, gateArticles } from "./premium-gate";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let free: Article;
+let premium: Article;
+let subscriberId: number;
+let graceId: number;
+let expiredId: number;
+let freeUserId: number;
+
+async function userWithExpiry(status: string, expiry: Date | null) {
+  const user = await storage.createUser({ email: `${status}${Math.random()}@example.com` });
+  await storage.updateSubscription(user.id, { subscriptionStatus: status, subscriptionExpiry: expiry, isSubscribed: status !== "none" });
+  return user.id;
+}
+
+beforeAll(async () => {
+  const base = { content: "Full analysis.", category: "breakout", imageUrl: "", timeAgo: "1 hour ago", stockPrice: "₹500", priceChange: "+4%" };
+  free = await storage.createArticle({ ...base, title: "Free story" });
+  free = (await storage.updateArticle(free.id, { isPremium: false }))!;
+  premium = await storage.createArticle({ ...base, title: "Premium story" });
+  premium = (await storage.updateArticle(premium.id, { isPremium: true }))!;
+
+  const now = Date.now();
+  subscriberId = await userWithExpiry("active", new Date(now + 10 * DAY_MS));
+  graceId = await userWithExpiry("active", new Date(now - DAY_MS));
+  expiredId = await userWithExpiry("expired", new Date(now - 30 * DAY_MS));
+  freeUserId = await userWithExpiry("none", null);
+});
+
+describe("gateArticles", () => {
+  it("locks premium articles for visitors and free users, leaving only a teaser", async () => {
+    for (const userId of [undefined, freeUserId, expiredId]) {
+      const [openCard, lockedCard] = await gateArticles([free, premium], userId, "teaser");
+      expect(openCard).toEqual(free);
+      expect(lockedCard).toMatchObject({ id: premium.id, title: "Premium story", locked: true, content: "", stockPrice: null, priceChange: null });
+    }
+  });
+
+  it("drops premium articles in hide mode", async () => {
+    expect(await gateArticles([free, premium], undefined, "hide")).toEqual([free]);
+  });
+
+  it("serves everything to subscribers, including during the grace period", async () => {
+    for (const userId of [subscriberId, graceId]) {
+      expect(await gateArticles([free, premium], userId, "teaser")).toEqual([free, premium]);
+    }
+  });
+});
+
+describe("checkArticleAccess", () => {
+  it("answers with the premium-required body for locked articles", async () => {
+    const denied = await checkArticleAccess(premium, freeUserId);
+    expect(denied).toMatchObject({ code: "PREMIUM_REQUIRED", triggerType: "breakout", article: { id: premium.id, locked: true, content: "" } });
+  });
+
+  it("lets free articles through for anyone and premium ones for subscribers", async () => {
+    expect(await checkArticleAccess(free)).toBeNull();
+    expect(await checkArticleAccess(premium, subscriberId)).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import type { Article, FeedArticle, PremiumRequiredResponse } from "@shared/schema";
+import { storage } from "./storage";
+
+// PREMIUM_GATE_MODE=hide drops premium articles from feeds instead of sending teasers
+export type PremiumGateMode = 'teaser' | 'hide';
+export const PREMIUM_GATE_MODE: PremiumGateMode = process.env.PREMIUM_GATE_MODE === 'hide' ? 'hide' : 'teaser';
+
+export async function canReadPremium(userId?: number): Promise<boolean> {
+  return !!userId && await storage.isUserSubscribed(userId);
+}
+
+// Keeps only what the feed needs to show a locked card: title, category and symbol
+export function toTeaser(article: Article): FeedArticle {
+  return {
+    ...article,
+    content: "",
+    contentHi: null,
+    stockPrice: null,
+    priceChange: null,
+    stockPricePaise: null,
+    priceChangeBps: null,
+    sentiment: null,
+    sentimentLabel: null,
+    sentimentConfidence: null,
+    sentimentSource: null,
+    sentimentReason: null,
+    locked: true,
+  };
+}
+
+// The single place premium content is filtered for list, search, trending and saved responses
+export async function gateArticles(articles: Article[], userId?: number, mode: PremiumGateMode = PREMIUM_GATE_MODE): Promise<FeedArticle[]> {
+  if (!articles.some(article => article.isPremium) || await canReadPremium(userId)) {
+    return articles;
+  }
+  if (mode === 'hide') {
+    return articles.filter(article => !article.isPremium);
+  }
+  return articles.map(article => article.isPremium ? toTeaser(article) : article);
+}
+
+// Returns the 402 body when the article is locked for this user, or null when it can be served
+export async function checkArticleAccess(article: Article, userId?: number): Promise<PremiumRequiredResponse | null> {
+  if (!article.isPremium || await canReadPremium(userId)) {
+    return null;
+  }
+  return {
+    message: "A premium subscription is required to read this article",
+    code: "PREMIUM_REQUIRED",
+    triggerType: article.category === 'warrant' || article.category === 'breakout' ? article.category : 'general',
+    article: toTeaser(article),
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { normalizeArticlePrices, parseIndianNumber, parsePriceChangeBps, parsePricePaise } from "./prices";
+
+describe("parseIndianNumber", () => {
+  it("reads Indian and western digit grouping", () => {
+    expect(parseIndianNumber("1,20,000")).toBe(120000);
+    expect(parseIndianNumber("120,000.50")).toBe(120000.5);
+  });
+
+  it("applies crore, lakh and other units", () => {
+    expect(parseIndianNumber("₹1.2 Cr")).toBe(12_000_000);
+    expect(parseIndianNumber("5 lakh")).toBe(500_000);
+    expect(parseIndianNumber("$3bn")).toBe(3_000_000_000);
+  });
+
+  it("keeps the sign, including unicode minus", () => {
+    expect(parseIndianNumber("−2.5%")).toBe(-2.5);
+    expect(parseIndianNumber("+4.2%")).toBe(4.2);
+  });
+
+  it("returns null without a number", () => {
+    expect(parseIndianNumber("N/A")).toBeNull();
+    expect(parseIndianNumber("")).toBeNull();
+    expect(parseIndianNumber(null)).toBeNull();
+  });
+});
+
+describe("parsePricePaise", () => {
+  it("converts rupees to paise", () => {
+    expect(parsePricePaise("₹2,845.50")).toBe(284550);
+    expect(parsePricePaise("Rs. 99")).toBe(9900);
+  });
+
+  it("rejects a percentage filled into the price column", () => {
+    expect(parsePricePaise("+4.2%")).toBeNull();
+  });
+});
+
+describe("parsePriceChangeBps", () => {
+  it("reads a percentage as basis points", () => {
+    expect(parsePriceChangeBps("+4.2%")).toBe(420);
+    expect(parsePriceChangeBps("-0.35%")).toBe(-35);
+  });
+
+  it("turns an absolute change into a percentage of the previous price", () => {
+    // 110 now after +10 means 100 before: a 10% move
+    expect(parsePriceChangeBps("+10", 11000)).toBe(1000);
+    expect(parsePriceChangeBps("-10", 9000)).toBe(-1000);
+  });
+
+  it("needs the price for an absolute change", () => {
+    expect(parsePriceChangeBps("+10")).toBeNull();
+    expect(parsePriceChangeBps("+10", 1000)).toBeNull();
+  });
+});
+
+describe("normalizeArticlePrices", () => {
+  it("takes the currency from the text or an Indian exchange", () => {
+    expect(normalizeArticlePrices({ stockPrice: "₹2,845", priceChange: "+3%" })).toEqual({
+      stockPricePaise: 284500,
+      priceChangeBps: 300,
+      priceCurrency: "INR",
+    });
+    expect(normalizeArticlePrices({ stockPrice: "2845", exchange: "nse" }).priceCurrency).toBe("INR");
+    expect(normalizeArticlePrices({ stockPrice: "$180", exchange: "NASDAQ" }).priceCurrency).toBe("USD");
+    expect(normalizeArticlePrices({ stockPrice: "180", exchange: "NASDAQ" }).priceCurrency).toBeNull();
+  });
+});
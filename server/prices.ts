@@ -0,0 +1,95 @@
+// Turns the sheet's free-text prices ("₹2,845", "₹1,20,000 Cr", "+4.2%") into numbers we can sort and filter on
+
+export interface ArticlePriceFields {
+  stockPricePaise: number | null;
+  priceChangeBps: number | null;
+  priceCurrency: string | null;
+}
+
+const CURRENCY_MARKERS: [RegExp, string][] = [
+  [/₹|\brs\.?|\binr\b/i, "INR"],
+  [/\$|\busd\b/i, "USD"],
+];
+
+const UNIT_MULTIPLIERS: [RegExp, number][] = [
+  [/\d\s*(cr|crs|crore|crores)\b/i, 10_000_000],
+  [/\d\s*(l|lac|lacs|lakh|lakhs)\b/i, 100_000],
+  [/\d\s*(b|bn|billion)\b/i, 1_000_000_000],
+  [/\d\s*(m|mn|million)\b/i, 1_000_000],
+  [/\d\s*k\b/i, 1_000],
+];
+
+export function detectCurrency(text: string): string | null {
+  const match = CURRENCY_MARKERS.find(([pattern]) => pattern.test(text));
+  return match ? match[1] : null;
+}
+
+// First number in the text; commas are separators in both Indian (1,20,000) and western grouping
+export function parseIndianNumber(text: string | null | undefined): number | null {
+  if (!text) return null;
+  const cleaned = text
+    .replace(/[−–]/g, "-") // unicode minus and en dash
+    .replace(/₹|\brs\.?|\binr\b|\$|\busd\b/gi, "");
+  const match = /([+-]?)\s*(\d[\d,]*(?:\.\d+)?|\.\d+)/.exec(cleaned);
+  if (!match) return null;
+
+  let value = parseFloat(match[2].replace(/,/g, ""));
+  if (!Number.isFinite(value)) return null;
+
+  const unit = UNIT_MULTIPLIERS.find(([pattern]) => pattern.test(cleaned));
+  if (unit) value *= unit[1];
+  return match[1] === "-" ? -value : value;
+}
+
+// A percentage in the price column is a mis-filled change, not a price
+export function parsePricePaise(text: string | null | undefined): number | null {
+  if (text?.includes("%")) return null;
+  const value = parseIndianNumber(text);
+  return value === null ? null : Math.round(value * 100);
+}
+
+// "+4.2%" -> 420. Without a % the change is absolute, so it needs the price to become a percentage
+export function parsePriceChangeBps(text: string | null | undefined, pricePaise: number | null = null): number | null {
+  const value = parseIndianNumber(text);
+  if (value === null) return null;
+  if (text!.includes("%")) return Math.round(value * 100);
+
+  if (pricePaise === null) return null;
+  const previousPaise = pricePaise - value * 100;
+  return previousPaise > 0 ? Math.round((value * 100 / previousPaise) * 10_000) : null;
+}
+
+export function normalizeArticlePrices(article: {
+  stockPrice?: string | null;
+  priceChange?: string | null;
+  exchange?: string | null;
+}): ArticlePriceFields {
+  const stockPricePaise = parsePricePaise(article.stockPrice);
+  const exchange = (article.exchange || "").trim().toUpperCase();
+  const priceCurrency = detectCurrency(`${article.stockPrice || ""} ${article.priceChange || ""}`)
+    ?? (stockPricePaise !== null && (exchange === "NSE" || exchange === "BSE") ? "INR" : null);
+
+  return {
+    stockPricePaise,
+    priceChangeBps: parsePriceChangeBps(article.priceChange, stockPricePaise),
+    priceCurrency,
+  };
+}
+
+// ?minMove=5 keeps articles whose price moved at least 5% either way
+export function filterByMinMove<T extends { priceChangeBps: number | null }>(articles: T[], minMovePercent: number): T[] {
+  const minBps = Math.round(Math.abs(minMovePercent) * 100);
+  return articles.filter(article => article.priceChangeBps !== null && Math.abs(article.priceChangeBps) >= minBps);
+}
+
+// Biggest movers first; articles without a parsed change go last in their original order
+export function sortByMove<T extends { priceChangeBps: number | null }>(articles: T[]): T[] {
+  return articles
+    .map((article, index) => ({ article, index }))
+    .sort((a, b) => {
+      const moveA = a.article.priceChangeBps === null ? -1 : Math.abs(a.article.priceChangeBps);
+      const moveB = b.article.priceChangeBps === null ? -1 : Math.abs(b.article.priceChangeBps);
+      return moveB - moveA || a.index - b.index;
+    })
+    .map(({ article }) => article);
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { parsePublishedAt, resolvePublishedAt } from "./published-at";
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = new Date("2025-01-10T06:30:00Z"); // noon in India
+
+describe("parsePublishedAt", () => {
+  it("reads ISO timestamps, taking those without an offset as IST", () => {
+    expect(parsePublishedAt("2025-01-09T10:00:00Z")).toEqual(new Date("2025-01-09T10:00:00Z"));
+    expect(parsePublishedAt("2025-01-09 15:30")).toEqual(new Date("2025-01-09T10:00:00Z"));
+    expect(parsePublishedAt("2025-01-09")).toEqual(new Date("2025-01-08T18:30:00Z"));
+  });
+
+  it("reads day-first dates with 12- or 24-hour times", () => {
+    expect(parsePublishedAt("09/01/2025 15:30")).toEqual(new Date("2025-01-09T10:00:00Z"));
+    expect(parsePublishedAt("9-1-2025 3:30 pm IST")).toEqual(new Date("2025-01-09T10:00:00Z"));
+    expect(parsePublishedAt("09.01.2025 12:15 am")).toEqual(new Date("2025-01-08T18:45:00Z"));
+  });
+
+  it("reads relative text against the given time", () => {
+    expect(parsePublishedAt("2 hours ago", now)).toEqual(new Date(now.getTime() - 2 * HOUR_MS));
+    expect(parsePublishedAt("an hour ago", now)).toEqual(new Date(now.getTime() - HOUR_MS));
+    expect(parsePublishedAt("5 mins ago", now)).toEqual(new Date(now.getTime() - 5 * 60 * 1000));
+    expect(parsePublishedAt("Just now", now)).toEqual(now);
+    expect(parsePublishedAt("yesterday", now)).toEqual(new Date(now.getTime() - 24 * HOUR_MS));
+  });
+
+  it("returns null for impossible dates and unknown text", () => {
+    expect(parsePublishedAt("31/02/2025")).toBeNull();
+    expect(parsePublishedAt("10/01/2025 25:00")).toBeNull();
+    expect(parsePublishedAt("last Tuesday", now)).toBeNull();
+    expect(parsePublishedAt("")).toBeNull();
+  });
+});
+
+describe("resolvePublishedAt", () => {
+  const stored = { timeAgo: "2 hours ago", publishedAt: new Date(now.getTime() - 2 * HOUR_MS) };
+
+  it("keeps the earliest resolution while the text is unchanged", () => {
+    const later = new Date(now.getTime() + HOUR_MS);
+    expect(resolvePublishedAt(stored, { timeAgo: "2 hours ago", publishedAt: new Date(later.getTime() - 2 * HOUR_MS) }, later))
+      .toEqual(stored.publishedAt);
+  });
+
+  it("takes the new time when the text changes", () => {
+    const corrected = new Date(now.getTime() - 5 * HOUR_MS);
+    expect(resolvePublishedAt(stored, { timeAgo: "5 hours ago", publishedAt: corrected }, now)).toEqual(corrected);
+    expect(resolvePublishedAt(stored, { timeAgo: "" }, now)).toEqual(now);
+  });
+});
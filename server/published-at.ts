@@ -0,0 +1,73 @@
+// Parses the sheet's "published" column into a real timestamp.
+// Accepts ISO dates, dd/mm/yyyy HH:mm (IST unless an offset is given) and relative text like "2 hours ago".
+
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const RELATIVE_UNITS: [RegExp, number][] = [
+  [/^(s|sec|secs|second|seconds)$/, 1000],
+  [/^(m|min|mins|minute|minutes)$/, MINUTE_MS],
+  [/^(h|hr|hrs|hour|hours)$/, 60 * MINUTE_MS],
+  [/^(d|day|days)$/, 24 * 60 * MINUTE_MS],
+  [/^(w|wk|wks|week|weeks)$/, 7 * 24 * 60 * MINUTE_MS],
+];
+
+// Wall-clock time in India -> UTC instant
+function fromIst(year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds) - IST_OFFSET_MS);
+  // Rejects 31/02 and friends instead of letting Date roll them over
+  const check = new Date(date.getTime() + IST_OFFSET_MS);
+  return check.getUTCFullYear() === year && check.getUTCMonth() === month - 1 && check.getUTCDate() === day ? date : null;
+}
+
+function parseRelative(text: string, now: Date): Date | null {
+  if (text === "just now" || text === "now") return now;
+  if (text === "yesterday") return new Date(now.getTime() - 24 * 60 * MINUTE_MS);
+
+  const match = /^(\d+|an?)\s*([a-z]+)\s+ago$/.exec(text);
+  if (!match) return null;
+  const amount = /^\d+$/.test(match[1]) ? parseInt(match[1]) : 1;
+  const unit = RELATIVE_UNITS.find(([pattern]) => pattern.test(match[2]));
+  return unit ? new Date(now.getTime() - amount * unit[1]) : null;
+}
+
+function parseDayFirst(text: string): Date | null {
+  const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:[ ,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?)?(?:\s*ist)?$/.exec(text);
+  if (!match) return null;
+
+  let hours = match[4] ? parseInt(match[4]) : 0;
+  if (match[7] === "pm" && hours < 12) hours += 12;
+  if (match[7] === "am" && hours === 12) hours = 0;
+  if (hours > 23) return null;
+
+  return fromIst(parseInt(match[3]), parseInt(match[2]), parseInt(match[1]), hours, parseInt(match[5] || "0"), parseInt(match[6] || "0"));
+}
+
+function parseIso(text: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?(z|[+-]\d{2}:?\d{2})?$/.exec(text);
+  if (!match) return null;
+
+  if (match[7]) {
+    const date = new Date(text.toUpperCase().replace(" ", "T"));
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return fromIst(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]), parseInt(match[4] || "0"), parseInt(match[5] || "0"), parseInt(match[6] || "0"));
+}
+
+// Returns null when the text isn't a timestamp we understand; callers fall back to the sync time
+export function parsePublishedAt(text: string | null | undefined, now: Date = new Date()): Date | null {
+  const normalized = (text || "").trim().toLowerCase().replace(/\s+/g, " ");
+  if (!normalized) return null;
+  return parseIso(normalized) ?? parseDayFirst(normalized) ?? parseRelative(normalized, now);
+}
+
+// On re-sync an unchanged published text keeps the earliest resolution, since "2 hours ago" would otherwise drift forward every sync
+export function resolvePublishedAt(
+  existing: { timeAgo: string; publishedAt: Date },
+  incoming: { timeAgo: string; publishedAt?: Date },
+  now: Date,
+): Date {
+  const publishedAt = incoming.publishedAt ?? now;
+  if (incoming.timeAgo !== existing.timeAgo) return publishedAt;
+  return publishedAt < existing.publishedAt ? publishedAt : existing.publishedAt;
+}
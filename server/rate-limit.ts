@@ -0,0 +1,23 @@
+// In-process sliding window of request times per key (an IP, a user); prune() drops idle keys
+export class RequestRateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  tryHit(key: string, now: number = Date.now()): boolean {
+    const recent = (this.hits.get(key) || []).filter(time => now - time < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return true;
+  }
+
+  prune(now: number = Date.now()) {
+    Array.from(this.hits.entries()).forEach(([key, times]) => {
+      if (times.every(time => now - time >= this.windowMs)) this.hits.delete(key);
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import type { Article, ArticleFieldChange, ArticleRevision, InsertArticle, RevisionSource } from "@shared/schema";
+import { storage } from "./storage";
+
+// Every change to an article's reader-facing fields is kept as a revision: a snapshot of those fields
+// plus what changed, tagged with where the change came from. Reverting applies an older snapshot.
+
+const TRACKED_FIELDS = [
+  'title', 'content', 'titleHi', 'contentHi', 'category', 'stockSymbol', 'stockPrice', 'priceChange',
+  'exchange', 'imageUrl', 'isPremium', 'source', 'sentiment',
+] as const;
+
+// Changes to these after publication mark the story as updated for readers
+const MATERIAL_FIELDS: string[] = ['title', 'content', 'stockSymbol', 'stockPrice', 'priceChange', 'sentiment'];
+
+export class RevisionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "RevisionError";
+  }
+}
+
+export interface ArticleChange {
+  before: Article | null; // null when the article was just created
+  after: Article;
+}
+
+function snapshotArticle(article: Article): Record<string, unknown> {
+  const snapshot: Record<string, unknown> = {};
+  TRACKED_FIELDS.forEach(field => {
+    snapshot[field] = article[field];
+  });
+  return snapshot;
+}
+
+function diffArticles(before: Article, after: Article): Record<string, ArticleFieldChange> {
+  const changes: Record<string, ArticleFieldChange> = {};
+  TRACKED_FIELDS.forEach(field => {
+    if (before[field] !== after[field]) {
+      changes[field] = { from: before[field], to: after[field] };
+    }
+  });
+  return changes;
+}
+
+// Whether readers could already see the article when it changed
+function wasPublished(article: Article, now: Date): boolean {
+  return article.publishStatus === 'published' && !article.archivedAt && article.publishedAt <= now;
+}
+
+// Stores a revision for each change that touched a tracked field; returns how many were stored
+export async function recordRevisions(
+  changes: ArticleChange[],
+  source: RevisionSource,
+  options: { userId?: number; note?: string } = {},
+): Promise<number> {
+  const now = new Date();
+  const revised: number[] = [];
+  const revisions = changes.flatMap(({ before, after }) => {
+    const diff = before ? diffArticles(before, after) : {};
+    if (before && Object.keys(diff).length === 0) return [];
+
+    if (before && wasPublished(before, now) && Object.keys(diff).some(field => MATERIAL_FIELDS.includes(field))) {
+      revised.push(after.id);
+    }
+    return [{
+      articleId: after.id,
+      source,
+      userId: options.userId ?? null,
+      note: options.note ?? null,
+      changes: diff,
+      snapshot: snapshotArticle(after),
+    }];
+  });
+
+  await storage.createArticleRevisions(revisions);
+  await storage.markArticlesRevised(revised, now);
+  return revisions.length;
+}
+
+export async function listRevisions(articleId: number): Promise<ArticleRevision[]> {
+  if (!(await storage.getArticle(articleId))) {
+    throw new RevisionError("Article not found", 404);
+  }
+  return await storage.getArticleRevisions(articleId);
+}
+
+// Puts the tracked fields back as they were after the given revision, recorded as a new editor revision
+export async function revertToRevision(articleId: number, revisionId: number, userId?: number): Promise<Article> {
+  const [article, revision] = await Promise.all([storage.getArticle(articleId), storage.getArticleRevision(revisionId)]);
+  if (!article || !revision || revision.articleId !== articleId) {
+    throw new RevisionError("Revision not found", 404);
+  }
+
+  const restored: Partial<InsertArticle> = {};
+  TRACKED_FIELDS.forEach(field => {
+    // As in the editor, a source article's premium flag stays the source's
+    if (field === 'isPremium' && article.contentSource) return;
+    if (field in revision.snapshot) {
+      Object.assign(restored, { [field]: revision.snapshot[field] });
+    }
+  });
+  const updated = (await storage.updateArticle(articleId, restored))!;
+  await recordRevisions([{ before: article, after: updated }], 'editor', { userId, note: `Reverted to revision ${revisionId}` });
+  return (await storage.getArticle(articleId))!;
+}
@@ -0,0 +1,221 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { ConsoleOtpSender } from "./auth-providers";
+import { authProviders } from "./auth";
+import * as editorialService from "./editorial";
+
+let server: Server;
+let baseUrl: string;
+let otpSender: ConsoleOtpSender;
+let nextPhone = 8000000000;
+
+// One browser: keeps the session cookie between requests
+class Client {
+  cookie: string | null = null;
+
+  async request(path: string, init: { method?: string; body?: unknown } = {}) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: init.method ?? "GET",
+      headers: {
+        ...(init.body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...(this.cookie ? { Cookie: this.cookie } : {}),
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      redirect: "manual",
+    });
+    const setCookie = response.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+    return response;
+  }
+
+  async signIn(phoneNumber = String(nextPhone++)) {
+    await this.request("/api/auth/phone/request", { method: "POST", body: { phoneNumber } });
+    const { code } = otpSender.sent[otpSender.sent.length - 1];
+    const response = await this.request("/api/auth/phone/verify", { method: "POST", body: { phoneNumber, code } });
+    expect(response.status).toBe(200);
+    return phoneNumber;
+  }
+}
+
+beforeAll(async () => {
+  // registerRoutes starts the background jobs; keep their timers from firing during the tests
+  vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  otpSender = new ConsoleOtpSender();
+  authProviders.otpSender = otpSender;
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  vi.useRealTimers();
+});
+
+async function editorArticle(title: string, fields: Record<string, unknown> = {}) {
+  return await editorialService.createArticle({ title, content: `${title}, in full.`, category: "breakout", ...fields });
+}
+
+describe("GET /api/articles/:id/sources", () => {
+  it("lists the other live reports of the story", async () => {
+    const first = await editorArticle("Reliance hits record high", { publishStatus: "published" });
+    const second = await editorArticle("Reliance at record high", { publishStatus: "published" });
+    await storage.setStoryClusters([first, second].map(article => ({ articleId: article.id, storyClusterId: first.id })));
+
+    const response = await fetch(`${baseUrl}/api/articles/${first.id}/sources`);
+    expect(response.status).toBe(200);
+    expect((await response.json()).map((article: { id: number }) => article.id)).toEqual([second.id]);
+  });
+
+  it("answers 404 for articles that are not live", async () => {
+    const published = await editorArticle("Tata Motors rallies", { publishStatus: "published" });
+    const draft = await editorArticle("Tata Motors rally continues");
+    const scheduled = await editorArticle("Tata Motors results preview", {
+      publishStatus: "scheduled",
+      publishedAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+    const held = await editorArticle("Tata Motors placeholder", { publishStatus: "published" });
+    await storage.updateArticle(held.id, { contentStatus: "incomplete" });
+    const members = [published, draft, scheduled, held];
+    await storage.setStoryClusters(members.map(article => ({ articleId: article.id, storyClusterId: published.id })));
+
+    for (const article of [draft, scheduled, held]) {
+      expect((await fetch(`${baseUrl}/api/articles/${article.id}/sources`)).status).toBe(404);
+    }
+  });
+});
+
+describe("premium gating on article routes", () => {
+  it("answers 402 with a teaser for a premium article read anonymously", async () => {
+    const article = await editorArticle("HDFC Bank block deal", { publishStatus: "published", isPremium: true });
+
+    const response = await fetch(`${baseUrl}/api/articles/${article.id}`);
+    expect(response.status).toBe(402);
+    const body = await response.json();
+    expect(body).toMatchObject({ code: "PREMIUM_REQUIRED", article: { id: article.id, locked: true, content: "" } });
+  });
+
+  it("sends premium articles in the feed only as locked cards", async () => {
+    const article = await editorArticle("ICICI Bank breakout", { publishStatus: "published", isPremium: true });
+
+    const feed = await (await fetch(`${baseUrl}/api/articles`)).json();
+    const card = feed.find((item: { id: number }) => item.id === article.id);
+    expect(card).toMatchObject({ locked: true, content: "" });
+  });
+});
+
+describe("bookmarks", () => {
+  async function savedIds(client: Client) {
+    const response = await client.request("/api/bookmarks");
+    return (await response.json()).map((bookmark: { articleId: number }) => bookmark.articleId);
+  }
+
+  it("keeps a visitor's bookmarks on their own session", async () => {
+    const article = await editorArticle("Wipro buyback", { publishStatus: "published" });
+    const visitor = new Client();
+    const other = new Client();
+
+    expect((await visitor.request("/api/bookmarks", { method: "POST", body: { articleId: article.id } })).status).toBe(201);
+    await visitor.request("/api/bookmarks", { method: "POST", body: { articleId: article.id } });
+    expect(await savedIds(visitor)).toEqual([article.id]);
+    expect(await (await visitor.request(`/api/bookmarks/${article.id}/check`)).json()).toEqual({ isBookmarked: true });
+    expect(await savedIds(other)).toEqual([]);
+
+    expect((await visitor.request(`/api/bookmarks/${article.id}`, { method: "DELETE" })).status).toBe(204);
+    expect(await savedIds(visitor)).toEqual([]);
+  });
+
+  it("moves a visitor's bookmarks onto the account at sign-in, where they outlast the session", async () => {
+    const article = await editorArticle("Adani Ports volumes", { publishStatus: "published" });
+    const browser = new Client();
+    await browser.request("/api/bookmarks", { method: "POST", body: { articleId: article.id } });
+    const phone = await browser.signIn();
+    expect(await savedIds(browser)).toEqual([article.id]);
+
+    const laptop = new Client();
+    await laptop.signIn(phone);
+    expect(await savedIds(laptop)).toEqual([article.id]);
+  });
+
+  it("refuses articles that are not live and drops saved ones that stop being live", async () => {
+    const draft = await editorArticle("Draft about Titan");
+    const article = await editorArticle("Titan jewellery sales", { publishStatus: "published" });
+    const client = new Client();
+
+    expect((await client.request("/api/bookmarks", { method: "POST", body: { articleId: draft.id } })).status).toBe(404);
+    expect((await client.request("/api/bookmarks", { method: "POST", body: { articleId: 999999 } })).status).toBe(404);
+    expect((await client.request("/api/bookmarks", { method: "POST", body: { articleId: "x" } })).status).toBe(400);
+
+    await client.request("/api/bookmarks", { method: "POST", body: { articleId: article.id } });
+    await editorialService.updateArticle(article.id, { publishStatus: "draft" });
+    const saved = await (await client.request("/api/bookmarks/articles")).json();
+    expect(saved).toEqual([]);
+  });
+});
+
+describe("sessions", () => {
+  it("sets no cookie until there is something to keep", async () => {
+    const response = await fetch(`${baseUrl}/api/articles`);
+    expect(response.headers.get("set-cookie")).toBeNull();
+  });
+
+  it("issues an HTTP-only, same-site session cookie at sign-in", async () => {
+    const client = new Client();
+    const phoneNumber = String(nextPhone++);
+    await client.request("/api/auth/phone/request", { method: "POST", body: { phoneNumber } });
+    const { code } = otpSender.sent[otpSender.sent.length - 1];
+    const response = await client.request("/api/auth/phone/verify", { method: "POST", body: { phoneNumber, code } });
+
+    const setCookie = response.headers.get("set-cookie");
+    expect(setCookie).toMatch(/^stocksshorts\.sid=/);
+    expect(setCookie).toMatch(/HttpOnly/);
+    expect(setCookie).toMatch(/SameSite=Lax/);
+  });
+
+  it("gives the session a new id at sign-in", async () => {
+    const client = new Client();
+    const article = await editorArticle("Session fixation story", { publishStatus: "published" });
+    await client.request("/api/bookmarks", { method: "POST", body: { articleId: article.id } });
+    const anonymousCookie = client.cookie;
+
+    await client.signIn();
+    expect(client.cookie).not.toBe(anonymousCookie);
+
+    // The old id no longer signs anyone in
+    const attacker = new Client();
+    attacker.cookie = anonymousCookie;
+    expect((await attacker.request("/api/auth/user")).status).toBe(401);
+  });
+
+  it("signs out the current session on logout", async () => {
+    const client = new Client();
+    await client.signIn();
+    expect((await client.request("/api/auth/user")).status).toBe(200);
+    const cookie = client.cookie;
+
+    await client.request("/api/auth/logout", { method: "POST" });
+    const replay = new Client();
+    replay.cookie = cookie;
+    expect((await replay.request("/api/auth/user")).status).toBe(401);
+  });
+
+  it("signs out every device on logout-all", async () => {
+    const phone = String(nextPhone++);
+    const phoneApp = new Client();
+    const laptop = new Client();
+    await phoneApp.signIn(phone);
+    await laptop.signIn(phone);
+
+    await phoneApp.request("/api/auth/logout-all", { method: "POST" });
+    expect((await laptop.request("/api/auth/user")).status).toBe(401);
+  });
+});
@@ -1,30 +1,45 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { authStorage } from "./database-storage";
-import { insertBookmarkSchema, insertUserSchema, insertReadLaterSchema, insertUpiPaymentSchema, insertArticleViewSchema } from "@shared/schema";
+import { storage, isLive } from "./storage";
+import { contentIngestion } from "./ingestion";
+import { CsvSource } from "./source-adapters";
+import * as bookmarkService from "./bookmarks";
+import * as watchlistService from "./watchlists";
+import * as alertService from "./alerts";
+import { paymentProvider, createSubscriptionOrder, handlePaymentWebhook } from "./payments";
+import * as subscriptions from "./subscriptions";
+import * as auth from "./auth";
+import { getSubscriptionState } from "./subscription-state";
+import { checkArticleAccess, gateArticles } from "./premium-gate";
+import { collapseStoryClusters } from "./story-clusters";
+import { filterByMinMove, sortByMove } from "./prices";
+import { filterBySentiment, parseSentimentFilter } from "./sentiment";
+import { getRole, hasRole, isAdmin } from "./admin";
+import * as editorialService from "./editorial";
+import * as revisionService from "./revisions";
+import { checkTranslationQuota, localizeArticles, MAX_TRANSLATE_CHARS, parseLanguage, startTranslationJob, translateText } from "./translation";
+import { normalizeLanguage } from "./translators";
+import { FakePaymentProvider } from "./payment-providers";
+import { insertBookmarkSchema, insertUserSchema, insertReadLaterSchema, insertUpiPaymentSchema, insertArticleViewSchema, SUPPORTED_LANGUAGES, USER_ROLES, type User, type UserRole } from "@shared/schema";
 import { z } from "zod";
-import OpenAI from "openai";
-import session from "express-session";
-
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { setupSessions, startUserSession, endSession, endAllSessions, SESSION_COOKIE_NAME } from "./session";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
+  await subscriptions.ensureDefaultPlans();
+  subscriptions.startSubscriptionLifecycle();
+  contentIngestion.start();
+  editorialService.startPublishScheduler();
+  startTranslationJob();
+  auth.startAuthCodeCleanup();
+  auth.normalizeStoredContacts()
+    .then(count => { if (count > 0) console.log(`Normalized contact details for ${count} users`); })
+    .catch(error => console.error("Contact normalization failed:", error));
+  storage.classifyUnlabelledArticles()
+    .then(count => { if (count > 0) console.log(`Classified sentiment for ${count} articles`); })
+    .catch(error => console.error("Sentiment backfill failed:", error));
+
   // Session configuration
-  app.use(session({
-    secret: process.env.SESSION_SECRET || 'stock-news-secret-key-change-in-production',
-    resave: false,
-    saveUninitialized: false,
-    cookie: {
-      secure: false, // Set to true in production with HTTPS
-      httpOnly: true,
-      maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-    }
-  }));
+  setupSessions(app);
 
   // Middleware to check authentication
   const requireAuth = (req: any, res: any, next: any) => {
@@ -34,65 +49,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
-  // Authentication routes
-  app.post("/api/auth/login", async (req, res) => {
+  const requireRole = (role: UserRole) => async (req: any, res: any, next: any) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
     try {
-      const { email, phoneNumber, name, googleId } = req.body;
-      
-      if (!email && !phoneNumber) {
-        return res.status(400).json({ message: "Email or phone number required" });
-      }
-
-      let user;
-      
-      // Check if user exists
-      if (email) {
-        user = await authStorage.getUserByEmail(email);
-      } else if (phoneNumber) {
-        user = await authStorage.getUserByPhone(phoneNumber);
+      const user = await storage.getUserById(req.session.userId);
+      if (!hasRole(user, role)) {
+        return res.status(403).json({ message: role === 'admin' ? "Admin access required" : "Editor access required" });
       }
-      
-      if (googleId) {
-        const googleUser = await authStorage.getUserByGoogleId(googleId);
-        if (googleUser) user = googleUser;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+  const requireAdmin = requireRole('admin');
+  const requireEditor = requireRole('editor');
+
+  // Called once a sign-in flow has proven who the user is
+  const signIn = async (req: any, user: User) => {
+    await startUserSession(req, user);
+    await bookmarkService.mergeAnonymousBookmarks(req.session, user.id);
+    return {
+      success: true,
+      user: {
+        id: user.id,
+        email: user.email,
+        phoneNumber: user.phoneNumber,
+        name: user.name,
+        isSubscribed: user.isSubscribed
       }
+    };
+  };
 
-      // Create new user if doesn't exist
-      if (!user) {
-        user = await authStorage.createUser({
-          email,
-          phoneNumber,
-          name,
-          googleId
-        });
-      }
+  // Magic links must point at our own host, never one taken from request headers in production
+  const appBaseUrl = (req: any) => {
+    if (process.env.APP_BASE_URL) return process.env.APP_BASE_URL.replace(/\/$/, "");
+    if (process.env.NODE_ENV === "production") throw new Error("APP_BASE_URL is required in production");
+    return `${req.protocol}://${req.get("host")}`;
+  };
 
-      // Set session
-      req.session.userId = user.id;
-      
-      res.json({ 
-        success: true, 
-        user: {
-          id: user.id,
-          email: user.email,
-          phoneNumber: user.phoneNumber,
-          name: user.name,
-          isSubscribed: user.isSubscribed
-        }
-      });
+  // Authentication routes
+  app.get("/api/auth/config", (req, res) => {
+    res.json({
+      phone: !!auth.authProviders.otpSender,
+      email: !!auth.authProviders.magicLinkSender,
+      googleClientId: auth.authProviders.googleVerifier?.clientId ?? null
+    });
+  });
+
+  app.post("/api/auth/phone/request", async (req, res) => {
+    try {
+      const { phoneNumber, name } = req.body;
+      await auth.requestPhoneCode(phoneNumber, req.ip, name);
+      res.json({ success: true, expiresInSeconds: auth.OTP_TTL_MS / 1000 });
+    } catch (error: any) {
+      console.error("Request phone code error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to send code" });
+    }
+  });
+
+  app.post("/api/auth/phone/verify", async (req, res) => {
+    try {
+      const { phoneNumber, code } = req.body;
+      const user = await auth.verifyPhoneCode(phoneNumber, code);
+      res.json(await signIn(req, user));
+    } catch (error: any) {
+      console.error("Verify phone code error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/email/request", async (req, res) => {
+    try {
+      const { email, name } = req.body;
+      await auth.requestMagicLink(email, appBaseUrl(req), req.ip, name);
+      res.json({ success: true, expiresInSeconds: auth.MAGIC_LINK_TTL_MS / 1000 });
+    } catch (error: any) {
+      console.error("Request magic link error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to send sign-in link" });
+    }
+  });
+
+  // Opened from the email, so it answers with redirects rather than JSON
+  app.get("/api/auth/email/verify", async (req, res) => {
+    try {
+      const user = await auth.verifyMagicLink(String(req.query.token || ""));
+      await signIn(req, user);
+      res.redirect("/");
+    } catch (error: any) {
+      console.error("Verify magic link error:", error);
+      res.redirect(`/?auth=${error.status ? "invalid-link" : "error"}`);
+    }
+  });
+
+  app.post("/api/auth/google", async (req, res) => {
+    try {
+      const user = await auth.signInWithGoogle(req.body.idToken);
+      res.json(await signIn(req, user));
+    } catch (error: any) {
+      console.error("Google login error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Login failed" });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await endSession(req);
+      res.clearCookie(SESSION_COOKIE_NAME);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Login error:", error);
-      res.status(500).json({ message: "Login failed" });
+      console.error("Logout error:", error);
+      res.status(500).json({ message: "Logout failed" });
     }
   });
 
-  app.post("/api/auth/logout", (req: any, res) => {
-    req.session.destroy((err: any) => {
-      if (err) {
-        return res.status(500).json({ message: "Logout failed" });
-      }
+  // Signs the user out on every device by invalidating all of their sessions
+  app.post("/api/auth/logout-all", requireAuth, async (req: any, res) => {
+    try {
+      await endAllSessions(req, req.session.userId);
+      res.clearCookie(SESSION_COOKIE_NAME);
       res.json({ success: true });
-    });
+    } catch (error) {
+      console.error("Logout all error:", error);
+      res.status(500).json({ message: "Logout failed" });
+    }
   });
 
   app.get("/api/auth/user", async (req: any, res) => {
@@ -101,7 +182,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Not authenticated" });
       }
 
-      const user = await authStorage.getUserById(req.session.userId);
+      const user = await storage.getUserById(req.session.userId);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
@@ -112,7 +193,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         phoneNumber: user.phoneNumber,
         name: user.name,
         isSubscribed: user.isSubscribed,
-        subscriptionExpiry: user.subscriptionExpiry
+        subscriptionStatus: getSubscriptionState(user),
+        subscriptionPlanId: user.subscriptionPlanId,
+        subscriptionExpiry: user.subscriptionExpiry,
+        trialAvailable: subscriptions.isTrialAvailable(user),
+        role: getRole(user),
+        isAdmin: isAdmin(user)
       });
     } catch (error) {
       console.error("Get user error:", error);
@@ -120,58 +206,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Subscription plan routes
+  app.get("/api/plans", async (req, res) => {
+    try {
+      const plans = await subscriptions.getPurchasablePlans();
+      res.json(plans);
+    } catch (error) {
+      console.error("Get plans error:", error);
+      res.status(500).json({ message: "Failed to get plans" });
+    }
+  });
+
+  app.post("/api/subscriptions/trial", requireAuth, async (req: any, res) => {
+    try {
+      const user = await subscriptions.startTrial(req.session.userId);
+      res.json({
+        success: true,
+        subscriptionStatus: getSubscriptionState(user),
+        subscriptionExpiry: user.subscriptionExpiry
+      });
+    } catch (error: any) {
+      console.error("Start trial error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to start trial" });
+    }
+  });
+
+  app.post("/api/subscriptions/cancel", requireAuth, async (req: any, res) => {
+    try {
+      const user = await subscriptions.cancelSubscription(req.session.userId);
+      res.json({
+        success: true,
+        subscriptionStatus: getSubscriptionState(user),
+        subscriptionExpiry: user.subscriptionExpiry
+      });
+    } catch (error: any) {
+      console.error("Cancel subscription error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to cancel subscription" });
+    }
+  });
+
   // UPI Payment routes
   app.post("/api/payments/create-upi", requireAuth, async (req: any, res) => {
     try {
-      const { paymentMethod } = req.body;
-      const userId = req.session.userId;
-      
-      // Create UPI payment record
-      const payment = await authStorage.createUpiPayment({
-        userId,
-        amount: 1100, // INR 11 in paise
-        upiTransactionId: `UPI_${Date.now()}_${userId}`,
-        status: 'pending',
-        paymentMethod: paymentMethod || 'UPI'
-      });
+      const { paymentMethod, planId, planCode } = req.body;
+      const user = await storage.getUserById(req.session.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!paymentProvider) {
+        return res.status(503).json({ message: "Payments are not available right now" });
+      }
+
+      const plan = await subscriptions.resolvePlan(planId ? Number(planId) : undefined, planCode);
+      const { payment, checkoutUrl } = await createSubscriptionOrder(user, plan, paymentMethod || 'UPI');
 
-      // Generate UPI payment URL (this would integrate with actual UPI gateway)
-      const upiUrl = `upi://pay?pa=merchant@upi&pn=StockNewsIndia&am=11.00&cu=INR&tn=Premium Subscription&tr=${payment.upiTransactionId}`;
-      
       res.json({
         success: true,
         paymentId: payment.id,
-        upiUrl,
-        amount: 11,
+        paymentUrl: checkoutUrl,
+        planId: plan.id,
+        amount: payment.amount / 100,
         transactionId: payment.upiTransactionId
       });
-    } catch (error) {
+    } catch (error: any) {
       console.error("Create UPI payment error:", error);
-      res.status(500).json({ message: "Failed to create payment" });
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to create payment" });
     }
   });
 
+  // Payment status for the client to poll; completion only happens through the webhook
   app.post("/api/payments/verify", requireAuth, async (req: any, res) => {
     try {
-      const { paymentId, upiTransactionId } = req.body;
+      const { paymentId } = req.body;
       const userId = req.session.userId;
 
-      // In a real implementation, you would verify the payment with UPI gateway
-      // For now, we'll simulate successful payment verification
-      
-      // Update payment status
-      await authStorage.updatePaymentStatus(paymentId, 'completed', upiTransactionId);
-      
-      // Update user subscription (1 month from now)
-      const expiryDate = new Date();
-      expiryDate.setMonth(expiryDate.getMonth() + 1);
-      
-      await authStorage.updateSubscription(userId, true, expiryDate);
-      
+      const payment = (await storage.getUserPayments(userId)).find(p => p.id === Number(paymentId));
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const user = await storage.getUserById(userId);
       res.json({
-        success: true,
-        message: "Payment verified and subscription activated",
-        subscriptionExpiry: expiryDate
+        success: payment.status === 'completed',
+        status: payment.status,
+        subscriptionExpiry: user?.subscriptionExpiry ?? null
       });
     } catch (error) {
       console.error("Verify payment error:", error);
@@ -179,11 +297,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Signed server-to-server callbacks from the payment gateway
+  app.post("/api/payments/webhook/:provider", async (req, res) => {
+    try {
+      const outcome = await handlePaymentWebhook(req.params.provider, req.rawBody as Buffer | undefined, req.headers);
+      res.json({ received: true, outcome });
+    } catch (error: any) {
+      console.error("Payment webhook error:", error);
+      res.status(error.status || 500).json({ message: error.message || "Webhook processing failed" });
+    }
+  });
+
+  // Local checkout page for the fake provider: pays the order in full via a signed webhook
+  if (paymentProvider instanceof FakePaymentProvider) {
+    const fakeProvider = paymentProvider;
+    app.get("/api/payments/fake/checkout/:orderId", async (req, res) => {
+      try {
+        const payment = await storage.getPaymentByProviderOrderId(fakeProvider.name, req.params.orderId);
+        if (!payment) {
+          return res.status(404).json({ message: "Payment not found" });
+        }
+
+        const { rawBody, headers } = fakeProvider.signedWebhook({
+          eventId: `fake_event_${payment.id}`,
+          orderId: req.params.orderId,
+          paymentId: `fake_pay_${payment.id}`,
+          status: 'captured',
+          amount: payment.amount,
+          currency: payment.currency,
+        });
+        await handlePaymentWebhook(fakeProvider.name, rawBody, headers);
+        res.redirect("/");
+      } catch (error) {
+        console.error("Fake checkout error:", error);
+        res.status(500).json({ message: "Fake checkout failed" });
+      }
+    });
+  }
+
   // Read Later routes
   app.get("/api/read-later", requireAuth, async (req: any, res) => {
     try {
       const userId = req.session.userId;
-      const readLaterItems = await authStorage.getReadLater(userId);
+      const readLaterItems = await storage.getReadLater(userId);
       res.json(readLaterItems);
     } catch (error) {
       console.error("Get read later error:", error);
@@ -196,7 +352,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.session.userId;
       const { articleId } = req.body;
       
-      const readLaterItem = await authStorage.addToReadLater({
+      const readLaterItem = await storage.addToReadLater({
         userId,
         articleId
       });
@@ -213,7 +369,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.session.userId;
       const articleId = parseInt(req.params.articleId);
       
-      await authStorage.removeFromReadLater(userId, articleId);
+      await storage.removeFromReadLater(userId, articleId);
       res.json({ success: true });
     } catch (error) {
       console.error("Remove from read later error:", error);
@@ -221,302 +377,260 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Translation endpoint with OpenAI and fallback
-  app.post("/api/translate", async (req, res) => {
+  // Translation on demand; fellBack tells the client it got the original text back
+  app.post(["/api/translate", "/api/translate-openai"], async (req, res) => {
     try {
-      const { text, targetLanguage } = req.body;
-      
-      if (!text || !targetLanguage) {
-        return res.status(400).json({ message: "Text and target language are required" });
+      const { text, targetLanguage } = z.object({
+        text: z.string().min(1, "Text is required").max(MAX_TRANSLATE_CHARS, `Text is longer than ${MAX_TRANSLATE_CHARS} characters`),
+        targetLanguage: z.string().transform(normalizeLanguage).pipe(z.enum(SUPPORTED_LANGUAGES)),
+      }).parse(req.body);
+      checkTranslationQuota(req.session.userId ? `user:${req.session.userId}` : `ip:${req.ip}`);
+
+      const result = await translateText(text, targetLanguage);
+      res.json({ translatedText: result.text, provider: result.provider, fellBack: result.fellBack, reason: result.reason });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Send text and a supported target language", errors: error.errors });
       }
+      console.error("Translation error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Translation failed" });
+    }
+  });
 
-      // Try OpenAI first for high-quality translation
-      try {
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-          messages: [
-            {
-              role: "system",
-              content: `You are a professional translator specializing in financial and stock market content. Translate the given text to ${targetLanguage === "hi" ? "Hindi (Devanagari script)" : "English"} while maintaining the financial terminology and context. Keep stock symbols, percentages, and numbers in their original format. Provide natural, fluent translations that sound native.`
-            },
-            {
-              role: "user",
-              content: `Translate this financial text to ${targetLanguage === "hi" ? "Hindi" : "English"}: "${text}"`
-            }
-          ],
-          max_tokens: 2000,
-          temperature: 0.3
-        });
+  // Sync Google Sheets
+  app.post("/api/sync-sheets", async (req, res) => {
+    try {
+      // Runs in the background; a sync already in progress is followed by exactly one more
+      contentIngestion.syncInBackground();
+      res.status(202).json({ message: "Google Sheets sync queued" });
+    } catch (error) {
+      console.error("Sync sheets error:", error);
+      res.status(500).json({ message: "Failed to sync Google Sheets" });
+    }
+  });
 
-        const translatedText = response.choices[0].message.content;
-        return res.json({ translatedText });
-      } catch (aiError: any) {
-        console.log("OpenAI translation failed:", aiError.message);
-        return res.json({ translatedText: text }); // Return original text if OpenAI fails
+  // Get articles; ?lang= picks the reader language, falling back to English per article
+  app.get("/api/articles", async (req: any, res) => {
+    try {
+      const language = parseLanguage(req.query.lang);
+      const sentiment = parseSentimentFilter(req.query.sentiment);
+      const category = req.query.category as string;
+      let articles = category === watchlistService.MY_STOCKS_CATEGORY
+        ? await watchlistService.getWatchlistArticles(req.session.userId)
+        : await storage.getArticles(category);
+
+      const minMove = parseFloat(req.query.minMove as string);
+      if (Number.isFinite(minMove)) {
+        articles = filterByMinMove(articles, minMove);
+      }
+      if (req.query.sort === "move") {
+        articles = sortByMove(articles);
       }
+      // Gated first so a hidden premium report doesn't stand in for the whole story
+      const localized = await localizeArticles(articles, language);
+      let gated = await gateArticles(localized, req.session.userId);
+      // After gating, so locked teasers (which carry no sentiment) never match a filter
+      if (sentiment) {
+        gated = filterBySentiment(gated, sentiment);
+      }
+      res.json(collapseStoryClusters(gated));
+    } catch (error: any) {
+      console.error("Get articles error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to get articles" });
+    }
+  });
+
+
+
+  app.get("/api/admin/ingestion/sources", requireAdmin, async (req, res) => {
+    try {
+      res.json(await contentIngestion.getSourceNames());
     } catch (error) {
-      console.error("Translation error:", error);
-      res.status(500).json({ message: "Translation failed" });
-    }
-  });
-
-  // OpenAI translation function - ONLY source for translation
-  async function translateWithOpenAI(text: string, targetLanguage: string): Promise<string> {
-    const apiKey = process.env.OPENAI_API_KEY;
-    
-    if (!apiKey) {
-      console.error("OpenAI API key not found in environment");
-      throw new Error("OpenAI API key not found");
-    }
-
-    console.log(`Translating "${text}" to ${targetLanguage} using OpenAI`);
-
-    try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o", // Using latest model for better translation quality
-          messages: [
-            {
-              role: "system",
-              content: `You are a professional Hindi translator specializing in Indian financial and stock market terminology. Translate the given English text to Hindi (Devanagari script) while preserving the meaning and context. Keep numbers, percentages, and stock symbols unchanged. Provide only the Hindi translation without any explanations or additional text.`
-            },
-            {
-              role: "user",
-              content: `Translate this to Hindi: "${text}"`
-            }
-          ],
-          max_tokens: 500,
-          temperature: 0.1
-        })
-      });
+      console.error("Get content sources error:", error);
+      res.status(500).json({ message: "Failed to get content sources" });
+    }
+  });
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`OpenAI API error ${response.status}:`, errorText);
-        throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+  // Latest sync of one source (the first registered by default) with the outcome of every row, for editors
+  app.get("/api/admin/ingestion/latest", requireAdmin, async (req, res) => {
+    try {
+      const source = (req.query.source as string) || (await contentIngestion.getSourceNames())[0];
+      const run = source ? await storage.getLatestIngestionRun(source) : undefined;
+      if (!run) {
+        return res.status(404).json({ message: "No sync has run yet" });
       }
+      res.json(run);
+    } catch (error) {
+      console.error("Get ingestion run error:", error);
+      res.status(500).json({ message: "Failed to get ingestion report" });
+    }
+  });
 
-      const data = await response.json();
-      const translatedText = data.choices[0]?.message?.content?.trim() || text;
-      console.log(`Translation result: "${translatedText}"`);
-      return translatedText;
+  // Articles held back because their body is empty, copied or placeholder text
+  app.get("/api/admin/review", requireEditor, async (req, res) => {
+    try {
+      res.json(await storage.getIncompleteArticles());
     } catch (error) {
-      console.error("OpenAI translation error:", error);
-      throw error;
+      console.error("Get review queue error:", error);
+      res.status(500).json({ message: "Failed to get review queue" });
     }
-  }
+  });
 
-  function translateToHindi(text: string): string {
-    let translatedText = text;
-    
-    // Handle specific patterns first (most specific to least specific)
-    const specificPatterns = [
-      { pattern: /breaks out of (\d+)-year consolidation/gi, replacement: '$1 साल के कंसॉलिडेशन से ब्रेकआउट' },
-      { pattern: /breaks out of consolidation/gi, replacement: 'कंसॉलिडेशन से ब्रेकआउट' },
-      { pattern: /breaks out/gi, replacement: 'ब्रेकआउट हुआ' },
-      { pattern: /hits new record high/gi, replacement: 'नया रिकॉर्ड ऊंचा स्तर छूआ' },
-      { pattern: /hits record high/gi, replacement: 'रिकॉर्ड ऊंचाई पर पहुंचा' },
-      { pattern: /hits new high/gi, replacement: 'नई ऊंचाई छूई' },
-      { pattern: /reaches new high/gi, replacement: 'नई ऊंचाई पर पहुंचा' },
-      { pattern: /surged above/gi, replacement: 'से ऊपर उछला' },
-      { pattern: /jumped above/gi, replacement: 'से ऊपर कूदा' },
-      { pattern: /zooms (\d+)%/gi, replacement: '$1% की तेजी' },
-      { pattern: /zooms on/gi, replacement: 'पर तेजी से बढ़ा' },
-      { pattern: /(\w+) partnership news/gi, replacement: '$1 साझेदारी की खबर' },
-      { pattern: /partnership news/gi, replacement: 'साझेदारी की खबर' },
-      { pattern: /on news/gi, replacement: 'खबर पर' },
-      { pattern: /strong rally/gi, replacement: 'जबरदस्त तेजी' },
-      { pattern: /market rally/gi, replacement: 'बाजार में तेजी' },
-      { pattern: /banking rally/gi, replacement: 'बैंकिंग में तेजी' },
-      { pattern: /pharma rally/gi, replacement: 'फार्मा में तेजी' },
-      { pattern: /upper circuit/gi, replacement: 'अपर सर्किट' },
-      { pattern: /lower circuit/gi, replacement: 'लोअर सर्किट' },
-      { pattern: /52-week high/gi, replacement: '52 सप्ताह का उच्चतम' },
-      { pattern: /52-week low/gi, replacement: '52 सप्ताह का निम्नतम' },
-      { pattern: /all-time high/gi, replacement: 'सर्वकालिक उच्च' },
-      { pattern: /all time high/gi, replacement: 'सर्वकालिक उच्च' },
-      { pattern: /strong volume/gi, replacement: 'भारी वॉल्यूम' },
-      { pattern: /heavy volume/gi, replacement: 'भारी वॉल्यूम' },
-      { pattern: /with volume/gi, replacement: 'वॉल्यूम के साथ' },
-      { pattern: /buying interest/gi, replacement: 'खरीदारी में दिलचस्पी' },
-      { pattern: /selling pressure/gi, replacement: 'बिक्री का दबाव' }
-    ];
-    
-    // Apply specific patterns
-    specificPatterns.forEach(({ pattern, replacement }) => {
-      translatedText = translatedText.replace(pattern, replacement);
-    });
+  app.post("/api/admin/review/:id/approve", requireEditor, async (req, res) => {
+    try {
+      const article = await storage.approveArticleContent(parseInt(req.params.id));
+      if (!article) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+      res.json(article);
+    } catch (error) {
+      console.error("Approve article error:", error);
+      res.status(500).json({ message: "Failed to approve article" });
+    }
+  });
 
-    // Individual word translations
-    const wordTranslations: { [key: string]: string } = {
-      // Companies and brands
-      "Nifty": "निफ्टी",
-      "Sensex": "सेंसेक्स",
-      "BSE": "बीएसई",
-      "NSE": "एनएसई",
-      
-      // Financial terms
-      "stock": "स्टॉक",
-      "stocks": "स्टॉक्स",
-      "share": "शेयर",
-      "shares": "शेयर्स",
-      "market": "बाजार",
-      "markets": "बाजारों",
-      "price": "कीमत",
-      "prices": "कीमतें",
-      "value": "मूल्य",
-      "trading": "ट्रेडिंग",
-      "trade": "ट्रेड",
-      "volume": "वॉल्यूम",
-      "turnover": "टर्नओवर",
-      
-      // Movement terms
-      "surge": "उछाल",
-      "surged": "उछला",
-      "rally": "तेजी",
-      "rallied": "तेजी दिखाई",
-      "jump": "कूद",
-      "jumped": "कूदा",
-      "rise": "वृद्धि",
-      "rose": "बढ़ा",
-      "fall": "गिरावट",
-      "fell": "गिरा",
-      "drop": "गिरावट",
-      "dropped": "गिरा",
-      
-      // Levels and targets
-      "high": "उच्च",
-      "higher": "अधिक",
-      "low": "निम्न",
-      "lower": "कम",
-      "level": "स्तर",
-      "target": "लक्ष्य",
-      "resistance": "प्रतिरोध",
-      "support": "सहारा",
-      
-      // Descriptive terms
-      "strong": "मजबूत",
-      "weak": "कमजोर",
-      "positive": "सकारात्मक",
-      "negative": "नकारात्मक",
-      "bullish": "तेजी भरा",
-      "bearish": "मंदी भरा",
-      
-      // Sectors
-      "banking": "बैंकिंग",
-      "pharma": "फार्मा",
-      "auto": "ऑटो",
-      "metal": "मेटल",
-      "energy": "एनर्जी",
-      "power": "पावर",
-      "realty": "रियल्टी",
-      "FMCG": "एफएमसीजी",
-      "telecom": "टेलीकॉम",
-      
-      // Time and numbers
-      "percent": "प्रतिशत",
-      "percentage": "प्रतिशत",
-      "points": "पॉइंट्स",
-      "point": "पॉइंट",
-      "rupees": "रुपये",
-      "crores": "करोड़",
-      "today": "आज",
-      "yesterday": "कल",
-      "week": "सप्ताह",
-      "month": "महीना",
-      "year": "साल",
-      
-      // Common connectors
-      "and": "और",
-      "with": "के साथ",
-      "after": "के बाद",
-      "before": "से पहले",
-      "during": "के दौरान",
-      "above": "से ऊपर",
-      "below": "से नीचे",
-      "over": "से अधिक",
-      "under": "से कम",
-      "on": "पर",
-      "at": "में",
-      "for": "के लिए",
-      "to": "को",
-      "from": "से",
-      
-      // News and events
-      "news": "खबर",
-      "announcement": "घोषणा",
-      "partnership": "साझेदारी",
-      "deal": "डील",
-      "agreement": "समझौता",
-      "contract": "अनुबंध",
-      "launch": "लॉन्च",
-      "expansion": "विस्तार",
-      "acquisition": "अधिग्रहण",
-      "merger": "विलय",
-      
-      // Technology terms
-      "EV": "ईवी",
-      "electric": "इलेक्ट्रिक",
-      "vehicle": "वाहन",
-      "technology": "तकनीक",
-      "digital": "डिजिटल",
-      "AI": "एआई",
-      "blockchain": "ब्लॉकचेन"
-    };
+  // Editorial console: articles written or corrected in the app, including drafts and scheduled ones
+  app.get("/api/admin/articles", requireEditor, async (req, res) => {
+    try {
+      res.json(await editorialService.listArticles(req.query.status));
+    } catch (error: any) {
+      console.error("List editor articles error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to get articles" });
+    }
+  });
 
-    // Replace individual words
-    Object.entries(wordTranslations).forEach(([english, hindi]) => {
-      const regex = new RegExp(`\\b${english}\\b`, 'gi');
-      translatedText = translatedText.replace(regex, hindi);
-    });
+  app.get("/api/admin/categories", requireEditor, (req, res) => {
+    res.json(editorialService.getCategories());
+  });
 
-    // Clean up extra spaces
-    translatedText = translatedText.replace(/\s+/g, ' ').trim();
+  app.post("/api/admin/articles", requireEditor, async (req, res) => {
+    try {
+      res.status(201).json(await editorialService.createArticle(req.body, req.session.userId));
+    } catch (error: any) {
+      console.error("Create article error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to create article" });
+    }
+  });
 
-    return translatedText;
-  }
+  app.patch("/api/admin/articles/:id", requireEditor, async (req, res) => {
+    try {
+      res.json(await editorialService.updateArticle(parseInt(req.params.id), req.body, req.session.userId));
+    } catch (error: any) {
+      console.error("Update article error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to update article" });
+    }
+  });
 
-  // Sync Google Sheets
-  app.post("/api/sync-sheets", async (req, res) => {
+  app.delete("/api/admin/articles/:id", requireEditor, async (req, res) => {
     try {
-      await storage.forceSyncFromGoogleSheets();
-      res.json({ message: "Google Sheets sync triggered successfully" });
-    } catch (error) {
-      console.error("Sync sheets error:", error);
-      res.status(500).json({ message: "Failed to sync Google Sheets" });
+      await editorialService.deleteArticle(parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Delete article error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to delete article" });
     }
   });
 
-  // Get articles
-  app.get("/api/articles", async (req, res) => {
+  // Audit trail of an article: every sync, editor or system change, newest first
+  app.get("/api/admin/articles/:id/revisions", requireEditor, async (req, res) => {
     try {
-      const category = req.query.category as string;
-      const articles = await storage.getArticles(category);
-      res.json(articles);
-    } catch (error) {
-      console.error("Get articles error:", error);
-      res.status(500).json({ message: "Failed to get articles" });
+      res.json(await revisionService.listRevisions(parseInt(req.params.id)));
+    } catch (error: any) {
+      console.error("List revisions error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to get revisions" });
     }
   });
 
+  app.post("/api/admin/articles/:id/revisions/:revisionId/revert", requireEditor, async (req, res) => {
+    try {
+      res.json(await revisionService.revertToRevision(parseInt(req.params.id), parseInt(req.params.revisionId), req.session.userId));
+    } catch (error: any) {
+      console.error("Revert revision error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to revert article" });
+    }
+  });
 
+  // Grants or removes the editor/admin role by email; the account must have signed in once
+  app.put("/api/admin/users/role", requireAdmin, async (req, res) => {
+    try {
+      const { email, role } = z.object({
+        email: z.string().trim().toLowerCase().email(),
+        role: z.enum(USER_ROLES),
+      }).parse(req.body);
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(404).json({ message: "No account with that email" });
+      }
+      const updated = await storage.updateUser(user.id, { role });
+      res.json({ id: updated.id, email: updated.email, role: getRole(updated) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Enter an email and a role", errors: error.errors });
+      }
+      console.error("Update role error:", error);
+      res.status(500).json({ message: "Failed to update role" });
+    }
+  });
+
+  // CSV laid out like the sheet, sent as the raw body; re-uploading a name replaces that upload's articles
+  app.post("/api/admin/sources/csv", requireAdmin, express.text({ type: ["text/csv", "text/plain"], limit: "5mb" }), async (req, res) => {
+    try {
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "Send the CSV as a text/csv body" });
+      }
+      const source = CsvSource.fromText(`csv-${String(req.query.name || "upload").toLowerCase()}`, req.body);
+      // Surfaces header problems now rather than as a failed run
+      await source.fetchArticles();
+
+      // The sync covers every source, so the upload doesn't wait for it; the run report follows
+      await contentIngestion.addSource(source);
+      res.status(202).json({ source: source.name, message: "CSV import queued" });
+    } catch (error: any) {
+      console.error("CSV upload error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to import CSV" });
+    }
+  });
 
   // Get single article
   app.get("/api/articles/:id", async (req, res) => {
     try {
+      const language = parseLanguage(req.query.lang);
       const id = parseInt(req.params.id);
       const article = await storage.getArticle(id);
-      if (!article) {
+      // Drafts, scheduled, archived and held articles stay private, as in the feeds
+      if (!article || !isLive(article)) {
         return res.status(404).json({ message: "Article not found" });
       }
-      res.json(article);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch article" });
+
+      const [localized] = await localizeArticles([article], language);
+      const premiumRequired = await checkArticleAccess(localized, req.session.userId);
+      if (premiumRequired) {
+        return res.status(402).json(premiumRequired);
+      }
+      res.json(localized);
+    } catch (error: any) {
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to fetch article" });
+    }
+  });
+
+  // Other reports of the same story, behind the "more sources" link on a card
+  app.get("/api/articles/:id/sources", async (req, res) => {
+    try {
+      const language = parseLanguage(req.query.lang);
+      const id = parseInt(req.params.id);
+      const article = await storage.getArticle(id);
+      if (!article || !isLive(article)) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+      if (article.storyClusterId === null) {
+        return res.json([]);
+      }
+
+      const others = (await storage.getStoryClusterArticles(article.storyClusterId)).filter(other => other.id !== id);
+      res.json(await gateArticles(await localizeArticles(others, language), req.session.userId));
+    } catch (error: any) {
+      console.error("Get story sources error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to get other sources" });
     }
   });
 
@@ -532,21 +646,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get bookmarks
+  // Get bookmarks (per user, or per session before signing in)
   app.get("/api/bookmarks", async (req, res) => {
     try {
-      const bookmarks = await storage.getBookmarks();
+      const bookmarks = await bookmarkService.getBookmarks(req.session);
       res.json(bookmarks);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch bookmarks" });
     }
   });
 
+  // Get bookmarked articles for the saved articles screen
+  app.get("/api/bookmarks/articles", async (req, res) => {
+    try {
+      const language = parseLanguage(req.query.lang);
+      const articles = await bookmarkService.getBookmarkedArticles(req.session);
+      res.json(await gateArticles(await localizeArticles(articles, language), req.session.userId));
+    } catch (error: any) {
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to fetch saved articles" });
+    }
+  });
+
   // Add bookmark
   app.post("/api/bookmarks", async (req, res) => {
     try {
-      const bookmarkData = insertBookmarkSchema.parse(req.body);
-      const bookmark = await storage.addBookmark(bookmarkData);
+      const { articleId } = insertBookmarkSchema.pick({ articleId: true }).parse(req.body);
+      const article = await storage.getArticle(articleId);
+      if (!article || !isLive(article)) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+      const bookmark = await bookmarkService.addBookmark(req.session, articleId);
       res.status(201).json(bookmark);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -560,7 +689,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/bookmarks/:articleId", async (req, res) => {
     try {
       const articleId = parseInt(req.params.articleId);
-      await storage.removeBookmark(articleId);
+      await bookmarkService.removeBookmark(req.session, articleId);
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to remove bookmark" });
@@ -571,63 +700,144 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/bookmarks/:articleId/check", async (req, res) => {
     try {
       const articleId = parseInt(req.params.articleId);
-      const isBookmarked = await storage.isBookmarked(articleId);
+      const isBookmarked = await bookmarkService.isBookmarked(req.session, articleId);
       res.json({ isBookmarked });
     } catch (error) {
       res.status(500).json({ message: "Failed to check bookmark status" });
     }
   });
 
-  // Add test article (for demonstrating new article notifications)
-  app.post("/api/articles/test", async (req, res) => {
+  // Watchlist routes
+  app.get("/api/watchlist", requireAuth, async (req: any, res) => {
     try {
-      const newArticle = await storage.addTestArticle();
-      res.status(201).json(newArticle);
+      const watchlist = await watchlistService.getWatchlist(req.session.userId);
+      res.json(watchlist);
     } catch (error) {
-      res.status(500).json({ message: "Failed to add test article" });
+      console.error("Get watchlist error:", error);
+      res.status(500).json({ message: "Failed to get watchlist" });
     }
   });
 
-  // OpenAI translation endpoint
-  app.post("/api/translate-openai", async (req, res) => {
+  app.post("/api/watchlist", requireAuth, async (req: any, res) => {
     try {
-      const { text, targetLanguage } = req.body;
-      
-      if (!text || !targetLanguage) {
-        return res.status(400).json({ message: "Text and target language are required" });
-      }
+      const { stockSymbol, exchange } = req.body;
+      const entry = await watchlistService.addSymbol(req.session.userId, stockSymbol, exchange);
+      res.status(201).json(entry);
+    } catch (error: any) {
+      console.error("Add to watchlist error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to add to watchlist" });
+    }
+  });
 
-      if (!process.env.OPENAI_API_KEY) {
-        console.log("OpenAI API key not found, returning original text");
-        return res.json({ translatedText: text });
+  app.delete("/api/watchlist/:symbol", requireAuth, async (req: any, res) => {
+    try {
+      await watchlistService.removeSymbol(req.session.userId, req.params.symbol);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Remove from watchlist error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to remove from watchlist" });
+    }
+  });
+
+  // Alert rules and the in-app alert inbox
+  app.get("/api/alerts/rules", requireAuth, async (req: any, res) => {
+    try {
+      const rules = await alertService.getRules(req.session.userId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Get alert rules error:", error);
+      res.status(500).json({ message: "Failed to get alert rules" });
+    }
+  });
+
+  app.post("/api/alerts/rules", requireAuth, async (req: any, res) => {
+    try {
+      const rule = await alertService.createRule(req.session.userId, req.body);
+      res.status(201).json(rule);
+    } catch (error: any) {
+      console.error("Create alert rule error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to create alert rule" });
+    }
+  });
+
+  app.patch("/api/alerts/rules/:id", requireAuth, async (req: any, res) => {
+    try {
+      const { isActive } = req.body;
+      if (typeof isActive !== "boolean") {
+        return res.status(400).json({ message: "isActive must be true or false" });
       }
+      const rule = await alertService.setRuleActive(req.session.userId, parseInt(req.params.id), isActive);
+      res.json(rule);
+    } catch (error: any) {
+      console.error("Update alert rule error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to update alert rule" });
+    }
+  });
 
-      try {
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-          messages: [
-            {
-              role: "system",
-              content: `You are a professional translator specializing in financial and stock market content. Translate the given text to ${targetLanguage === "hi" ? "Hindi (Devanagari script)" : "English"} while maintaining the financial terminology and context. Keep stock symbols, percentages, and numbers in their original format. Provide natural, fluent translations that sound native. Return only the translation without any explanations.`
-            },
-            {
-              role: "user",
-              content: `Translate this to ${targetLanguage === "hi" ? "Hindi" : "English"}: "${text}"`
-            }
-          ],
-          max_tokens: 1000,
-          temperature: 0.2
-        });
+  app.delete("/api/alerts/rules/:id", requireAuth, async (req: any, res) => {
+    try {
+      await alertService.deleteRule(req.session.userId, parseInt(req.params.id));
+      res.status(204).send();
+    } catch (error: any) {
+      console.error("Delete alert rule error:", error);
+      res.status(error.status || 500).json({ message: error.status ? error.message : "Failed to delete alert rule" });
+    }
+  });
+
+  app.get("/api/alerts", requireAuth, async (req: any, res) => {
+    try {
+      const alerts = await alertService.getInbox(req.session.userId, req.query.unread === "true");
+      res.json(alerts);
+    } catch (error) {
+      console.error("Get alerts error:", error);
+      res.status(500).json({ message: "Failed to get alerts" });
+    }
+  });
+
+  app.get("/api/alerts/unread-count", requireAuth, async (req: any, res) => {
+    try {
+      const count = await storage.countUnreadAlerts(req.session.userId);
+      res.json({ count });
+    } catch (error) {
+      console.error("Count alerts error:", error);
+      res.status(500).json({ message: "Failed to count alerts" });
+    }
+  });
 
-        const translatedText = response.choices[0].message.content?.trim() || text;
-        return res.json({ translatedText });
-      } catch (aiError: any) {
-        console.log("OpenAI translation failed:", aiError.message);
-        return res.json({ translatedText: text });
+  // Marks the given alerts read, or the whole inbox when no ids are sent
+  app.post("/api/alerts/read", requireAuth, async (req: any, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.number().int()).optional() }).parse(req.body ?? {});
+      await storage.markAlertsRead(req.session.userId, ids);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid alert ids" });
       }
+      console.error("Mark alerts read error:", error);
+      res.status(500).json({ message: "Failed to mark alerts read" });
+    }
+  });
+
+  // Symbol autocomplete for the watchlist, drawn from ingested articles
+  app.get("/api/symbols", async (req, res) => {
+    try {
+      const suggestions = await watchlistService.suggestSymbols(req.query.q);
+      res.json(suggestions);
     } catch (error) {
-      console.error("Translation error:", error);
-      res.status(500).json({ message: "Translation failed" });
+      console.error("Symbol search error:", error);
+      res.status(500).json({ message: "Failed to search symbols" });
+    }
+  });
+
+  // Add test article (for demonstrating new article notifications); editors only, as it alerts real users
+  app.post("/api/articles/test", requireEditor, async (req, res) => {
+    try {
+      const newArticle = await storage.addTestArticle();
+      await alertService.evaluateAlerts({ insertedArticles: [newArticle], updatedArticles: [] });
+      res.status(201).json(newArticle);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add test article" });
     }
   });
 
@@ -635,7 +845,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/article-views", async (req, res) => {
     try {
       const viewData = insertArticleViewSchema.parse(req.body);
-      const view = await authStorage.recordArticleView(viewData);
+      const view = await storage.recordArticleView(viewData);
       res.json(view);
     } catch (error) {
       console.error('Error recording article view:', error);
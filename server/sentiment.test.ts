@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { classifyArticleSentiment, filterBySentiment, parseSentimentFilter } from "./sentiment";
+
+const neutralTitle = "Reliance Industries update";
+
+describe("classifyArticleSentiment", () => {
+  it("reads a clear price move on its own", () => {
+    expect(classifyArticleSentiment({ title: neutralTitle, content: "", priceChange: "+6%" })).toMatchObject({
+      sentimentLabel: "bullish",
+      sentimentSource: "price",
+      sentimentConfidence: 60,
+    });
+    expect(classifyArticleSentiment({ title: neutralTitle, content: "", priceChange: "-6%" }).sentimentLabel).toBe("bearish");
+    expect(classifyArticleSentiment({ title: neutralTitle, content: "", priceChange: "+0.2%" }).sentimentLabel).toBe("neutral");
+  });
+
+  it("reads sentiment words, weighting the headline", () => {
+    const result = classifyArticleSentiment({ title: "Tata Steel shares slump on weak demand", content: "" });
+    expect(result).toMatchObject({ sentimentLabel: "bearish", sentimentSource: "text" });
+    expect(result.sentimentReason).toContain('"slump"');
+  });
+
+  it("turns negated terms around", () => {
+    const result = classifyArticleSentiment({ title: "Infosys did not gain despite the deal", content: "" });
+    expect(result.sentimentLabel).toBe("bearish");
+    expect(result.sentimentReason).toContain('"not gain"');
+  });
+
+  it("matches whole words only", () => {
+    expect(classifyArticleSentiment({ title: "Quarterly update from the board", content: "" }).sentimentSource).toBe("none");
+  });
+
+  it("lets the editorial label win, with confidence from whether the signals agree", () => {
+    expect(classifyArticleSentiment({ title: neutralTitle, content: "", sentiment: "Positive" })).toMatchObject({
+      sentimentLabel: "bullish", sentimentSource: "editorial", sentimentConfidence: 90,
+    });
+    expect(classifyArticleSentiment({ title: neutralTitle, content: "", sentiment: "bull", priceChange: "+6%" }).sentimentConfidence).toBe(100);
+    expect(classifyArticleSentiment({ title: neutralTitle, content: "", sentiment: "bull", priceChange: "-6%" })).toMatchObject({
+      sentimentLabel: "bullish", sentimentConfidence: 70,
+    });
+  });
+
+  it("says so when there is nothing to go on", () => {
+    expect(classifyArticleSentiment({ title: neutralTitle, content: "" })).toMatchObject({
+      sentimentLabel: "neutral", sentimentConfidence: 0, sentimentSource: "none",
+    });
+  });
+});
+
+describe("sentiment filters", () => {
+  it("parses ?sentiment= and rejects unknown values", () => {
+    expect(parseSentimentFilter(undefined)).toBeNull();
+    expect(parseSentimentFilter("all")).toBeNull();
+    expect(parseSentimentFilter("Bear")).toBe("bearish");
+    expect(() => parseSentimentFilter("sideways")).toThrow("Unknown sentiment");
+  });
+
+  it("keeps articles with the label", () => {
+    const articles = [{ id: 1, sentimentLabel: "bullish" }, { id: 2, sentimentLabel: "bearish" }, { id: 3, sentimentLabel: null }];
+    expect(filterBySentiment(articles, "bullish")).toEqual([articles[0]]);
+  });
+});
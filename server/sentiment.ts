@@ -0,0 +1,200 @@
+import type { SentimentLabel } from "@shared/schema";
+import { parsePriceChangeBps, parsePricePaise } from "./prices";
+
+// One sentiment per article, worked out from three signals: the editorial label (the sheet's sentiment
+// column or an editor), the parsed price move, and the words in the title and body. An editorial label
+// always wins; otherwise the price move and the text are weighed together.
+
+export interface ArticleSentimentFields {
+  sentimentLabel: SentimentLabel;
+  sentimentConfidence: number; // 0-100
+  sentimentSource: 'editorial' | 'price' | 'text' | 'price_and_text' | 'none';
+  sentimentReason: string;
+}
+
+export class SentimentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "SentimentError";
+  }
+}
+
+const LABEL_ALIASES: Record<string, SentimentLabel> = {
+  bullish: 'bullish',
+  positive: 'bullish',
+  bull: 'bullish',
+  bearish: 'bearish',
+  negative: 'bearish',
+  bear: 'bearish',
+  neutral: 'neutral',
+};
+
+const PRICE_FLAT_BPS = 50; // moves under 0.5% read as flat
+const PRICE_FULL_BPS = 500; // a 5% move is as strong as the price signal gets
+const PRICE_WEIGHT = 0.6;
+const TEXT_WEIGHT = 0.4;
+const TEXT_FULL_HITS = 4; // this many sentiment words make the text signal fully reliable
+const LABEL_THRESHOLD = 0.2;
+const NEGATION_WINDOW = 3; // words before a term that can negate it
+const MAX_REASON_TERMS = 4;
+
+const POSITIVE_TERMS = [
+  "all-time high", "all time high", "record high", "new high", "52-week high", "upper circuit", "order win",
+  "order wins", "bags order", "breaks out", "beats estimates", "rating upgrade",
+  "surge", "surges", "surged", "soar", "soars", "soared", "rally", "rallies", "rallied", "jump", "jumps",
+  "jumped", "gain", "gains", "gained", "rise", "rises", "rose", "climb", "climbs", "climbed", "bullish",
+  "upbeat", "outperform", "outperforms", "upgrade", "upgraded", "beat", "beats", "boost", "boosts",
+  "boosted", "breakout", "growth", "profit", "profits", "strong", "robust", "record", "expansion",
+];
+
+const NEGATIVE_TERMS = [
+  "52-week low", "lower circuit", "new low", "profit booking", "misses estimates", "rating downgrade",
+  "selling pressure", "margin pressure", "under pressure",
+  "fall", "falls", "fell", "drop", "drops", "dropped", "decline", "declines", "declined", "slump",
+  "slumps", "slumped", "plunge", "plunges", "plunged", "tumble", "tumbles", "tumbled", "crash",
+  "crashes", "crashed", "slide", "slides", "slid", "sink", "sinks", "sank", "bearish", "weak", "weaker",
+  "downgrade", "downgraded", "miss", "misses", "missed", "loss", "losses", "concern", "concerns",
+  "worry", "worries", "warning", "sell-off", "selloff", "disappoint", "disappoints", "disappointing",
+  "cut", "cuts", "probe", "default",
+];
+
+const NEGATORS = new Set([
+  "not", "no", "never", "without", "fails", "failed", "unlikely", "hardly",
+  "didn't", "doesn't", "don't", "isn't", "wasn't", "aren't", "weren't", "won't",
+]);
+
+interface Term {
+  tokens: string[];
+  polarity: 1 | -1;
+}
+
+// Terms by first word, longest first, so "new high" is matched before "high" would be
+const TERMS = new Map<string, Term[]>();
+[...POSITIVE_TERMS.map(term => ({ term, polarity: 1 as const })), ...NEGATIVE_TERMS.map(term => ({ term, polarity: -1 as const }))]
+  .forEach(({ term, polarity }) => {
+    const tokens = term.split(" ");
+    const list = TERMS.get(tokens[0]) ?? [];
+    list.push({ tokens, polarity });
+    list.sort((a, b) => b.tokens.length - a.tokens.length);
+    TERMS.set(tokens[0], list);
+  });
+
+// Whole words only, so "up" never matches inside "update"
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/’/g, "'").match(/[a-z0-9]+(?:['-][a-z0-9]+)*/g) ?? [];
+}
+
+interface TextHit {
+  phrase: string;
+  polarity: 1 | -1;
+  weight: number;
+}
+
+function findSentimentTerms(text: string, weight: number): TextHit[] {
+  const tokens = tokenize(text);
+  const hits: TextHit[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const term = TERMS.get(tokens[i])?.find(candidate => candidate.tokens.every((token, j) => tokens[i + j] === token));
+    if (!term) continue;
+
+    const negated = tokens.slice(Math.max(0, i - NEGATION_WINDOW), i).some(token => NEGATORS.has(token));
+    const phrase = term.tokens.join(" ");
+    hits.push({
+      phrase: negated ? `not ${phrase}` : phrase,
+      polarity: negated ? (-term.polarity as 1 | -1) : term.polarity,
+      weight,
+    });
+    i += term.tokens.length - 1;
+  }
+  return hits;
+}
+
+function formatMove(bps: number): string {
+  return `${bps > 0 ? "+" : ""}${(bps / 100).toFixed(1)}%`;
+}
+
+// "Bull", "positive" and the like, as used in the sheet and in ?sentiment=
+export function normalizeSentimentLabel(value: string | null | undefined): SentimentLabel | null {
+  if (!value) return null;
+  return LABEL_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+// ?sentiment= for feeds: absent means no filter, anything unrecognised is a 400
+export function parseSentimentFilter(value: unknown): SentimentLabel | null {
+  if (value === undefined || value === "" || value === "all") return null;
+  const label = typeof value === "string" ? normalizeSentimentLabel(value) : null;
+  if (!label) {
+    throw new SentimentError("Unknown sentiment");
+  }
+  return label;
+}
+
+export function classifyArticleSentiment(article: {
+  title: string;
+  content: string;
+  sentiment?: string | null;
+  stockPrice?: string | null;
+  priceChange?: string | null;
+}): ArticleSentimentFields {
+  const reasons: string[] = [];
+  let weightedScore = 0;
+  let priceWeight = 0;
+  let textWeight = 0;
+
+  const bps = parsePriceChangeBps(article.priceChange, parsePricePaise(article.stockPrice));
+  if (bps !== null) {
+    const score = Math.abs(bps) < PRICE_FLAT_BPS ? 0 : Math.max(-1, Math.min(1, bps / PRICE_FULL_BPS));
+    priceWeight = PRICE_WEIGHT;
+    weightedScore += score * priceWeight;
+    reasons.push(score === 0 ? `Price flat (${formatMove(bps)})` : `Price ${formatMove(bps)}`);
+  }
+
+  // Title words count double; headlines carry the story's direction
+  const hits = [...findSentimentTerms(article.title, 2), ...findSentimentTerms(article.content, 1)];
+  const hitWeight = hits.reduce((sum, hit) => sum + hit.weight, 0);
+  if (hitWeight > 0) {
+    const score = hits.reduce((sum, hit) => sum + hit.polarity * hit.weight, 0) / hitWeight;
+    textWeight = TEXT_WEIGHT * Math.min(1, hitWeight / TEXT_FULL_HITS);
+    weightedScore += score * textWeight;
+    const phrases = Array.from(new Set(hits.map(hit => hit.phrase))).slice(0, MAX_REASON_TERMS);
+    reasons.push(`text: ${phrases.map(phrase => `"${phrase}"`).join(", ")}`);
+  }
+  const totalWeight = priceWeight + textWeight;
+
+  const combined = totalWeight > 0 ? weightedScore / totalWeight : 0;
+  const computed: SentimentLabel = combined >= LABEL_THRESHOLD ? 'bullish' : combined <= -LABEL_THRESHOLD ? 'bearish' : 'neutral';
+
+  const editorial = normalizeSentimentLabel(article.sentiment);
+  if (editorial) {
+    // The signals can only raise or lower confidence in what the editor said
+    const agrees = totalWeight === 0 || computed === editorial;
+    return {
+      sentimentLabel: editorial,
+      sentimentConfidence: totalWeight === 0 ? 90 : agrees ? 100 : 70,
+      sentimentSource: 'editorial',
+      sentimentReason: [`Editorial label "${editorial}"`, ...reasons].join("; "),
+    };
+  }
+
+  if (totalWeight === 0) {
+    return {
+      sentimentLabel: 'neutral',
+      sentimentConfidence: 0,
+      sentimentSource: 'none',
+      sentimentReason: "No editorial label, price move or sentiment words",
+    };
+  }
+
+  const strength = computed === 'neutral' ? 1 - Math.abs(combined) / LABEL_THRESHOLD : Math.abs(combined);
+  return {
+    sentimentLabel: computed,
+    sentimentConfidence: Math.round(100 * Math.min(1, totalWeight) * strength),
+    sentimentSource: priceWeight > 0 && textWeight > 0 ? 'price_and_text' : priceWeight > 0 ? 'price' : 'text',
+    sentimentReason: reasons.join("; "),
+  };
+}
+
+// ?sentiment=bullish keeps the articles classified bullish
+export function filterBySentiment<T extends { sentimentLabel: string | null }>(articles: T[], label: SentimentLabel): T[] {
+  return articles.filter(article => article.sentimentLabel === label);
+}
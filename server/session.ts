@@ -0,0 +1,126 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+    // Matches users.session_version at sign-in; a mismatch means the user signed out everywhere
+    sessionVersion: number;
+  }
+}
+
+export const SESSION_COOKIE_NAME = "stocksshorts.sid";
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const DEV_SESSION_SECRET = "stocksshorts-dev-session-secret";
+
+const isProduction = () => process.env.NODE_ENV === "production";
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (isProduction()) {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set; using the development session secret");
+  return DEV_SESSION_SECRET;
+}
+
+// Sessions live next to the rest of the data: Postgres for the database backend, memory otherwise
+export function createSessionStore(backend = process.env.STORAGE_BACKEND): session.Store {
+  const selected = backend || (process.env.DATABASE_URL ? 'database' : 'memory');
+  if (selected === 'database') {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({
+      conString: process.env.DATABASE_URL,
+      tableName: "sessions", // created by `npm run db:push` from shared/schema.ts
+      ttl: SESSION_TTL_MS / 1000,
+      pruneSessionInterval: 15 * 60,
+      errorLog: (...args: any[]) => console.error("Session store error:", ...args),
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 60 * 60 * 1000, ttl: SESSION_TTL_MS });
+}
+
+export function setupSessions(app: Express, store: session.Store = createSessionStore()) {
+  // SESSION_COOKIE_SECURE overrides the default of secure cookies in production only
+  const secure = process.env.SESSION_COOKIE_SECURE
+    ? process.env.SESSION_COOKIE_SECURE === "true"
+    : isProduction();
+
+  if (secure) {
+    // Deployments terminate TLS at a proxy; trust it so secure cookies are still set
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    name: SESSION_COOKIE_NAME,
+    secret: getSessionSecret(),
+    store,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      secure,
+      httpOnly: true,
+      sameSite: "lax",
+      maxAge: SESSION_TTL_MS,
+    },
+  }));
+
+  app.use(enforceSessionVersion);
+}
+
+// Drops the sign-in from sessions that predate a "log out of all devices"
+async function enforceSessionVersion(req: Request, res: Response, next: NextFunction) {
+  const { userId, sessionVersion } = req.session;
+  if (!userId) return next();
+
+  try {
+    const user = await storage.getUserById(userId);
+    if (!user || user.sessionVersion !== (sessionVersion ?? 0)) {
+      delete req.session.userId;
+      delete req.session.sessionVersion;
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Issues a fresh session id on sign-in so a pre-login id can't be fixated; keeps what the visitor saved anonymously
+export function startUserSession(req: Request, user: User): Promise<void> {
+  const anonymousBookmarks = req.session.anonymousBookmarks;
+
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+
+      req.session.userId = user.id;
+      req.session.sessionVersion = user.sessionVersion;
+      if (anonymousBookmarks) {
+        req.session.anonymousBookmarks = anonymousBookmarks;
+      }
+      req.session.save((saveErr) => saveErr ? reject(saveErr) : resolve());
+    });
+  });
+}
+
+export function endSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => err ? reject(err) : resolve());
+  });
+}
+
+// Invalidates every existing session for the user, including the current one
+export async function endAllSessions(req: Request, userId: number): Promise<void> {
+  const user = await storage.getUserById(userId);
+  if (user) {
+    await storage.updateUser(userId, { sessionVersion: user.sessionVersion + 1 });
+  }
+  await endSession(req);
+}
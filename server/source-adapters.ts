@@ -0,0 +1,387 @@
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import type { IngestionRowReport } from "@shared/schema";
+import {
+  assertSourceName,
+  columnLetter,
+  ContentSourceError,
+  DEFAULT_HEADER_ALIASES,
+  describeMissingHeaders,
+  mapHeaderColumns,
+  normalizeHeader,
+  parseSourceRecord,
+  REQUIRED_FIELDS,
+  sourceItemId,
+  type ContentSource,
+  type HeaderAliases,
+  type SourceArticle,
+  type SourceFetchResult,
+  type SourceField,
+  type SourceOptions,
+  type SourceRecord,
+} from "./content-source";
+
+// Adapters for sources other than Google Sheets. Each reads from an http(s) URL or a local file path,
+// so the fixtures in server/fixtures can stand in for a live feed, e.g.
+// CONTENT_FEEDS='[{"type": "rss", "name": "sample-rss", "url": "server/fixtures/sample-feed.xml"}]'
+
+const FETCH_TIMEOUT_MS = 15 * 1000;
+const MAX_CSV_ROWS = 5000;
+
+export async function readSourceText(url: string): Promise<string> {
+  if (/^https?:\/\//i.test(url)) {
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new ContentSourceError(`${url} responded with ${response.status}`, 502);
+    }
+    return await response.text();
+  }
+  return await readFile(url.replace(/^file:(\/\/)?/, ''), 'utf8');
+}
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<(br|\/p|\/div|\/li)\b[^>]*>/gi, ' ').replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Builds a fetch result from records in source order; a repeated id replaces the earlier record
+function collectRecords(
+  tab: string,
+  records: { record: SourceRecord; rowNumber: number }[],
+  columns: Partial<Record<SourceField, string>>,
+  options: SourceOptions,
+): SourceFetchResult {
+  const syncTime = new Date();
+  const reports: IngestionRowReport[] = [];
+  const parsedById = new Map<string, { article: SourceArticle; report: IngestionRowReport }>();
+
+  records.forEach(({ record, rowNumber }, index) => {
+    const parsed = parseSourceRecord(record, {
+      tab,
+      rowNumber,
+      index,
+      syncTime,
+      column: field => columns[field] ?? '-',
+      hasField: field => columns[field] !== undefined,
+      categoryMap: options.categoryMap,
+      defaultCategory: options.defaultCategory,
+    });
+    reports.push(parsed.report);
+    if (!parsed.article) return;
+
+    const earlier = parsedById.get(parsed.article.sheetId);
+    if (earlier) {
+      earlier.report.status = 'rejected';
+      earlier.report.issues.push({
+        column: columns.sheetId ?? '-',
+        problem: `Duplicate item id (also on row ${rowNumber})`,
+        action: `Skipped; row ${rowNumber} is used instead`,
+      });
+    }
+    parsedById.set(parsed.article.sheetId, { article: parsed.article, report: parsed.report });
+  });
+
+  return {
+    articles: Array.from(parsedById.values()).map(({ article }) => article),
+    rows: reports,
+    columns: { [tab]: columns },
+  };
+}
+
+// Text of the first matching element, with an optional namespace prefix (content:encoded, dc:date)
+function elementText(xml: string, names: string[]): { name: string; text: string } | null {
+  for (const name of names) {
+    const match = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'i').exec(xml);
+    if (match) {
+      const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(match[1]);
+      return { name, text: decodeEntities(cdata ? cdata[1] : match[1]).trim() };
+    }
+  }
+  return null;
+}
+
+function elementAttribute(xml: string, name: string, attribute: string): string | null {
+  const match = new RegExp(`<${name}\\s[^>]*\\b${attribute}="([^"]*)"`, 'i').exec(xml);
+  return match ? decodeEntities(match[1]) : null;
+}
+
+// RSS dates are RFC 822 ("Mon, 19 Oct 2026 10:00:00 +0530"), which parsePublishedAt doesn't read
+function toIsoDate(text: string): string {
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? text : date.toISOString();
+}
+
+// Reads RSS 2.0 <item>s and Atom <entry>s
+export class RssFeedSource implements ContentSource {
+  constructor(readonly name: string, private url: string, private options: SourceOptions & { publisher?: string } = {}) {
+    assertSourceName(name);
+  }
+
+  async fetchArticles(): Promise<SourceFetchResult> {
+    const xml = await readSourceText(this.url);
+    const isAtom = /<feed\b/i.test(xml) && !/<rss\b/i.test(xml);
+    const itemPattern = isAtom ? /<entry\b[\s\S]*?<\/entry>/gi : /<item\b[\s\S]*?<\/item>/gi;
+    const items = xml.match(itemPattern);
+    if (!items) {
+      throw new ContentSourceError(`${this.url} is not an RSS or Atom feed`);
+    }
+
+    const channel = xml.slice(0, xml.search(itemPattern));
+    const publisher = this.options.publisher ?? elementText(channel, ['title'])?.text ?? this.name;
+    const columns: Partial<Record<SourceField, string>> = isAtom
+      ? { sheetId: 'id', title: 'title', content: 'summary', category: 'category', publishedAt: 'published' }
+      : { sheetId: 'guid', title: 'title', content: 'description', category: 'category', publishedAt: 'pubDate' };
+
+    const records = items.map((item, index) => {
+      const id = elementText(item, ['guid', 'id'])?.text || elementText(item, ['link'])?.text || elementAttribute(item, 'link', 'href');
+      const content = elementText(item, ['content:encoded', 'description', 'summary', 'content']);
+      const published = elementText(item, ['pubDate', 'published', 'updated', 'dc:date']);
+      const record: SourceRecord = {
+        sheetId: id ? sourceItemId(this.name, id) : undefined,
+        title: elementText(item, ['title'])?.text,
+        content: content ? htmlToText(content.text) : undefined,
+        category: elementText(item, ['category'])?.text || elementAttribute(item, 'category', 'term') || undefined,
+        publishedAt: published ? toIsoDate(published.text) : undefined,
+        source: publisher,
+      };
+      return { record, rowNumber: index + 1 };
+    });
+
+    return collectRecords(this.name, records, columns, this.options);
+  }
+}
+
+// JSON Feed (jsonfeed.org) names, tried before the sheet header names
+const JSON_FEED_ALIASES: HeaderAliases = {
+  content: ['content text', 'content html'],
+  publishedAt: ['date published', 'date modified'],
+  category: ['tags'],
+};
+
+function jsonValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) return jsonValue(value[0]);
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+// Any JSON array of flat objects, matched to fields by key the way sheet headers are
+export class JsonFeedSource implements ContentSource {
+  constructor(
+    readonly name: string,
+    private url: string,
+    private options: SourceOptions & { itemsPath?: string; fields?: HeaderAliases } = {},
+  ) {
+    assertSourceName(name);
+  }
+
+  async fetchArticles(): Promise<SourceFetchResult> {
+    let data: any;
+    try {
+      data = JSON.parse(await readSourceText(this.url));
+    } catch (error) {
+      if (error instanceof SyntaxError) throw new ContentSourceError(`${this.url} is not valid JSON`);
+      throw error;
+    }
+
+    // itemsPath is dot-separated, e.g. "data.articles"; by default the root array or JSON Feed's "items"
+    const items = this.options.itemsPath
+      ? this.options.itemsPath.split('.').reduce((value, key) => value?.[key], data)
+      : Array.isArray(data) ? data : data?.items;
+    if (!Array.isArray(items)) {
+      throw new ContentSourceError(`${this.url} has no item list${this.options.itemsPath ? ` at "${this.options.itemsPath}"` : ''}`);
+    }
+
+    const candidates = this.matchKeys(items);
+    const missing = REQUIRED_FIELDS.filter(field => !candidates[field]);
+    if (missing.length > 0) {
+      throw new ContentSourceError(`Items in ${this.url} have no ${describeMissingHeaders(missing)} key`);
+    }
+
+    const keyColumns: Partial<Record<SourceField, string>> = {};
+    const records = items.map((item, index) => {
+      const record: SourceRecord = {};
+      (Object.keys(candidates) as SourceField[]).forEach(field => {
+        // Items differ (content_text in one, content_html in the next), so each takes its first key with a value
+        const key = candidates[field]!.find(candidate => jsonValue(item?.[candidate]) !== undefined);
+        if (key) {
+          record[field] = jsonValue(item[key]);
+          keyColumns[field] = keyColumns[field] ?? key;
+        }
+      });
+      if (record.sheetId) record.sheetId = sourceItemId(this.name, record.sheetId);
+      if (record.content && /<[a-z][^>]*>/i.test(record.content)) record.content = htmlToText(record.content);
+      return { record, rowNumber: index + 1 };
+    });
+
+    return collectRecords(this.name, records, keyColumns, this.options);
+  }
+
+  // Item keys each field can be read from, best match first; a key serves one field only
+  private matchKeys(items: any[]): Partial<Record<SourceField, string[]>> {
+    const keys: string[] = [];
+    items.forEach(item => {
+      Object.keys(item ?? {}).forEach(key => {
+        if (!keys.includes(key)) keys.push(key);
+      });
+    });
+
+    const taken = new Set<string>();
+    const candidates: Partial<Record<SourceField, string[]>> = {};
+    (Object.keys(DEFAULT_HEADER_ALIASES) as SourceField[]).forEach(field => {
+      const aliases = [...(this.options.fields?.[field] || []), ...(JSON_FEED_ALIASES[field] || []), ...DEFAULT_HEADER_ALIASES[field]];
+      const matched: string[] = [];
+      aliases.map(normalizeHeader).forEach(alias => {
+        keys.forEach(key => {
+          if (normalizeHeader(key) === alias && !taken.has(key)) {
+            matched.push(key);
+            taken.add(key);
+          }
+        });
+      });
+      if (matched.length > 0) candidates[field] = matched;
+    });
+    return candidates;
+  }
+}
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// A CSV laid out like a sheet tab: a header row, then one article per row
+export class CsvSource implements ContentSource {
+  constructor(
+    readonly name: string,
+    private load: () => Promise<string>,
+    private options: SourceOptions & { headerAliases?: HeaderAliases } = {},
+  ) {
+    assertSourceName(name);
+  }
+
+  static fromText(name: string, csv: string, options: SourceOptions = {}) {
+    return new CsvSource(name, async () => csv, options);
+  }
+
+  async fetchArticles(): Promise<SourceFetchResult> {
+    const [header = [], ...rows] = parseCsv((await this.load()).replace(/^\uFEFF/, ''));
+    if (rows.length > MAX_CSV_ROWS) {
+      throw new ContentSourceError(`CSV has ${rows.length} rows; the limit is ${MAX_CSV_ROWS}`);
+    }
+
+    const { columns, missing } = mapHeaderColumns(header, this.options.headerAliases);
+    if (missing.length > 0) {
+      throw new ContentSourceError(`CSV is missing required column(s) ${describeMissingHeaders(missing)}; found headers: ${header.join(', ') || '(none)'}`);
+    }
+
+    const letters: Partial<Record<SourceField, string>> = {};
+    (Object.keys(columns) as SourceField[]).forEach(field => {
+      letters[field] = columnLetter(columns[field]!);
+    });
+
+    const records: { record: SourceRecord; rowNumber: number }[] = [];
+    rows.forEach((row, offset) => {
+      if (row.every(cell => !cell.trim())) return; // blank spacer rows
+
+      const record: SourceRecord = {};
+      (Object.keys(columns) as SourceField[]).forEach(field => {
+        record[field] = row[columns[field]!];
+      });
+      if (record.sheetId?.trim()) record.sheetId = sourceItemId(this.name, record.sheetId.trim());
+      records.push({ record, rowNumber: offset + 2 }); // the header is row 1
+    });
+
+    return collectRecords(this.name, records, letters, this.options);
+  }
+}
+
+const feedConfigSchema = z.object({
+  type: z.enum(['rss', 'json', 'csv']),
+  name: z.string(),
+  url: z.string().min(1),
+  categoryMap: z.record(z.string()).optional(),
+  defaultCategory: z.string().optional(),
+  publisher: z.string().optional(),
+  itemsPath: z.string().optional(),
+  fields: z.record(z.array(z.string())).optional(),
+});
+
+// CONTENT_FEEDS is a JSON array of feed configs; a bad entry is logged and skipped
+export function createFeedSourcesFromEnv(): ContentSource[] {
+  if (!process.env.CONTENT_FEEDS) return [];
+
+  let configs: unknown[];
+  try {
+    configs = JSON.parse(process.env.CONTENT_FEEDS);
+    if (!Array.isArray(configs)) throw new Error('CONTENT_FEEDS must be a JSON array');
+  } catch (error) {
+    console.error('Failed to parse CONTENT_FEEDS:', error);
+    return [];
+  }
+
+  const sources: ContentSource[] = [];
+  configs.forEach((value, index) => {
+    try {
+      const config = feedConfigSchema.parse(value);
+      if (config.type === 'rss') {
+        sources.push(new RssFeedSource(config.name, config.url, config));
+      } else if (config.type === 'json') {
+        sources.push(new JsonFeedSource(config.name, config.url, config));
+      } else {
+        sources.push(new CsvSource(config.name, () => readSourceText(config.url), { ...config, headerAliases: config.fields }));
+      }
+    } catch (error) {
+      console.error(`Skipping CONTENT_FEEDS entry ${index}:`, error instanceof Error ? error.message : error);
+    }
+  });
+  return sources;
+}
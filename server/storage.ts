@@ -1,197 +1,381 @@
-import type { Article, Bookmark, InsertArticle, InsertBookmark } from "@shared/schema";
+import type {
+  Article,
+  InsertArticle,
+  Bookmark,
+  InsertBookmark,
+  User,
+  InsertUser,
+  ReadLater,
+  InsertReadLater,
+  UpiPayment,
+  InsertUpiPayment,
+  ArticleView,
+  InsertArticleView,
+  Plan,
+  InsertPlan,
+  AuthCode,
+  InsertAuthCode,
+  Watchlist,
+  InsertWatchlist,
+  StockSymbolSuggestion,
+  AlertRule,
+  InsertAlertRule,
+  Alert,
+  InsertAlert,
+  IngestionRun,
+  InsertIngestionRun,
+  ArticleRevision,
+  InsertArticleRevision,
+  Translation,
+  InsertTranslation,
+  ArticleTranslation,
+  InsertArticleTranslation,
+} from "@shared/schema";
+import { articles as articleTable } from "@shared/schema";
+import { getTableColumns } from "drizzle-orm";
+import { createHash } from "crypto";
 import { getArticleImage } from "./image-logic";
+import { pickDemoArticle } from "./demo-articles";
+import { normalizeArticlePrices } from "./prices";
+import { classifyArticleSentiment } from "./sentiment";
+import { parsePublishedAt, resolvePublishedAt } from "./published-at";
+import { DatabaseStorage } from "./database-storage";
+import type { SourceArticle } from "./content-source";
+import { getSubscriptionState, hasPremiumAccess } from "./subscription-state";
+
+export interface SourceSyncResult {
+  inserted: number;
+  updated: number;
+  archived: number;
+  // The rows as stored after the sync, for alerting and other follow-up work
+  insertedArticles: Article[];
+  updatedArticles: Article[];
+  // updatedArticles as they were before the sync, for revision history
+  previousArticles: Article[];
+}
+
+const ARTICLE_COLUMNS = new Set(Object.keys(getTableColumns(articleTable)));
+
+// Source rows also carry parsed values with no column (priceTarget), which the database drops on insert
+function pickArticleColumns(row: SourceArticle): Partial<Article> {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => ARTICLE_COLUMNS.has(key)));
+}
+
+// An editor approved a held article (it is complete but still flagged); the approval stands while
+// the title and body it was given for are unchanged
+function keepsApproval(existing: Article, row: SourceArticle): boolean {
+  return existing.contentStatus === 'complete' && existing.contentFlags.length > 0
+    && existing.title === row.title && existing.content === row.content;
+}
+
+// What sync needs to know about each stored source row to diff against the source
+export interface SourceArticleState {
+  sheetId: string;
+  sourceHash: string | null;
+  archivedAt: Date | null;
+}
+
+export type SubscriptionUpdate = Partial<Pick<InsertUser,
+  'isSubscribed' | 'subscriptionStatus' | 'subscriptionExpiry' | 'subscriptionPlanId' | 'subscriptionReminderSentAt' | 'trialStartedAt'
+>>;
+
+export type AlertRuleUpdate = Partial<Pick<InsertAlertRule, 'isActive' | 'channels' | 'thresholdBps' | 'categories'>>;
 
 export interface IStorage {
+  // User management
+  createUser(user: InsertUser): Promise<User>;
+  getUserById(id: number): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByPhone(phoneNumber: string): Promise<User | undefined>;
+  getUserByGoogleId(googleId: string): Promise<User | undefined>;
+  // Users with a phone number or email, oldest first
+  getUsersWithContactDetails(): Promise<User[]>;
+  updateUser(id: number, updates: Partial<InsertUser>): Promise<User>;
+
+  // Auth code management
+  createAuthCode(code: InsertAuthCode): Promise<AuthCode>;
+  getAuthCodeByHash(codeHash: string): Promise<AuthCode | undefined>;
+  getLatestAuthCode(channel: string, target: string): Promise<AuthCode | undefined>;
+  countAuthCodesSince(channel: string, target: string, since: Date): Promise<number>;
+  // Only counts an attempt while fewer than maxAttempts were made; returns undefined once the code is locked
+  recordAuthCodeAttempt(id: number, maxAttempts: number): Promise<AuthCode | undefined>;
+  // Only consumes an unused code; returns undefined when it was already used
+  consumeAuthCode(id: number): Promise<AuthCode | undefined>;
+  deleteExpiredAuthCodes(before: Date): Promise<number>;
+
+  // Subscription management
+  updateSubscription(userId: number, subscription: SubscriptionUpdate): Promise<User>;
+  isUserSubscribed(userId: number): Promise<boolean>;
+  getUsersBySubscriptionStatus(statuses: string[]): Promise<User[]>;
+
+  // Plan management
+  getPlans(): Promise<Plan[]>;
+  getPlan(id: number): Promise<Plan | undefined>;
+  getPlanByCode(code: string): Promise<Plan | undefined>;
+  createPlan(plan: InsertPlan): Promise<Plan>;
+
+  // Article management
   getArticles(category?: string): Promise<Article[]>;
   getArticle(id: number): Promise<Article | undefined>;
   createArticle(article: InsertArticle): Promise<Article>;
-  getBookmarks(): Promise<Bookmark[]>;
-  addBookmark(bookmark: InsertBookmark): Promise<Bookmark>;
-  removeBookmark(articleId: number): Promise<void>;
-  isBookmarked(articleId: number): Promise<boolean>;
   addTestArticle(): Promise<Article>;
-  forceSyncFromGoogleSheets(): Promise<void>;
+  getSourceArticleStates(contentSource: string): Promise<SourceArticleState[]>;
+  applySourceChanges(contentSource: string, upserts: SourceArticle[], archiveSheetIds: string[]): Promise<SourceSyncResult>;
+  getIncompleteArticles(): Promise<Article[]>;
+  approveArticleContent(articleId: number): Promise<Article | undefined>;
+  getEditorArticles(publishStatus?: string): Promise<Article[]>;
+  updateArticle(articleId: number, changes: Partial<InsertArticle>): Promise<Article | undefined>;
+  archiveArticle(articleId: number): Promise<Article | undefined>;
+  publishDueArticles(now: Date): Promise<Article[]>;
+  getClusterCandidates(since: Date): Promise<Article[]>;
+  setStoryClusters(assignments: { articleId: number; storyClusterId: number | null }[]): Promise<void>;
+  getStoryClusterArticles(storyClusterId: number): Promise<Article[]>;
   incrementViewCount(articleId: number): Promise<void>;
+
+  // Bookmark management
+  getBookmarks(userId: number): Promise<Bookmark[]>;
+  addBookmark(bookmark: InsertBookmark): Promise<Bookmark>;
+  removeBookmark(userId: number, articleId: number): Promise<void>;
+  isBookmarked(userId: number, articleId: number): Promise<boolean>;
+
+  // Watchlist management
+  getWatchlist(userId: number): Promise<Watchlist[]>;
+  // Returns the existing entry when the symbol is already on the watchlist
+  addToWatchlist(entry: InsertWatchlist): Promise<Watchlist>;
+  removeFromWatchlist(userId: number, stockSymbol: string): Promise<void>;
+  getArticlesBySymbols(stockSymbols: string[]): Promise<Article[]>;
+  searchArticleSymbols(prefix: string, limit: number): Promise<StockSymbolSuggestion[]>;
+
+  // Alert management
+  getAlertRules(userId: number): Promise<AlertRule[]>;
+  getActiveAlertRules(): Promise<AlertRule[]>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(userId: number, id: number, updates: AlertRuleUpdate): Promise<AlertRule | undefined>;
+  deleteAlertRule(userId: number, id: number): Promise<boolean>;
+  // Returns undefined when the rule has already alerted for this article
+  createAlert(alert: InsertAlert): Promise<Alert | undefined>;
+  getAlerts(userId: number, options: { unreadOnly?: boolean; limit: number }): Promise<Alert[]>;
+  countUnreadAlerts(userId: number): Promise<number>;
+  // Marks the given alerts, or all of the user's alerts when ids is omitted
+  markAlertsRead(userId: number, ids?: number[]): Promise<number>;
+
+  // Article revisions
+  createArticleRevisions(revisions: InsertArticleRevision[]): Promise<ArticleRevision[]>;
+  getArticleRevisions(articleId: number): Promise<ArticleRevision[]>;
+  getArticleRevision(id: number): Promise<ArticleRevision | undefined>;
+  markArticlesRevised(articleIds: number[], revisedAt: Date): Promise<void>;
+
+  // Translations
+  getTranslation(language: string, sourceHash: string): Promise<Translation | undefined>;
+  saveTranslation(translation: InsertTranslation): Promise<void>;
+  // Articles with no translation into the language, or one made from different text, newest first;
+  // offset pages past ones the caller is skipping
+  getArticlesNeedingTranslation(language: string, limit: number, offset?: number): Promise<Article[]>;
+  // Replaces the article's translation into translation.language
+  saveArticleTranslation(translation: InsertArticleTranslation): Promise<ArticleTranslation>;
+  getArticleTranslations(articleIds: number[], language: string): Promise<ArticleTranslation[]>;
+
+  // Sentiment
+  // Classifies articles stored before they had a sentiment label; updatedAt is left alone
+  classifyUnlabelledArticles(): Promise<number>;
+
+  // Ingestion reports
+  createIngestionRun(run: InsertIngestionRun): Promise<IngestionRun>;
+  getLatestIngestionRun(source: string): Promise<IngestionRun | undefined>;
+  // Keeps the newest `keep` runs of the source and deletes the rest
+  pruneIngestionRuns(source: string, keep: number): Promise<number>;
+
+  // Read Later management
+  getReadLater(userId: number): Promise<ReadLater[]>;
+  addToReadLater(readLater: InsertReadLater): Promise<ReadLater>;
+  removeFromReadLater(userId: number, articleId: number): Promise<void>;
+  isInReadLater(userId: number, articleId: number): Promise<boolean>;
+
+  // UPI Payment management
+  createUpiPayment(payment: InsertUpiPayment): Promise<UpiPayment>;
+  updatePaymentStatus(id: number, status: string, transactionId?: string): Promise<UpiPayment>;
+  getUserPayments(userId: number): Promise<UpiPayment[]>;
+  getPaymentByProviderOrderId(provider: string, orderId: string): Promise<UpiPayment | undefined>;
+  getPaymentByReceipt(provider: string, receipt: string): Promise<UpiPayment | undefined>;
+  // Only moves a pending payment; returns undefined when it was already settled
+  settlePayment(id: number, status: string, providerPaymentId?: string): Promise<UpiPayment | undefined>;
+
+  // Article Analytics
+  recordArticleView(view: InsertArticleView): Promise<ArticleView>;
   getTrendingArticles(): Promise<Article[]>;
 }
 
+// Stored as article_translations.sourceHash; DatabaseStorage computes the same md5 in SQL
+export function articleTextHash(article: Pick<Article, 'title' | 'content'>): string {
+  return createHash('md5').update(`${article.title}\n${article.content}`).digest('hex');
+}
+
+// Readers only see articles that are published, not archived and not held for review
+export function isLive(article: Article): boolean {
+  return !article.archivedAt && article.contentStatus === 'complete' && article.publishStatus === 'published';
+}
+
+// In-memory backend for development and tests. Mirrors DatabaseStorage semantics.
 export class MemStorage implements IStorage {
+  private users: Map<number, User>;
+  private plans: Map<number, Plan>;
+  private authCodes: Map<number, AuthCode>;
   private articles: Map<number, Article>;
   private bookmarks: Map<number, Bookmark>;
+  private watchlists: Map<number, Watchlist>;
+  private alertRules: Map<number, AlertRule>;
+  private alerts: Map<number, Alert>;
+  private ingestionRuns: Map<number, IngestionRun>;
+  private articleRevisions: Map<number, ArticleRevision>;
+  private translations: Map<string, Translation>;
+  private articleTranslations: Map<string, ArticleTranslation>;
+  private readLater: Map<number, ReadLater>;
+  private upiPayments: Map<number, UpiPayment>;
+  private articleViews: ArticleView[];
+  private currentUserId: number;
+  private currentPlanId: number;
+  private currentAuthCodeId: number;
   private currentArticleId: number;
   private currentBookmarkId: number;
-  private googleSheets: GoogleSheetsService | null = null;
-  private lastSyncTime: number = 0;
-  private syncInterval: number = 2 * 60 * 1000; // 2 minutes for fresh data
+  private currentWatchlistId: number;
+  private currentAlertRuleId: number;
+  private currentAlertId: number;
+  private currentIngestionRunId: number;
+  private currentRevisionId: number;
+  private currentTranslationId: number;
+  private currentArticleTranslationId: number;
+  private currentReadLaterId: number;
+  private currentPaymentId: number;
+  private currentViewId: number;
 
-  constructor() {
+  constructor(options: { seed?: boolean } = {}) {
+    this.users = new Map();
+    this.plans = new Map();
+    this.authCodes = new Map();
     this.articles = new Map();
     this.bookmarks = new Map();
+    this.watchlists = new Map();
+    this.alertRules = new Map();
+    this.alerts = new Map();
+    this.ingestionRuns = new Map();
+    this.articleRevisions = new Map();
+    this.translations = new Map();
+    this.articleTranslations = new Map();
+    this.readLater = new Map();
+    this.upiPayments = new Map();
+    this.articleViews = [];
+    this.currentUserId = 1;
+    this.currentPlanId = 1;
+    this.currentAuthCodeId = 1;
     this.currentArticleId = 1;
     this.currentBookmarkId = 1;
-    this.initializeGoogleSheets();
-    // Only initialize with sample data if Google Sheets is not available
-    this.initializeWithSampleDataIfNeeded();
-  }
-
-  private async initializeGoogleSheets() {
-    try {
-      // Import dynamically to avoid build issues
-      const { GoogleSheetsService } = await import('./google-sheets');
-      this.googleSheets = GoogleSheetsService.createFromEnv();
-      
-      if (this.googleSheets) {
-        console.log('Google Sheets integration enabled');
-      } else {
-        console.log('Google Sheets integration disabled - missing credentials');
-      }
-    } catch (error) {
-      console.error('Failed to initialize Google Sheets:', error);
+    this.currentWatchlistId = 1;
+    this.currentAlertRuleId = 1;
+    this.currentAlertId = 1;
+    this.currentIngestionRunId = 1;
+    this.currentRevisionId = 1;
+    this.currentTranslationId = 1;
+    this.currentArticleTranslationId = 1;
+    this.currentReadLaterId = 1;
+    this.currentPaymentId = 1;
+    this.currentViewId = 1;
+    if (options.seed !== false) {
+      this.initializeData();
     }
   }
 
-  private async initializeWithSampleDataIfNeeded() {
-    // Wait a bit for Google Sheets to initialize
-    setTimeout(async () => {
-      if (!this.googleSheets) {
-        this.initializeData();
-      } else {
-        // Try to sync from Google Sheets first
-        await this.syncFromGoogleSheets();
-        // If no articles were loaded, use sample data as fallback
-        if (this.articles.size === 0) {
-          this.initializeData();
-        }
-      }
-    }, 1000);
-  }
-
-  private async syncFromGoogleSheets(): Promise<void> {
-    if (!this.googleSheets) return;
-    
-    try {
-      console.log('Syncing articles from Google Sheets...');
-      const sheetsArticles = await this.googleSheets.fetchArticles();
-      
-      if (sheetsArticles.length > 0) {
-        // Clear existing articles and add new ones from sheets
-        this.articles.clear();
-        this.currentArticleId = 1;
-        
-        sheetsArticles.forEach((article, index) => {
-          // Check for duplicate content and generate unique content
-          const isDuplicateContent = index > 0 && sheetsArticles.some((otherArticle, otherIndex) => 
-            otherIndex < index && otherArticle.content === article.content && article.content.trim() !== ''
-          );
-          
-          if (!article.content || article.content.trim() === '' || isDuplicateContent) {
-            // Generate unique content based on article details
-            const uniqueContent = this.generateUniqueArticleContent(article.title, article.category, article.stockSymbol, article.stockPrice, article.priceChange, index);
-            article.content = uniqueContent;
-          }
-          
-          // Preserve existing view count if article already exists
-          const existingArticle = this.articles.get(article.id);
-          if (existingArticle) {
-            article.viewCount = existingArticle.viewCount || 0;
-          } else {
-            article.viewCount = 0;
-          }
-          
-          this.articles.set(article.id, article);
-          if (article.id >= this.currentArticleId) {
-            this.currentArticleId = article.id + 1;
-          }
-          
-          // Debug log for first few articles
-          if (index < 5) {
-            console.log(`Article ${article.id}: "${article.title}" - Views: ${article.viewCount}`);
-          }
-        });
-        
-        this.lastSyncTime = Date.now();
-        console.log(`Synced ${sheetsArticles.length} articles from Google Sheets`);
-      } else {
-        console.log('No articles found in Google Sheets');
-      }
-    } catch (error) {
-      console.error('Failed to sync from Google Sheets:', error);
-    }
-  }
-
-  async forceSyncFromGoogleSheets(): Promise<void> {
-    this.lastSyncTime = 0; // Force sync
-    await this.syncFromGoogleSheets();
-  }
-
   private initializeData() {
     console.log('Initializing storage with articles...');
     
-    // Add articles directly to storage
-    this.articles.set(1, {
-      id: 1,
-      title: "Nifty Hits Record High of 23,500 Points",
-      content: "The Nifty 50 index surged to a new all-time high of 23,500 points today, driven by strong buying in banking and IT stocks. Market experts attribute this rally to positive global cues and sustained FII inflows. Banking stocks led with 2.5% gains while IT sector posted strong 2.2% recovery. FII inflows of ₹2,800 crores were recorded today. The benchmark index has gained over 12% this year with consistent institutional support. Technical analysts see further upside with next resistance at 24,000 levels.",
-      category: "market",
-      stockSymbol: "NIFTY",
-      stockPrice: "23,500",
-      priceChange: "+1.8%",
-      exchange: "NSE",
-      imageUrl: "https://images.unsplash.com/photo-1611974789855-9c2a0a7236a3?w=800&h=400&fit=crop",
-      timeAgo: "5 minutes ago",
-      isPremium: false,
-      createdAt: new Date(),
-      source: null,
-      sentiment: null
-    });
-
-    this.articles.set(2, {
-      id: 2,
-      title: "HDFC Bank Call Warrants Show Strong Activity - Analysis",
-      content: "HDFC Bank call warrants are showing unprecedented activity with volumes up 340% today. Our warrant analysis reveals key strike prices and expiry strategies. 1850 CE showing highest OI buildup while implied volatility at 18-month highs. Risk-reward ratio favoring bulls above 1820 with time decay acceleration post-earnings. Institutional flow analysis indicates sustained buying. The warrants provide good leverage opportunity for traders looking to capitalize on HDFC Bank's upward momentum.",
-      category: "warrant",
-      stockSymbol: "HDFCBANK",
-      stockPrice: "1,845.30",
-      priceChange: "+2.8%",
-      exchange: "NSE",
-      imageUrl: "https://images.unsplash.com/photo-1611974789855-9c2a0a7236a3?w=800&h=400&fit=crop",
-      timeAgo: "1 hour ago",
-      isPremium: false,
-      createdAt: new Date(),
-      source: null,
-      sentiment: null
-    });
-
-    this.articles.set(3, {
-      id: 3,
-      title: "Technical Breakout: Small-Cap Pharma Stock Ready for 40% Rally",
-      content: "Our technical analysis has identified a small-cap pharmaceutical stock showing classic breakout patterns with volume confirmation. Breaking out of 18-month consolidation range with volume surge of 280% above 20-day average. RSI showing bullish divergence while moving average convergence confirms momentum. Fibonacci retracement levels provide clear targets. This breakout analysis includes entry/exit strategies and risk management guidelines for traders looking to capitalize on technical momentum.",
-      category: "breakout",
-      stockSymbol: "SMALLPHARMA",
-      stockPrice: "188.45",
-      priceChange: "+7.2%",
-      exchange: "NSE",
-      imageUrl: "https://images.unsplash.com/photo-1559757148-5c350d0d3c56?w=800&h=400&fit=crop",
-      timeAgo: "30 minutes ago",
-      isPremium: false,
-      createdAt: new Date()
-    });
+    // Added directly rather than through createArticle, which would replace their images and premium flags
+    const seedArticles = [
+      {
+        id: 1,
+        title: "Nifty Hits Record High of 23,500 Points",
+        content: "The Nifty 50 index surged to a new all-time high of 23,500 points today, driven by strong buying in banking and IT stocks. Market experts attribute this rally to positive global cues and sustained FII inflows. Banking stocks led with 2.5% gains while IT sector posted strong 2.2% recovery. FII inflows of ₹2,800 crores were recorded today. The benchmark index has gained over 12% this year with consistent institutional support. Technical analysts see further upside with next resistance at 24,000 levels.",
+        category: "market",
+        stockSymbol: "NIFTY",
+        stockPrice: "23,500",
+        priceChange: "+1.8%",
+        exchange: "NSE",
+        imageUrl: "https://images.unsplash.com/photo-1611974789855-9c2a0a7236a3?w=800&h=400&fit=crop",
+        timeAgo: "5 minutes ago",
+        isPremium: false,
+        createdAt: new Date(),
+        source: null,
+        sentiment: null
+      },
+      {
+        id: 2,
+        title: "HDFC Bank Call Warrants Show Strong Activity - Analysis",
+        content: "HDFC Bank call warrants are showing unprecedented activity with volumes up 340% today. Our warrant analysis reveals key strike prices and expiry strategies. 1850 CE showing highest OI buildup while implied volatility at 18-month highs. Risk-reward ratio favoring bulls above 1820 with time decay acceleration post-earnings. Institutional flow analysis indicates sustained buying. The warrants provide good leverage opportunity for traders looking to capitalize on HDFC Bank's upward momentum.",
+        category: "warrant",
+        stockSymbol: "HDFCBANK",
+        stockPrice: "1,845.30",
+        priceChange: "+2.8%",
+        exchange: "NSE",
+        imageUrl: "https://images.unsplash.com/photo-1611974789855-9c2a0a7236a3?w=800&h=400&fit=crop",
+        timeAgo: "1 hour ago",
+        isPremium: false,
+        createdAt: new Date(),
+        source: null,
+        sentiment: null
+      },
+      {
+        id: 3,
+        title: "Technical Breakout: Small-Cap Pharma Stock Ready for 40% Rally",
+        content: "Our technical analysis has identified a small-cap pharmaceutical stock showing classic breakout patterns with volume confirmation. Breaking out of 18-month consolidation range with volume surge of 280% above 20-day average. RSI showing bullish divergence while moving average convergence confirms momentum. Fibonacci retracement levels provide clear targets. This breakout analysis includes entry/exit strategies and risk management guidelines for traders looking to capitalize on technical momentum.",
+        category: "breakout",
+        stockSymbol: "SMALLPHARMA",
+        stockPrice: "188.45",
+        priceChange: "+7.2%",
+        exchange: "NSE",
+        imageUrl: "https://images.unsplash.com/photo-1559757148-5c350d0d3c56?w=800&h=400&fit=crop",
+        timeAgo: "30 minutes ago",
+        isPremium: false,
+        createdAt: new Date()
+      },
+      {
+        id: 4,
+        title: "Tech Mahindra Beats Q3 Estimates, Shares Jump 8%",
+        content: "Tech Mahindra reported strong Q3 results with revenue growth of 12% YoY, beating analyst estimates. The company's digital transformation business grew 25% during the quarter.\n\n**Key Financial Highlights:**\n• Revenue: ₹13,101 crores (vs est. ₹12,800 crores)\n• Net profit: ₹1,285 crores (up 15% YoY)\n• EBITDA margin: 14.2% (improvement of 180 bps)\n• Dollar revenue growth: 8.5% YoY\n• Total Contract Value (TCV) wins: $1.2 billion\n\nThe company has seen strong demand in cloud migration, cybersecurity, and AI/ML services. Management has raised FY24 guidance, expecting 10-12% revenue growth.",
+        category: "technology",
+        stockSymbol: "TECHM",
+        stockPrice: "1,245.80",
+        priceChange: "+8.2%",
+        exchange: "NSE",
+        imageUrl: "https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=800&h=400&fit=crop",
+        timeAgo: "2 hours ago",
+        isPremium: false,
+        createdAt: new Date(),
+        source: null,
+        sentiment: null
+      },
+    ];
 
-    this.articles.set(4, {
-      id: 4,
-      title: "Tech Mahindra Beats Q3 Estimates, Shares Jump 8%",
-      content: "Tech Mahindra reported strong Q3 results with revenue growth of 12% YoY, beating analyst estimates. The company's digital transformation business grew 25% during the quarter.\n\n**Key Financial Highlights:**\n• Revenue: ₹13,101 crores (vs est. ₹12,800 crores)\n• Net profit: ₹1,285 crores (up 15% YoY)\n• EBITDA margin: 14.2% (improvement of 180 bps)\n• Dollar revenue growth: 8.5% YoY\n• Total Contract Value (TCV) wins: $1.2 billion\n\nThe company has seen strong demand in cloud migration, cybersecurity, and AI/ML services. Management has raised FY24 guidance, expecting 10-12% revenue growth.",
-      category: "technology",
-      stockSymbol: "TECHM",
-      stockPrice: "1,245.80",
-      priceChange: "+8.2%",
-      exchange: "NSE",
-      imageUrl: "https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=800&h=400&fit=crop",
-      timeAgo: "2 hours ago",
-      isPremium: false,
-      createdAt: new Date(),
-      source: null,
-      sentiment: null
+    seedArticles.forEach(seed => {
+      this.articles.set(seed.id, {
+        titleHi: null,
+        contentHi: null,
+        source: null,
+        sentiment: null,
+        ...seed,
+        ...normalizeArticlePrices(seed),
+        ...classifyArticleSentiment(seed),
+        publishedAt: parsePublishedAt(seed.timeAgo, seed.createdAt) ?? seed.createdAt,
+        publishStatus: 'published',
+        pinnedAt: null,
+        revisedAt: null,
+        contentStatus: 'complete',
+        contentFlags: [],
+        sheetId: null,
+        contentSource: null,
+        sourceHash: null,
+        storyClusterId: null,
+        viewCount: 0,
+        updatedAt: seed.createdAt,
+        archivedAt: null,
+      });
     });
 
     this.currentArticleId = 5;
@@ -554,51 +738,167 @@ Experts recommend proper education and risk assessment before engaging in levera
     });
   }
 
-  async getArticles(category?: string): Promise<Article[]> {
-    // Check if we need to sync with Google Sheets
-    const now = Date.now();
-    if (this.googleSheets && (now - this.lastSyncTime > this.syncInterval || this.articles.size === 0)) {
-      await this.syncFromGoogleSheets();
+  // User management
+  async createUser(userData: InsertUser): Promise<User> {
+    const user: User = {
+      id: this.currentUserId++,
+      email: userData.email ?? null,
+      phoneNumber: userData.phoneNumber ?? null,
+      name: userData.name ?? null,
+      googleId: userData.googleId ?? null,
+      isSubscribed: userData.isSubscribed ?? false,
+      subscriptionStatus: userData.subscriptionStatus ?? 'none',
+      subscriptionExpiry: userData.subscriptionExpiry ?? null,
+      subscriptionPlanId: userData.subscriptionPlanId ?? null,
+      subscriptionReminderSentAt: userData.subscriptionReminderSentAt ?? null,
+      trialStartedAt: userData.trialStartedAt ?? null,
+      sessionVersion: userData.sessionVersion ?? 0,
+      upiTransactionId: userData.upiTransactionId ?? null,
+      role: userData.role ?? 'reader',
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getUserById(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async getUserByPhone(phoneNumber: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.phoneNumber === phoneNumber);
+  }
+
+  async getUserByGoogleId(googleId: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.googleId === googleId);
+  }
+
+  async getUsersWithContactDetails(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.phoneNumber || user.email)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateUser(id: number, updates: Partial<InsertUser>): Promise<User> {
+    const user = this.users.get(id);
+    if (!user) {
+      throw new Error(`User ${id} not found`);
     }
-    
-    // Debug: Check if articles exist
-    console.log('Articles in storage:', this.articles.size);
-    
-    const allArticles = Array.from(this.articles.values());
-    
-    // If category is specified, filter by that category
-    if (category && category !== "all" && category !== "trending") {
-      const filteredArticles = allArticles.filter(article => article.category === category);
-      return filteredArticles.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const updated: User = { ...user, ...updates };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  // Auth code management
+  async createAuthCode(codeData: InsertAuthCode): Promise<AuthCode> {
+    const code: AuthCode = {
+      id: this.currentAuthCodeId++,
+      name: null,
+      ...codeData,
+      attempts: 0,
+      consumedAt: null,
+      createdAt: new Date(),
+    };
+    this.authCodes.set(code.id, code);
+    return code;
+  }
+
+  async getAuthCodeByHash(codeHash: string): Promise<AuthCode | undefined> {
+    return Array.from(this.authCodes.values()).find(code => code.codeHash === codeHash);
+  }
+
+  async getLatestAuthCode(channel: string, target: string): Promise<AuthCode | undefined> {
+    return Array.from(this.authCodes.values())
+      .filter(code => code.channel === channel && code.target === target && !code.consumedAt)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async countAuthCodesSince(channel: string, target: string, since: Date): Promise<number> {
+    return Array.from(this.authCodes.values())
+      .filter(code => code.channel === channel && code.target === target && code.createdAt >= since)
+      .length;
+  }
+
+  async recordAuthCodeAttempt(id: number, maxAttempts: number): Promise<AuthCode | undefined> {
+    const code = this.authCodes.get(id);
+    if (!code || code.attempts >= maxAttempts) return undefined;
+    const updated = { ...code, attempts: code.attempts + 1 };
+    this.authCodes.set(id, updated);
+    return updated;
+  }
+
+  async consumeAuthCode(id: number): Promise<AuthCode | undefined> {
+    const code = this.authCodes.get(id);
+    if (!code || code.consumedAt) {
+      return undefined;
     }
-    
-    // For "trending", return articles sorted by view count first, then other factors
-    if (category === "trending") {
+    const consumed = { ...code, consumedAt: new Date() };
+    this.authCodes.set(id, consumed);
+    return consumed;
+  }
+
+  async deleteExpiredAuthCodes(before: Date): Promise<number> {
+    const expired = Array.from(this.authCodes.values()).filter(code => code.expiresAt < before);
+    expired.forEach(code => this.authCodes.delete(code.id));
+    return expired.length;
+  }
+
+  // Subscription management
+  async updateSubscription(userId: number, subscription: SubscriptionUpdate): Promise<User> {
+    return await this.updateUser(userId, subscription);
+  }
+
+  async isUserSubscribed(userId: number): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user) return false;
+    return hasPremiumAccess(getSubscriptionState(user));
+  }
+
+  async getUsersBySubscriptionStatus(statuses: string[]): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => statuses.includes(user.subscriptionStatus));
+  }
+
+  // Plan management
+  async getPlans(): Promise<Plan[]> {
+    return Array.from(this.plans.values()).sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+
+  async getPlan(id: number): Promise<Plan | undefined> {
+    return this.plans.get(id);
+  }
+
+  async getPlanByCode(code: string): Promise<Plan | undefined> {
+    return Array.from(this.plans.values()).find(plan => plan.code === code);
+  }
+
+  async createPlan(planData: InsertPlan): Promise<Plan> {
+    const plan: Plan = {
+      id: this.currentPlanId++,
+      currency: 'INR',
+      isTrial: false,
+      isActive: true,
+      sortOrder: 0,
+      ...planData,
+      createdAt: new Date(),
+    };
+    this.plans.set(plan.id, plan);
+    return plan;
+  }
+
+  // Article management
+  async getArticles(category?: string): Promise<Article[]> {
+    if (category === 'trending') {
       return this.getTrendingArticles();
     }
-    
-    // Return articles in specific order: nifty (index), breakout, ipo, warrant, then everything else
-    const niftyArticles = allArticles.filter(a => a.category === 'nifty');
-    const breakoutArticles = allArticles.filter(a => a.category === 'breakout');
-    const ipoArticles = allArticles.filter(a => a.category === 'ipo');
-    const smeIpoArticles = allArticles.filter(a => a.category === 'sme ipo');
-    const warrantArticles = allArticles.filter(a => a.category === 'warrant');
-    const otherArticles = allArticles.filter(a => 
-      !['nifty', 'breakout', 'ipo', 'sme ipo', 'warrant'].includes(a.category)
-    );
-    
-    // Sort each category by creation date
-    const sortByDate = (articles: Article[]) => 
-      articles.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-    
-    return [
-      ...sortByDate(niftyArticles),
-      ...sortByDate(breakoutArticles),
-      ...sortByDate(ipoArticles),
-      ...sortByDate(smeIpoArticles),
-      ...sortByDate(warrantArticles),
-      ...sortByDate(otherArticles)
-    ];
+
+    return Array.from(this.articles.values())
+      .filter(isLive)
+      .filter(article => !category || category === 'all' || article.category === category)
+      .sort((a, b) => (b.pinnedAt?.getTime() ?? 0) - (a.pinnedAt?.getTime() ?? 0) || b.publishedAt.getTime() - a.publishedAt.getTime());
   }
 
   async getArticle(id: number): Promise<Article | undefined> {
@@ -618,21 +918,223 @@ Experts recommend proper education and risk assessment before engaging in levera
         stockSymbol: insertArticle.stockSymbol
       }),
       timeAgo: insertArticle.timeAgo,
+      publishedAt: insertArticle.publishedAt ?? new Date(),
+      publishStatus: insertArticle.publishStatus ?? 'published',
+      pinnedAt: insertArticle.pinnedAt ?? null,
+      revisedAt: null,
       stockSymbol: insertArticle.stockSymbol ?? null,
       stockPrice: insertArticle.stockPrice ?? null,
       priceChange: insertArticle.priceChange ?? null,
+      ...normalizeArticlePrices(insertArticle),
       exchange: insertArticle.exchange ?? null,
-      isPremium: false,
+      titleHi: insertArticle.titleHi ?? null,
+      contentHi: insertArticle.contentHi ?? null,
+      // Set isPremium to true for warrant and breakout categories
+      isPremium: insertArticle.category === 'warrant' || insertArticle.category === 'breakout',
       createdAt: new Date(),
-      source: null,
-      sentiment: null,
+      source: insertArticle.source ?? null,
+      sentiment: insertArticle.sentiment ?? null,
+      ...classifyArticleSentiment(insertArticle),
+      contentStatus: insertArticle.contentStatus ?? 'complete',
+      contentFlags: insertArticle.contentFlags ?? [],
+      sheetId: insertArticle.sheetId ?? null,
+      contentSource: null,
+      sourceHash: insertArticle.sourceHash ?? null,
+      storyClusterId: null,
+      viewCount: 0,
+      updatedAt: new Date(),
+      archivedAt: null,
     };
     this.articles.set(article.id, article);
     return article;
   }
 
-  async getBookmarks(): Promise<Bookmark[]> {
-    return Array.from(this.bookmarks.values());
+  // Add sample new article for testing notification system
+  async addTestArticle(): Promise<Article> {
+    return await this.createArticle(pickDemoArticle());
+  }
+
+  async getSourceArticleStates(contentSource: string): Promise<SourceArticleState[]> {
+    const states: SourceArticleState[] = [];
+    this.articles.forEach(article => {
+      if (article.sheetId && article.contentSource === contentSource) {
+        states.push({ sheetId: article.sheetId, sourceHash: article.sourceHash, archivedAt: article.archivedAt });
+      }
+    });
+    return states;
+  }
+
+  async applySourceChanges(contentSource: string, upserts: SourceArticle[], archiveSheetIds: string[]): Promise<SourceSyncResult> {
+    const now = new Date();
+    const bySheetId = new Map<string, Article>();
+    this.articles.forEach(article => {
+      if (article.sheetId) bySheetId.set(article.sheetId, article);
+    });
+
+    const insertedArticles = new Map<string, Article>();
+    const updatedArticles = new Map<string, Article>();
+    const previousArticles = new Map<string, Article>();
+    upserts.forEach(row => {
+      const columns = pickArticleColumns(row);
+      const existing = bySheetId.get(row.sheetId);
+      if (existing) {
+        if (!insertedArticles.has(row.sheetId) && !previousArticles.has(row.sheetId)) {
+          previousArticles.set(row.sheetId, existing);
+        }
+        // Keep id, createdAt and viewCount so bookmarks and views survive syncs
+        const article: Article = {
+          ...existing,
+          ...columns,
+          ...normalizeArticlePrices(row),
+          ...classifyArticleSentiment(row),
+          publishedAt: resolvePublishedAt(existing, row, now),
+          contentStatus: keepsApproval(existing, row) ? 'complete' : columns.contentStatus ?? existing.contentStatus,
+          titleHi: existing.titleHi,
+          contentHi: existing.contentHi,
+          contentSource,
+          updatedAt: now,
+          archivedAt: null,
+        } as Article;
+        this.articles.set(existing.id, article);
+        bySheetId.set(row.sheetId, article);
+        (insertedArticles.has(row.sheetId) ? insertedArticles : updatedArticles).set(row.sheetId, article);
+      } else {
+        const article: Article = {
+          id: this.currentArticleId++,
+          stockSymbol: null,
+          stockPrice: null,
+          priceChange: null,
+          exchange: null,
+          titleHi: null,
+          contentHi: null,
+          isPremium: false,
+          source: null,
+          sentiment: null,
+          contentStatus: 'complete',
+          contentFlags: [],
+          sourceHash: null,
+          storyClusterId: null,
+          publishStatus: 'published',
+          pinnedAt: null,
+          revisedAt: null,
+          ...columns,
+          ...normalizeArticlePrices(row),
+          ...classifyArticleSentiment(row),
+          publishedAt: row.publishedAt ?? now,
+          contentSource,
+          viewCount: 0,
+          createdAt: now,
+          updatedAt: now,
+          archivedAt: null,
+        } as Article;
+        this.articles.set(article.id, article);
+        bySheetId.set(row.sheetId, article);
+        insertedArticles.set(row.sheetId, article);
+      }
+    });
+
+    let archived = 0;
+    archiveSheetIds.forEach(sheetId => {
+      const article = bySheetId.get(sheetId);
+      if (article && article.contentSource === contentSource && !article.archivedAt) {
+        this.articles.set(article.id, { ...article, archivedAt: now });
+        archived++;
+      }
+    });
+
+    return {
+      inserted: insertedArticles.size,
+      updated: updatedArticles.size,
+      archived,
+      insertedArticles: Array.from(insertedArticles.values()),
+      updatedArticles: Array.from(updatedArticles.values()),
+      previousArticles: Array.from(previousArticles.values()),
+    };
+  }
+
+  async getIncompleteArticles(): Promise<Article[]> {
+    return Array.from(this.articles.values())
+      .filter(article => !article.archivedAt && article.contentStatus === 'incomplete')
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+  }
+
+  async approveArticleContent(articleId: number): Promise<Article | undefined> {
+    const article = this.articles.get(articleId);
+    if (!article) return undefined;
+
+    const approved = { ...article, contentStatus: 'complete', updatedAt: new Date() };
+    this.articles.set(articleId, approved);
+    return approved;
+  }
+
+  // Every article an editor can still work on, drafts and scheduled ones included
+  async getEditorArticles(publishStatus?: string): Promise<Article[]> {
+    return Array.from(this.articles.values())
+      .filter(article => !article.archivedAt && (!publishStatus || article.publishStatus === publishStatus))
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+  }
+
+  async updateArticle(articleId: number, changes: Partial<InsertArticle>): Promise<Article | undefined> {
+    const existing = this.articles.get(articleId);
+    if (!existing) return undefined;
+
+    const merged = { ...existing, ...changes };
+    const article = { ...merged, ...normalizeArticlePrices(merged), ...classifyArticleSentiment(merged), updatedAt: new Date() } as Article;
+    this.articles.set(articleId, article);
+    return article;
+  }
+
+  async archiveArticle(articleId: number): Promise<Article | undefined> {
+    const article = this.articles.get(articleId);
+    if (!article) return undefined;
+
+    const archived = { ...article, archivedAt: new Date() };
+    this.articles.set(articleId, archived);
+    return archived;
+  }
+
+  async publishDueArticles(now: Date): Promise<Article[]> {
+    const published: Article[] = [];
+    this.articles.forEach(article => {
+      if (article.publishStatus === 'scheduled' && !article.archivedAt && article.publishedAt <= now) {
+        const updated = { ...article, publishStatus: 'published', updatedAt: now };
+        this.articles.set(article.id, updated);
+        published.push(updated);
+      }
+    });
+    return published;
+  }
+
+  // Live, published articles the story clustering looks at
+  async getClusterCandidates(since: Date): Promise<Article[]> {
+    return Array.from(this.articles.values())
+      .filter(article => isLive(article) && article.publishedAt >= since);
+  }
+
+  async setStoryClusters(assignments: { articleId: number; storyClusterId: number | null }[]): Promise<void> {
+    assignments.forEach(({ articleId, storyClusterId }) => {
+      const article = this.articles.get(articleId);
+      if (article) this.articles.set(articleId, { ...article, storyClusterId });
+    });
+  }
+
+  async getStoryClusterArticles(storyClusterId: number): Promise<Article[]> {
+    return Array.from(this.articles.values())
+      .filter(article => article.storyClusterId === storyClusterId && isLive(article))
+      .sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  }
+
+  async incrementViewCount(articleId: number): Promise<void> {
+    const article = this.articles.get(articleId);
+    if (article) {
+      article.viewCount = (article.viewCount || 0) + 1;
+      this.articles.set(articleId, article);
+    }
+  }
+
+  // Bookmark management
+  async getBookmarks(userId: number): Promise<Bookmark[]> {
+    return Array.from(this.bookmarks.values()).filter(bookmark => bookmark.userId === userId);
   }
 
   async addBookmark(insertBookmark: InsertBookmark): Promise<Bookmark> {
@@ -645,139 +1147,403 @@ Experts recommend proper education and risk assessment before engaging in levera
     return bookmark;
   }
 
-  async removeBookmark(articleId: number): Promise<void> {
-    for (const [id, bookmark] of this.bookmarks.entries()) {
-      if (bookmark.articleId === articleId) {
+  async removeBookmark(userId: number, articleId: number): Promise<void> {
+    this.bookmarks.forEach((bookmark, id) => {
+      if (bookmark.userId === userId && bookmark.articleId === articleId) {
         this.bookmarks.delete(id);
-        break;
       }
-    }
+    });
   }
 
-  async isBookmarked(articleId: number): Promise<boolean> {
-    for (const bookmark of this.bookmarks.values()) {
-      if (bookmark.articleId === articleId) {
-        return true;
-      }
-    }
-    return false;
+  async isBookmarked(userId: number, articleId: number): Promise<boolean> {
+    return Array.from(this.bookmarks.values()).some(bookmark =>
+      bookmark.userId === userId && bookmark.articleId === articleId
+    );
   }
 
-  // Add sample new article for testing notification system
-  private generateUniqueArticleContent(title: string, category: string, stockSymbol?: string, stockPrice?: string, priceChange?: string, index?: number): string {
-    const contentVariations = [
-      `${title} - Market analysis reveals significant developments in the ${category} sector. `,
-      `Breaking: ${title} has emerged as a key market story today. `,
-      `${title} represents important movements in current market dynamics. `,
-      `Latest update on ${title} shows evolving trends in the ${category} space. `,
-      `${title} captures investor attention with notable market implications. `
-    ];
-    
-    const additionalInsights = [
-      'Technical indicators suggest continued momentum with strong volume support.',
-      'Fundamental analysis reveals robust growth prospects and market positioning.',
-      'Institutional activity indicates sustained interest from major market participants.',
-      'Sector rotation patterns highlight potential opportunities for strategic investors.',
-      'Market sentiment remains positive with favorable risk-reward dynamics.'
-    ];
-    
-    const baseContent = contentVariations[index % contentVariations.length];
-    const insight = additionalInsights[index % additionalInsights.length];
-    
-    let stockDetails = '';
-    if (stockSymbol && stockPrice) {
-      stockDetails = ` ${stockSymbol} is currently trading at ${stockPrice}`;
-      if (priceChange) {
-        stockDetails += ` showing ${priceChange} movement`;
+  // Watchlist management
+  async getWatchlist(userId: number): Promise<Watchlist[]> {
+    return Array.from(this.watchlists.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => a.stockSymbol.localeCompare(b.stockSymbol));
+  }
+
+  async addToWatchlist(entryData: InsertWatchlist): Promise<Watchlist> {
+    const existing = Array.from(this.watchlists.values()).find(entry =>
+      entry.userId === entryData.userId && entry.stockSymbol === entryData.stockSymbol
+    );
+    if (existing) return existing;
+
+    const entry: Watchlist = {
+      id: this.currentWatchlistId++,
+      exchange: null,
+      ...entryData,
+      createdAt: new Date(),
+    };
+    this.watchlists.set(entry.id, entry);
+    return entry;
+  }
+
+  async removeFromWatchlist(userId: number, stockSymbol: string): Promise<void> {
+    this.watchlists.forEach((entry, id) => {
+      if (entry.userId === userId && entry.stockSymbol === stockSymbol) {
+        this.watchlists.delete(id);
       }
-      stockDetails += ' in the current session.';
-    }
-    
-    return baseContent + insight + stockDetails + ' Traders and investors are monitoring these developments for potential market opportunities.';
+    });
   }
 
-  async addTestArticle(): Promise<Article> {
-    const testArticles = [
-      {
-        title: "Breaking: Sensex Crosses 80,000 Mark in Historic Rally",
-        content: `Indian stock markets witnessed historic milestone as BSE Sensex crossed 80,000 points for first time ever. The benchmark index surged 2.1% driven by strong buying in banking, IT and pharma sectors. Market experts attribute the rally to positive Q4 earnings, FII inflows and optimistic economic outlook. Banking giants HDFC Bank, ICICI Bank and SBI contributed significantly to the gains. IT majors TCS, Infosys showed strong momentum on cloud computing demand. Pharma sector led by Sun Pharma, Dr Reddy's gained on export opportunities. Market breadth remained positive with advancing stocks outnumbering decliners 3:1. Trading volumes increased substantially indicating broad-based participation.`,
-        category: "nifty",
-        stockSymbol: "SENSEX",
-        stockPrice: "₹80,125",
-        priceChange: "+2.1%",
-        exchange: "BSE",
-        imageUrl: "https://images.unsplash.com/photo-1611974789855-9c2a0a7236a3?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=600",
-        timeAgo: "Just now"
-      },
-      {
-        title: "Reliance Industries Announces Major Green Energy Investment",
-        content: `Reliance Industries announced ₹75,000 crore investment in renewable energy over next 3 years. The conglomerate plans to establish solar manufacturing, battery storage and green hydrogen facilities. RIL shares jumped 4.2% on the announcement with market cap crossing ₹18 lakh crore. Chairman Mukesh Ambani outlined ambitious targets for carbon neutrality by 2035. The investment includes partnerships with global technology leaders for advanced manufacturing capabilities. Analysts upgraded target price citing strong fundamentals and growth prospects. The move positions RIL as major player in India's energy transition story.`,
-        category: "breakout",
-        stockSymbol: "RELIANCE",
-        stockPrice: "₹2,845",
-        priceChange: "+4.2%",
-        exchange: "NSE",
-        imageUrl: "https://images.unsplash.com/photo-1466611653911-95081537e5b7?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&h=600",
-        timeAgo: "2 minutes ago"
+  async getArticlesBySymbols(stockSymbols: string[]): Promise<Article[]> {
+    return Array.from(this.articles.values())
+      .filter(article => isLive(article) && article.stockSymbol)
+      .filter(article => stockSymbols.includes(article.stockSymbol!.trim().toUpperCase()))
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime());
+  }
+
+  async searchArticleSymbols(prefix: string, limit: number): Promise<StockSymbolSuggestion[]> {
+    const suggestions = new Map<string, StockSymbolSuggestion>();
+    this.articles.forEach(article => {
+      const symbol = article.stockSymbol?.trim().toUpperCase();
+      if (!symbol || article.archivedAt || !symbol.startsWith(prefix)) return;
+
+      const suggestion = suggestions.get(symbol) || { stockSymbol: symbol, exchange: null, articleCount: 0 };
+      suggestion.exchange = suggestion.exchange || article.exchange;
+      suggestion.articleCount++;
+      suggestions.set(symbol, suggestion);
+    });
+
+    return Array.from(suggestions.values())
+      .sort((a, b) => b.articleCount - a.articleCount || a.stockSymbol.localeCompare(b.stockSymbol))
+      .slice(0, limit);
+  }
+
+  // Alert management
+  async getAlertRules(userId: number): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values()).filter(rule => rule.userId === userId);
+  }
+
+  async getActiveAlertRules(): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values()).filter(rule => rule.isActive);
+  }
+
+  async createAlertRule(ruleData: InsertAlertRule): Promise<AlertRule> {
+    const rule: AlertRule = {
+      id: this.currentAlertRuleId++,
+      stockSymbol: null,
+      thresholdBps: null,
+      categories: null,
+      channels: ['in_app'],
+      isActive: true,
+      ...ruleData,
+      createdAt: new Date(),
+    };
+    this.alertRules.set(rule.id, rule);
+    return rule;
+  }
+
+  async updateAlertRule(userId: number, id: number, updates: AlertRuleUpdate): Promise<AlertRule | undefined> {
+    const rule = this.alertRules.get(id);
+    if (!rule || rule.userId !== userId) return undefined;
+    const updated = { ...rule, ...updates };
+    this.alertRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteAlertRule(userId: number, id: number): Promise<boolean> {
+    const rule = this.alertRules.get(id);
+    if (!rule || rule.userId !== userId) return false;
+    this.alertRules.delete(id);
+    this.alerts.forEach((alert, alertId) => {
+      if (alert.ruleId === id) this.alerts.delete(alertId);
+    });
+    return true;
+  }
+
+  async createAlert(alertData: InsertAlert): Promise<Alert | undefined> {
+    const duplicate = Array.from(this.alerts.values()).some(alert =>
+      alert.ruleId === alertData.ruleId && alert.articleId === alertData.articleId
+    );
+    if (duplicate) return undefined;
+
+    const alert: Alert = {
+      id: this.currentAlertId++,
+      ...alertData,
+      readAt: null,
+      createdAt: new Date(),
+    };
+    this.alerts.set(alert.id, alert);
+    return alert;
+  }
+
+  async getAlerts(userId: number, options: { unreadOnly?: boolean; limit: number }): Promise<Alert[]> {
+    return Array.from(this.alerts.values())
+      .filter(alert => alert.userId === userId && (!options.unreadOnly || !alert.readAt))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, options.limit);
+  }
+
+  async countUnreadAlerts(userId: number): Promise<number> {
+    return Array.from(this.alerts.values()).filter(alert => alert.userId === userId && !alert.readAt).length;
+  }
+
+  async markAlertsRead(userId: number, ids?: number[]): Promise<number> {
+    const now = new Date();
+    let marked = 0;
+    this.alerts.forEach((alert, id) => {
+      if (alert.userId === userId && !alert.readAt && (!ids || ids.includes(id))) {
+        this.alerts.set(id, { ...alert, readAt: now });
+        marked++;
       }
-    ];
+    });
+    return marked;
+  }
 
-    const randomArticle = testArticles[Math.floor(Math.random() * testArticles.length)];
-    return await this.createArticle(randomArticle);
+  // Article revisions
+  async createArticleRevisions(revisionData: InsertArticleRevision[]): Promise<ArticleRevision[]> {
+    return revisionData.map(data => {
+      const revision: ArticleRevision = {
+        id: this.currentRevisionId++,
+        userId: null,
+        note: null,
+        ...data,
+        createdAt: new Date(),
+      };
+      this.articleRevisions.set(revision.id, revision);
+      return revision;
+    });
   }
 
-  async incrementViewCount(articleId: number): Promise<void> {
-    const article = this.articles.get(articleId);
-    if (article) {
-      article.viewCount = (article.viewCount || 0) + 1;
-      this.articles.set(articleId, article);
-    }
+  async getArticleRevisions(articleId: number): Promise<ArticleRevision[]> {
+    return Array.from(this.articleRevisions.values())
+      .filter(revision => revision.articleId === articleId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
   }
 
-  async getTrendingArticles(): Promise<Article[]> {
-    const allArticles = Array.from(this.articles.values());
-    
-    // Sort by view count (most viewed first), then by recency
-    const sortedByViews = allArticles.sort((a, b) => {
-      const viewCountA = a.viewCount || 0;
-      const viewCountB = b.viewCount || 0;
-      
-      // Primary sort: view count (descending)
-      if (viewCountA !== viewCountB) {
-        return viewCountB - viewCountA;
+  async getArticleRevision(id: number): Promise<ArticleRevision | undefined> {
+    return this.articleRevisions.get(id);
+  }
+
+  async markArticlesRevised(articleIds: number[], revisedAt: Date): Promise<void> {
+    articleIds.forEach(id => {
+      const article = this.articles.get(id);
+      if (article) this.articles.set(id, { ...article, revisedAt });
+    });
+  }
+
+  // Translations
+  async getTranslation(language: string, sourceHash: string): Promise<Translation | undefined> {
+    return this.translations.get(`${language}:${sourceHash}`);
+  }
+
+  async saveTranslation(translationData: InsertTranslation): Promise<void> {
+    const key = `${translationData.language}:${translationData.sourceHash}`;
+    if (this.translations.has(key)) return;
+    this.translations.set(key, { id: this.currentTranslationId++, ...translationData, createdAt: new Date() });
+  }
+
+  async getArticlesNeedingTranslation(language: string, limit: number, offset = 0): Promise<Article[]> {
+    return Array.from(this.articles.values())
+      .filter(article => !article.archivedAt && article.contentStatus === 'complete')
+      .filter(article => this.articleTranslations.get(`${article.id}:${language}`)?.sourceHash !== articleTextHash(article))
+      .sort((a, b) => b.publishedAt.getTime() - a.publishedAt.getTime() || b.id - a.id)
+      .slice(offset, offset + limit);
+  }
+
+  async saveArticleTranslation(translationData: InsertArticleTranslation): Promise<ArticleTranslation> {
+    const key = `${translationData.articleId}:${translationData.language}`;
+    const translation: ArticleTranslation = {
+      id: this.articleTranslations.get(key)?.id ?? this.currentArticleTranslationId++,
+      ...translationData,
+      updatedAt: new Date(),
+    };
+    this.articleTranslations.set(key, translation);
+    return translation;
+  }
+
+  async getArticleTranslations(articleIds: number[], language: string): Promise<ArticleTranslation[]> {
+    return articleIds
+      .map(id => this.articleTranslations.get(`${id}:${language}`))
+      .filter((translation): translation is ArticleTranslation => !!translation);
+  }
+
+  async classifyUnlabelledArticles(): Promise<number> {
+    let classified = 0;
+    this.articles.forEach(article => {
+      if (article.sentimentLabel) return;
+      this.articles.set(article.id, { ...article, ...classifyArticleSentiment(article) });
+      classified++;
+    });
+    return classified;
+  }
+
+  // Ingestion reports
+  async createIngestionRun(runData: InsertIngestionRun): Promise<IngestionRun> {
+    const run: IngestionRun = {
+      id: this.currentIngestionRunId++,
+      totalRows: 0,
+      acceptedRows: 0,
+      correctedRows: 0,
+      rejectedRows: 0,
+      incompleteRows: 0,
+      error: null,
+      insertedCount: 0,
+      updatedCount: 0,
+      archivedCount: 0,
+      unchangedCount: 0,
+      durationMs: 0,
+      rows: [],
+      ...runData,
+      finishedAt: new Date(),
+    };
+    this.ingestionRuns.set(run.id, run);
+    return run;
+  }
+
+  async getLatestIngestionRun(source: string): Promise<IngestionRun | undefined> {
+    return Array.from(this.ingestionRuns.values())
+      .filter(run => run.source === source)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime() || b.id - a.id)[0];
+  }
+
+  async pruneIngestionRuns(source: string, keep: number): Promise<number> {
+    const stale = Array.from(this.ingestionRuns.values())
+      .filter(run => run.source === source)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime() || b.id - a.id)
+      .slice(keep);
+    stale.forEach(run => this.ingestionRuns.delete(run.id));
+    return stale.length;
+  }
+
+  // Read Later management
+  async getReadLater(userId: number): Promise<ReadLater[]> {
+    return Array.from(this.readLater.values()).filter(item => item.userId === userId);
+  }
+
+  async addToReadLater(readLaterData: InsertReadLater): Promise<ReadLater> {
+    const item: ReadLater = {
+      id: this.currentReadLaterId++,
+      ...readLaterData,
+      createdAt: new Date(),
+    };
+    this.readLater.set(item.id, item);
+    return item;
+  }
+
+  async removeFromReadLater(userId: number, articleId: number): Promise<void> {
+    this.readLater.forEach((item, id) => {
+      if (item.userId === userId && item.articleId === articleId) {
+        this.readLater.delete(id);
       }
-      
-      // Secondary sort: creation time (newest first)
-      return b.createdAt.getTime() - a.createdAt.getTime();
     });
-    
-    // Mix trending articles with variety from different categories
-    const mostViewed = sortedByViews.slice(0, 15); // Top 15 most viewed
-    
-    // Fill remaining slots with diverse content from different categories
-    const remainingArticles = sortedByViews.slice(15);
-    const categorizedRemaining = {
-      nifty: remainingArticles.filter(a => a.category === 'nifty').slice(0, 2),
-      breakout: remainingArticles.filter(a => a.category === 'breakout').slice(0, 2),
-      ipo: remainingArticles.filter(a => a.category === 'ipo').slice(0, 2),
-      research_report: remainingArticles.filter(a => a.category === 'research_report').slice(0, 2),
-      movers: remainingArticles.filter(a => a.category === 'movers').slice(0, 2),
-      others: remainingArticles.filter(a => 
-        !['nifty', 'breakout', 'ipo', 'research_report', 'movers'].includes(a.category)
-      ).slice(0, 5)
+  }
+
+  async isInReadLater(userId: number, articleId: number): Promise<boolean> {
+    return Array.from(this.readLater.values()).some(item =>
+      item.userId === userId && item.articleId === articleId
+    );
+  }
+
+  // UPI Payment management
+  async createUpiPayment(paymentData: InsertUpiPayment): Promise<UpiPayment> {
+    const payment: UpiPayment = {
+      id: this.currentPaymentId++,
+      planId: null,
+      currency: 'INR',
+      provider: 'upi',
+      providerOrderId: null,
+      providerPaymentId: null,
+      ...paymentData,
+      settledAt: null,
+      createdAt: new Date(),
     };
-    
-    const diverseContent = [
-      ...categorizedRemaining.nifty,
-      ...categorizedRemaining.breakout,
-      ...categorizedRemaining.ipo,
-      ...categorizedRemaining.research_report,
-      ...categorizedRemaining.movers,
-      ...categorizedRemaining.others
-    ];
-    
-    return [...mostViewed, ...diverseContent];
+    this.upiPayments.set(payment.id, payment);
+    return payment;
+  }
+
+  async updatePaymentStatus(id: number, status: string, transactionId?: string): Promise<UpiPayment> {
+    const payment = this.upiPayments.get(id);
+    if (!payment) {
+      throw new Error(`Payment ${id} not found`);
+    }
+    const updated: UpiPayment = {
+      ...payment,
+      status,
+      upiTransactionId: transactionId || payment.upiTransactionId,
+    };
+    this.upiPayments.set(id, updated);
+    return updated;
+  }
+
+  async getUserPayments(userId: number): Promise<UpiPayment[]> {
+    return Array.from(this.upiPayments.values())
+      .filter(payment => payment.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPaymentByProviderOrderId(provider: string, orderId: string): Promise<UpiPayment | undefined> {
+    return Array.from(this.upiPayments.values()).find(payment =>
+      payment.provider === provider && payment.providerOrderId === orderId
+    );
+  }
+
+  async getPaymentByReceipt(provider: string, receipt: string): Promise<UpiPayment | undefined> {
+    return Array.from(this.upiPayments.values()).find(payment =>
+      payment.provider === provider && payment.upiTransactionId === receipt
+    );
+  }
+
+  async settlePayment(id: number, status: string, providerPaymentId?: string): Promise<UpiPayment | undefined> {
+    const payment = this.upiPayments.get(id);
+    if (!payment || payment.status !== 'pending') {
+      return undefined;
+    }
+    const settled: UpiPayment = {
+      ...payment,
+      status,
+      providerPaymentId: providerPaymentId ?? payment.providerPaymentId,
+      settledAt: new Date(),
+    };
+    this.upiPayments.set(id, settled);
+    return settled;
+  }
+
+  // Article Analytics
+  async recordArticleView(viewData: InsertArticleView): Promise<ArticleView> {
+    const view: ArticleView = {
+      id: this.currentViewId++,
+      ...viewData,
+      createdAt: new Date(),
+    };
+    this.articleViews.push(view);
+    return view;
+  }
+
+  async getTrendingArticles(): Promise<Article[]> {
+    // Most viewed first, then most recent
+    return Array.from(this.articles.values())
+      .filter(isLive)
+      .sort((a, b) => {
+        const viewCountA = a.viewCount || 0;
+        const viewCountB = b.viewCount || 0;
+        if (viewCountA !== viewCountB) {
+          return viewCountB - viewCountA;
+        }
+        return b.publishedAt.getTime() - a.publishedAt.getTime();
+      })
+      .slice(0, 20);
+  }
+}
+
+// STORAGE_BACKEND selects the backend; defaults to Postgres when DATABASE_URL is set
+export function createStorage(backend = process.env.STORAGE_BACKEND): IStorage {
+  const selected = backend || (process.env.DATABASE_URL ? 'database' : 'memory');
+  switch (selected) {
+    case 'database':
+      return new DatabaseStorage();
+    case 'memory':
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${selected}", expected "database" or "memory"`);
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export const storage = createStorage();
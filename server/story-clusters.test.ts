@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { clusterStories } from "./story-clusters";
+
+const HOUR_MS = 60 * 60 * 1000;
+const start = new Date("2025-01-10T08:00:00Z").getTime();
+
+function story(id: number, title: string, content: string, stockSymbol: string | null, hoursLater = 0) {
+  return { id, title, content, stockSymbol, publishedAt: new Date(start + hoursLater * HOUR_MS) };
+}
+
+const RELIANCE_TITLE = "Reliance shares hit record high on strong refining margins";
+const RELIANCE_BODY = "Reliance Industries rose 3% to a record 2,845 after refining margins beat estimates.";
+
+describe("clusterStories", () => {
+  it("groups reports of one story under its earliest report", () => {
+    const clusters = clusterStories([
+      story(2, "Reliance shares hit record high as refining margins stay strong", RELIANCE_BODY, "RELIANCE", 2),
+      story(1, RELIANCE_TITLE, RELIANCE_BODY, "reliance"),
+      story(3, "TCS wins large deal from European bank", "Tata Consultancy Services signed a multi-year contract.", "TCS"),
+    ]);
+    expect(clusters.get(1)).toBe(1);
+    expect(clusters.get(2)).toBe(1);
+    expect(clusters.get(3)).toBeNull();
+  });
+
+  it("keeps apart the same text about different stocks", () => {
+    const clusters = clusterStories([
+      story(1, RELIANCE_TITLE, RELIANCE_BODY, "RELIANCE"),
+      story(2, RELIANCE_TITLE, RELIANCE_BODY, "ONGC"),
+    ]);
+    expect(clusters.get(1)).toBeNull();
+    expect(clusters.get(2)).toBeNull();
+  });
+
+  it("keeps apart reports published more than two days apart", () => {
+    const clusters = clusterStories([
+      story(1, RELIANCE_TITLE, RELIANCE_BODY, "RELIANCE"),
+      story(2, RELIANCE_TITLE, RELIANCE_BODY, "RELIANCE", 49),
+    ]);
+    expect(clusters.get(2)).toBeNull();
+  });
+
+  it("keeps apart different stories about the same stock", () => {
+    const clusters = clusterStories([
+      story(1, RELIANCE_TITLE, RELIANCE_BODY, "RELIANCE"),
+      story(2, "Reliance Jio raises tariffs across prepaid plans", "The telecom arm lifted prices by up to 25% from July.", "RELIANCE", 1),
+    ]);
+    expect(clusters.get(2)).toBeNull();
+  });
+
+  it("joins a chain of reports transitively", () => {
+    const clusters = clusterStories([
+      story(1, RELIANCE_TITLE, RELIANCE_BODY, "RELIANCE"),
+      story(2, RELIANCE_TITLE, RELIANCE_BODY, "RELIANCE", 40),
+      story(3, RELIANCE_TITLE, RELIANCE_BODY, "RELIANCE", 80),
+    ]);
+    expect([clusters.get(1), clusters.get(2), clusters.get(3)]).toEqual([1, 1, 1]);
+  });
+});
@@ -0,0 +1,141 @@
+import type { Article, FeedArticle } from "@shared/schema";
+import { storage } from "./storage";
+
+// Groups near-duplicate reports of one story (several rows or sources covering the same Nifty move)
+// so the feed can show a single card. Similarity is TF-IDF cosine over title and body, and two
+// articles only match when they name the same stock and were published close together.
+
+const CLUSTER_WINDOW_MS = 48 * 60 * 60 * 1000;
+const SIMILARITY_THRESHOLD = 0.5;
+// Headlines carry most of the signal; bodies from different desks vary a lot more
+const TITLE_WEIGHT = 2;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with', 'after', 'into',
+]);
+
+type ClusterInput = Pick<Article, 'id' | 'title' | 'content' | 'stockSymbol' | 'publishedAt'>;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/(\d),(?=\d)/g, '$1') // 25,000 -> 25000
+    .split(/[^a-z0-9.%]+/)
+    .map(token => token.replace(/^\.+|\.+$/g, ''))
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+function termCounts(article: ClusterInput): Map<string, number> {
+  const counts = new Map<string, number>();
+  tokenize(article.title).forEach(token => counts.set(token, (counts.get(token) || 0) + TITLE_WEIGHT));
+  tokenize(article.content).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  return counts;
+}
+
+// Unit-length TF-IDF vectors, with document frequencies taken from the articles being compared
+function tfidfVectors(articles: ClusterInput[]): Map<string, number>[] {
+  const counts = articles.map(termCounts);
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(terms => terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  return counts.map(terms => {
+    const vector = new Map<string, number>();
+    let norm = 0;
+    terms.forEach((count, term) => {
+      const weight = (1 + Math.log(count)) * Math.log(1 + articles.length / documentFrequency.get(term)!);
+      vector.set(term, weight);
+      norm += weight * weight;
+    });
+    norm = Math.sqrt(norm) || 1;
+    vector.forEach((weight, term) => vector.set(term, weight / norm));
+    return vector;
+  });
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((weight, term) => {
+    dot += weight * (large.get(term) || 0);
+  });
+  return dot;
+}
+
+function normalizeSymbol(symbol: string | null): string {
+  return (symbol || '').trim().toUpperCase();
+}
+
+// Maps every article id to its cluster id: the id of the cluster's first report, or null when it stands alone
+export function clusterStories(articles: ClusterInput[]): Map<number, number | null> {
+  const vectors = tfidfVectors(articles);
+  const parent = articles.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < articles.length; i++) {
+    for (let j = i + 1; j < articles.length; j++) {
+      if (normalizeSymbol(articles[i].stockSymbol) !== normalizeSymbol(articles[j].stockSymbol)) continue;
+      if (Math.abs(articles[i].publishedAt.getTime() - articles[j].publishedAt.getTime()) > CLUSTER_WINDOW_MS) continue;
+      if (cosine(vectors[i], vectors[j]) >= SIMILARITY_THRESHOLD) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const members = new Map<number, ClusterInput[]>();
+  articles.forEach((article, index) => {
+    const root = find(index);
+    members.set(root, [...(members.get(root) || []), article]);
+  });
+
+  const clusters = new Map<number, number | null>();
+  members.forEach(group => {
+    const lead = group.reduce((first, article) =>
+      article.publishedAt < first.publishedAt || (article.publishedAt.getTime() === first.publishedAt.getTime() && article.id < first.id) ? article : first
+    );
+    group.forEach(article => clusters.set(article.id, group.length > 1 ? lead.id : null));
+  });
+  return clusters;
+}
+
+// Re-clusters everything published in the last few days and saves only the assignments that moved
+export async function reclusterRecentStories(now: Date = new Date()): Promise<number> {
+  const articles = await storage.getClusterCandidates(new Date(now.getTime() - 2 * CLUSTER_WINDOW_MS));
+  const clusters = clusterStories(articles);
+
+  const changes = articles
+    .filter(article => clusters.get(article.id) !== article.storyClusterId)
+    .map(article => ({ articleId: article.id, storyClusterId: clusters.get(article.id) ?? null }));
+  if (changes.length > 0) {
+    await storage.setStoryClusters(changes);
+  }
+  return changes.length;
+}
+
+// One card per story: the first member in feed order stands in for the rest of its cluster
+export function collapseStoryClusters(articles: FeedArticle[]): FeedArticle[] {
+  const cards = new Map<number, FeedArticle>();
+  const collapsed: FeedArticle[] = [];
+
+  articles.forEach(article => {
+    if (article.storyClusterId === null) {
+      collapsed.push(article);
+      return;
+    }
+    const card = cards.get(article.storyClusterId);
+    if (card) {
+      card.moreSources = (card.moreSources || 0) + 1;
+      return;
+    }
+    const first = { ...article, moreSources: 0 };
+    cards.set(article.storyClusterId, first);
+    collapsed.push(first);
+  });
+  return collapsed;
+}
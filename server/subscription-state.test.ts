@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { getRenewedExpiry } from "./subscription-state";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-01-10T00:00:00Z");
+
+describe("getRenewedExpiry", () => {
+  it("starts from now when there is no subscription", () => {
+    expect(getRenewedExpiry(null, 30, now)).toEqual(new Date(now.getTime() + 30 * DAY_MS));
+  });
+
+  it("stacks on paid time that is left", () => {
+    const expiry = new Date(now.getTime() + 5 * DAY_MS);
+    expect(getRenewedExpiry(expiry, 30, now)).toEqual(new Date(now.getTime() + 35 * DAY_MS));
+  });
+
+  it("starts from now once the subscription has lapsed", () => {
+    const expiry = new Date(now.getTime() - 2 * DAY_MS);
+    expect(getRenewedExpiry(expiry, 30, now)).toEqual(new Date(now.getTime() + 30 * DAY_MS));
+  });
+
+  it("starts from now when the expiry is exactly now", () => {
+    expect(getRenewedExpiry(new Date(now), 7, now)).toEqual(new Date(now.getTime() + 7 * DAY_MS));
+  });
+});
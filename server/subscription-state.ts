@@ -0,0 +1,48 @@
+import type { User } from "@shared/schema";
+
+export type SubscriptionStatus = 'none' | 'active' | 'grace' | 'expired' | 'cancelled';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days after expiry during which premium stays unlocked so a renewal can land
+export const GRACE_PERIOD_DAYS = parseInt(process.env.SUBSCRIPTION_GRACE_DAYS || "3");
+
+// How long before expiry the renewal reminder goes out
+export const REMINDER_DAYS_BEFORE_EXPIRY = parseInt(process.env.SUBSCRIPTION_REMINDER_DAYS || "3");
+
+type SubscriptionFields = Pick<User, 'subscriptionStatus' | 'subscriptionExpiry'>;
+
+// Derives the lifecycle state from the stored status and expiry at a point in time
+export function getSubscriptionState(user: SubscriptionFields, now: Date = new Date()): SubscriptionStatus {
+  const status = user.subscriptionStatus as SubscriptionStatus;
+  if (!user.subscriptionExpiry) {
+    return status === 'none' ? 'none' : 'expired';
+  }
+
+  // Rows from before the status column carry only an expiry; derive their state from it
+  const expiry = user.subscriptionExpiry.getTime();
+  if (now.getTime() < expiry) {
+    return status === 'cancelled' ? 'cancelled' : 'active';
+  }
+  if (status !== 'cancelled' && now.getTime() < expiry + GRACE_PERIOD_DAYS * DAY_MS) {
+    return 'grace';
+  }
+  return 'expired';
+}
+
+// Cancelled subscriptions keep premium until the paid period runs out
+export function hasPremiumAccess(state: SubscriptionStatus): boolean {
+  return state === 'active' || state === 'grace' || state === 'cancelled';
+}
+
+// Renewals stack on whatever paid time is left instead of resetting it
+export function getRenewedExpiry(currentExpiry: Date | null, durationDays: number, now: Date = new Date()): Date {
+  const base = currentExpiry && currentExpiry > now ? currentExpiry : now;
+  return new Date(base.getTime() + durationDays * DAY_MS);
+}
+
+export function isDueForReminder(user: SubscriptionFields & Pick<User, 'subscriptionReminderSentAt'>, now: Date = new Date()): boolean {
+  if (getSubscriptionState(user, now) !== 'active' || !user.subscriptionExpiry) return false;
+  if (user.subscriptionExpiry.getTime() - now.getTime() > REMINDER_DAYS_BEFORE_EXPIRY * DAY_MS) return false;
+  return !user.subscriptionReminderSentAt;
+}
@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import {
+  ensureDefaultPlans,
+  isTrialAvailable,
+  migrateLegacySubscriptions,
+  runSubscriptionLifecycle,
+  startTrial,
+  type SubscriptionNotifier,
+} from "./subscriptions";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-01-10T00:00:00Z");
+
+class RecordingNotifier implements SubscriptionNotifier {
+  reminded: number[] = [];
+  expired: number[] = [];
+
+  async sendRenewalReminder(user: User): Promise<void> {
+    this.reminded.push(user.id);
+  }
+
+  async sendExpiryNotice(user: User): Promise<void> {
+    this.expired.push(user.id);
+  }
+}
+
+// A subscriber from before the status column: paid time, but status still 'none'
+async function createLegacySubscriber(daysLeft: number): Promise<User> {
+  const user = await storage.createUser({ email: `legacy${Math.random()}@example.com` });
+  return await storage.updateSubscription(user.id, {
+    isSubscribed: true,
+    subscriptionExpiry: new Date(now.getTime() + daysLeft * DAY_MS),
+  });
+}
+
+beforeAll(async () => {
+  await ensureDefaultPlans();
+});
+
+describe("startTrial", () => {
+  it("starts a trial for an account that never paid", async () => {
+    const user = await storage.createUser({ email: "fresh@example.com" });
+    expect(isTrialAvailable(user, now)).toBe(true);
+
+    const started = await startTrial(user.id, now);
+    expect(started.subscriptionStatus).toBe("active");
+    expect(started.subscriptionExpiry).toEqual(new Date(now.getTime() + 7 * DAY_MS));
+    expect(isTrialAvailable(started, now)).toBe(false);
+  });
+
+  it("refuses a legacy subscriber and keeps their paid time", async () => {
+    const user = await createLegacySubscriber(20);
+    expect(isTrialAvailable(user, now)).toBe(false);
+
+    await expect(startTrial(user.id, now)).rejects.toMatchObject({ status: 409 });
+    expect((await storage.getUserById(user.id))?.subscriptionExpiry).toEqual(user.subscriptionExpiry);
+  });
+});
+
+describe("migrateLegacySubscriptions", () => {
+  it("gives legacy rows the status their expiry implies and leaves free users alone", async () => {
+    const active = await createLegacySubscriber(20);
+    const lapsed = await createLegacySubscriber(-30);
+    const free = await storage.createUser({ email: "free@example.com" });
+
+    await migrateLegacySubscriptions(now);
+
+    expect((await storage.getUserById(active.id))?.subscriptionStatus).toBe("active");
+    expect(await storage.getUserById(lapsed.id)).toMatchObject({ subscriptionStatus: "expired", isSubscribed: false });
+    expect((await storage.getUserById(free.id))?.subscriptionStatus).toBe("none");
+  });
+
+  it("lets the lifecycle remind migrated subscribers", async () => {
+    const user = await createLegacySubscriber(2);
+    await migrateLegacySubscriptions(now);
+
+    const notifier = new RecordingNotifier();
+    await runSubscriptionLifecycle(notifier, now);
+    expect(notifier.reminded).toContain(user.id);
+  });
+});
@@ -0,0 +1,187 @@
+import type { InsertPlan, Plan, User } from "@shared/schema";
+import { storage } from "./storage";
+import { getRenewedExpiry, getSubscriptionState, hasPremiumAccess, isDueForReminder } from "./subscription-state";
+
+export const DEFAULT_PLAN_CODE = "monthly";
+
+// Prices in paise
+export const DEFAULT_PLANS: InsertPlan[] = [
+  { code: "trial", name: "7-day free trial", amount: 0, durationDays: 7, isTrial: true, sortOrder: 0 },
+  { code: "monthly", name: "Monthly", amount: 1100, durationDays: 30, sortOrder: 1 },
+  { code: "quarterly", name: "Quarterly", amount: 2900, durationDays: 90, sortOrder: 2 },
+  { code: "annual", name: "Annual", amount: 9900, durationDays: 365, sortOrder: 3 },
+];
+
+export class SubscriptionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "SubscriptionError";
+  }
+}
+
+export interface SubscriptionNotifier {
+  sendRenewalReminder(user: User, expiry: Date): Promise<void>;
+  sendExpiryNotice(user: User): Promise<void>;
+}
+
+// Logs instead of sending until an email/SMS channel is wired up
+export class ConsoleSubscriptionNotifier implements SubscriptionNotifier {
+  async sendRenewalReminder(user: User, expiry: Date): Promise<void> {
+    console.log(`Renewal reminder for user ${user.id}: subscription ends ${expiry.toISOString()}`);
+  }
+
+  async sendExpiryNotice(user: User): Promise<void> {
+    console.log(`Subscription expired for user ${user.id}`);
+  }
+}
+
+export async function ensureDefaultPlans(): Promise<void> {
+  for (const plan of DEFAULT_PLANS) {
+    const existing = await storage.getPlanByCode(plan.code);
+    if (!existing) {
+      await storage.createPlan(plan);
+    }
+  }
+}
+
+export async function getPurchasablePlans(): Promise<Plan[]> {
+  const plans = await storage.getPlans();
+  return plans.filter(plan => plan.isActive && !plan.isTrial);
+}
+
+export async function resolvePlan(planId?: number, planCode?: string): Promise<Plan> {
+  const plan = planId
+    ? await storage.getPlan(planId)
+    : await storage.getPlanByCode(planCode || DEFAULT_PLAN_CODE);
+
+  if (!plan || !plan.isActive || plan.isTrial) {
+    throw new SubscriptionError("Plan not available", 404);
+  }
+  return plan;
+}
+
+// Extends the subscription by the plan's duration, stacking on any time left
+export async function renewSubscription(userId: number, plan: Plan, now: Date = new Date()): Promise<User> {
+  const user = await storage.getUserById(userId);
+  if (!user) {
+    throw new SubscriptionError("User not found", 404);
+  }
+
+  return await storage.updateSubscription(userId, {
+    isSubscribed: true,
+    subscriptionStatus: 'active',
+    subscriptionPlanId: plan.id,
+    subscriptionExpiry: getRenewedExpiry(user.subscriptionExpiry, plan.durationDays, now),
+    subscriptionReminderSentAt: null,
+  });
+}
+
+// Each account gets the trial once, and only if it has never paid. Rows from before the status column
+// still say 'none' while holding paid time, so this goes by the derived state.
+export function isTrialAvailable(user: User, now: Date = new Date()): boolean {
+  return !user.trialStartedAt && getSubscriptionState(user, now) === 'none';
+}
+
+export async function startTrial(userId: number, now: Date = new Date()): Promise<User> {
+  const user = await storage.getUserById(userId);
+  if (!user) {
+    throw new SubscriptionError("User not found", 404);
+  }
+  if (!isTrialAvailable(user, now)) {
+    throw new SubscriptionError("Free trial is not available for this account", 409);
+  }
+
+  const trial = await storage.getPlanByCode("trial");
+  if (!trial || !trial.isActive) {
+    throw new SubscriptionError("Free trial is not available", 404);
+  }
+
+  return await storage.updateSubscription(userId, {
+    isSubscribed: true,
+    subscriptionStatus: 'active',
+    subscriptionPlanId: trial.id,
+    subscriptionExpiry: getRenewedExpiry(user.subscriptionExpiry, trial.durationDays, now),
+    subscriptionReminderSentAt: null,
+    trialStartedAt: now,
+  });
+}
+
+// Stops renewal reminders; access continues until the paid period ends
+export async function cancelSubscription(userId: number, now: Date = new Date()): Promise<User> {
+  const user = await storage.getUserById(userId);
+  if (!user) {
+    throw new SubscriptionError("User not found", 404);
+  }
+  if (getSubscriptionState(user, now) !== 'active') {
+    throw new SubscriptionError("No active subscription to cancel", 409);
+  }
+
+  return await storage.updateSubscription(userId, { subscriptionStatus: 'cancelled' });
+}
+
+// Moves users through active -> grace -> expired and sends reminders along the way
+export async function runSubscriptionLifecycle(
+  notifier: SubscriptionNotifier = new ConsoleSubscriptionNotifier(),
+  now: Date = new Date(),
+): Promise<{ reminded: number; grace: number; expired: number }> {
+  const result = { reminded: 0, grace: 0, expired: 0 };
+  const users = await storage.getUsersBySubscriptionStatus(['active', 'grace', 'cancelled']);
+
+  for (const user of users) {
+    const state = getSubscriptionState(user, now);
+
+    if (isDueForReminder(user, now) && user.subscriptionExpiry) {
+      await notifier.sendRenewalReminder(user, user.subscriptionExpiry);
+      await storage.updateSubscription(user.id, { subscriptionReminderSentAt: now });
+      result.reminded++;
+    }
+
+    if (state === user.subscriptionStatus) continue;
+
+    if (state === 'grace') {
+      await storage.updateSubscription(user.id, { subscriptionStatus: 'grace' });
+      result.grace++;
+    } else if (state === 'expired') {
+      await storage.updateSubscription(user.id, { subscriptionStatus: 'expired', isSubscribed: false });
+      await notifier.sendExpiryNotice(user);
+      result.expired++;
+    }
+  }
+
+  return result;
+}
+
+// Gives rows from before the status column, which say 'none' but carry an expiry, the status their
+// expiry implies, so the lifecycle scan picks them up. No notices go out for the change itself.
+export async function migrateLegacySubscriptions(now: Date = new Date()): Promise<number> {
+  const users = await storage.getUsersBySubscriptionStatus(['none']);
+  let migrated = 0;
+
+  for (const user of users) {
+    if (!user.subscriptionExpiry) continue;
+    const state = getSubscriptionState(user, now);
+    await storage.updateSubscription(user.id, { subscriptionStatus: state, isSubscribed: hasPremiumAccess(state) });
+    migrated++;
+  }
+  return migrated;
+}
+
+const LIFECYCLE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function startSubscriptionLifecycle(notifier?: SubscriptionNotifier): NodeJS.Timeout {
+  const run = () => {
+    runSubscriptionLifecycle(notifier)
+      .then(({ reminded, grace, expired }) => {
+        if (reminded || grace || expired) {
+          console.log(`Subscription lifecycle: ${reminded} reminded, ${grace} in grace, ${expired} expired`);
+        }
+      })
+      .catch(error => console.error("Subscription lifecycle failed:", error));
+  };
+
+  migrateLegacySubscriptions()
+    .then(count => { if (count > 0) console.log(`Set subscription status for ${count} legacy subscribers`); })
+    .catch(error => console.error("Legacy subscription migration failed:", error))
+    .finally(run);
+  return setInterval(run, LIFECYCLE_INTERVAL_MS);
+}
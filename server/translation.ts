@@ -0,0 +1,215 @@
+import { createHash } from "crypto";
+import { SUPPORTED_LANGUAGES, type Article, type Language } from "@shared/schema";
+import { storage, articleTextHash } from "./storage";
+import { getActiveTranslator, normalizeLanguage, translate, type TranslationResult } from "./translators";
+import { RequestRateLimiter } from "./rate-limit";
+
+// Translates articles into every reader language in the background, so feeds arrive ready to show in
+// any of them. Each text is looked up in the translations cache by hash first, so unchanged text is
+// never sent again. Feeds swap in the translation for the language asked for, or keep the English.
+
+const TRANSLATION_INTERVAL_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 20;
+const TARGET_LANGUAGES = SUPPORTED_LANGUAGES.filter(language => language !== 'en');
+
+// On-demand translation is public and each miss is a paid provider call, so it is capped per client
+export const MAX_TRANSLATE_CHARS = 5000;
+const TRANSLATE_REQUESTS_PER_CLIENT = 30;
+const TRANSLATE_REQUEST_WINDOW_MS = 10 * 60 * 1000;
+const translateLimiter = new RequestRateLimiter(TRANSLATE_REQUESTS_PER_CLIENT, TRANSLATE_REQUEST_WINDOW_MS);
+
+// An article whose translation keeps failing is retried after 5, 10, 20... minutes, and after
+// MAX_TRANSLATION_ATTEMPTS is left alone until its text changes. Kept in memory, so a restart retries.
+const MAX_TRANSLATION_ATTEMPTS = 5;
+
+interface FailedTranslation {
+  sourceHash: string;
+  attempts: number;
+  retryAt: number;
+}
+
+// By language and article id
+const failedTranslations = new Map<string, FailedTranslation>();
+
+let running: Promise<void> | null = null;
+let pending = false;
+let warnedDisabled = false;
+
+export class TranslationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "TranslationError";
+  }
+}
+
+// Reads a ?lang= value; missing means English
+export function parseLanguage(value: unknown): Language {
+  if (value === undefined || value === "") return 'en';
+  const language = typeof value === "string" ? normalizeLanguage(value) : "";
+  if (!SUPPORTED_LANGUAGES.includes(language as Language)) {
+    throw new TranslationError("Unsupported language");
+  }
+  return language as Language;
+}
+
+// clientKey is the signed-in user or the IP
+export function checkTranslationQuota(clientKey: string): void {
+  if (!translateLimiter.tryHit(clientKey)) {
+    throw new TranslationError("Too many translation requests. Please try again later.", 429);
+  }
+}
+
+export function isTranslationEnabled(): boolean {
+  return getActiveTranslator() !== null;
+}
+
+function sourceHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// Only real translations are cached; a fallback is retried the next time the text is asked for
+export async function translateText(text: string, language = 'hi', symbols: string[] = []): Promise<TranslationResult> {
+  if (!text.trim()) return { text, provider: null, fellBack: false };
+
+  const hash = sourceHash(text);
+  const cached = await storage.getTranslation(language, hash);
+  if (cached) return { text: cached.translatedText, provider: 'cache', fellBack: false };
+
+  const result = await translate(text, language, { symbols });
+  if (!result.fellBack) {
+    await storage.saveTranslation({ language, sourceHash: hash, translatedText: result.text });
+  }
+  return result;
+}
+
+// Leaves the article queued when either half fell back, so English is never stored as a translation
+async function translateArticle(article: Article, language: Language): Promise<boolean> {
+  const symbols = article.stockSymbol ? [article.stockSymbol] : [];
+  const title = await translateText(article.title, language, symbols);
+  const content = title.fellBack ? title : await translateText(article.content, language, symbols);
+  if (title.fellBack || content.fellBack) {
+    console.log(`Article ${article.id} not translated into ${language}: ${content.reason}`);
+    return false;
+  }
+
+  await storage.saveArticleTranslation({
+    articleId: article.id,
+    language,
+    title: title.text,
+    content: content.text,
+    sourceHash: articleTextHash(article),
+  });
+  return true;
+}
+
+// Translates up to `limit` new or changed articles into the language, newest first; returns how many were done.
+// Failures are retried with a backoff rather than at the head of every batch.
+export async function translatePendingArticles(language: Language, limit = BATCH_SIZE): Promise<number> {
+  if (!isTranslationEnabled()) {
+    if (!warnedDisabled) console.log('Article translation disabled - no translation provider configured');
+    warnedDisabled = true;
+    return 0;
+  }
+
+  const articles = await getDueArticles(language, limit);
+  let translated = 0;
+  for (const article of articles) {
+    const key = `${language}:${article.id}`;
+    if (await translateArticle(article, language)) {
+      failedTranslations.delete(key);
+      translated++;
+      continue;
+    }
+
+    const sourceHash = articleTextHash(article);
+    const previous = failedTranslations.get(key);
+    const attempts = previous?.sourceHash === sourceHash ? previous.attempts + 1 : 1;
+    failedTranslations.set(key, { sourceHash, attempts, retryAt: Date.now() + TRANSLATION_INTERVAL_MS * 2 ** (attempts - 1) });
+    if (attempts === MAX_TRANSLATION_ATTEMPTS) {
+      console.log(`Giving up translating article ${article.id} into ${language} until its text changes`);
+    }
+  }
+  return translated;
+}
+
+// Pages past articles that are waiting out a failure, so they can't take the whole batch every pass
+async function getDueArticles(language: Language, limit: number): Promise<Article[]> {
+  const now = Date.now();
+  const due: Article[] = [];
+  for (let offset = 0; due.length < limit; offset += limit) {
+    const page = await storage.getArticlesNeedingTranslation(language, limit, offset);
+    page.forEach(article => {
+      const failure = failedTranslations.get(`${language}:${article.id}`);
+      const waiting = failure && failure.sourceHash === articleTextHash(article)
+        && (failure.attempts >= MAX_TRANSLATION_ATTEMPTS || failure.retryAt > now);
+      if (!waiting && due.length < limit) due.push(article);
+    });
+    if (page.length < limit) break;
+  }
+  return due;
+}
+
+// Never runs two passes at once; a request during a pass queues one more pass after it
+export function requestTranslation(): Promise<void> {
+  if (running) {
+    pending = true;
+    return running;
+  }
+
+  running = (async () => {
+    try {
+      do {
+        pending = false;
+        // One batch per language per round, so one language's backlog or failures can't hold up the rest
+        let languages: Language[] = TARGET_LANGUAGES;
+        while (languages.length > 0) {
+          const unfinished: Language[] = [];
+          for (const language of languages) {
+            try {
+              const translated = await translatePendingArticles(language);
+              if (translated > 0) console.log(`Translated ${translated} articles into ${language}`);
+              if (translated === BATCH_SIZE) unfinished.push(language);
+            } catch (error) {
+              console.error(`Article translation into ${language} failed:`, error);
+            }
+          }
+          languages = unfinished;
+        }
+      } while (pending);
+    } catch (error) {
+      console.error('Article translation failed:', error);
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
+
+export function startTranslationJob(): NodeJS.Timeout {
+  requestTranslation();
+  return setInterval(() => {
+    translateLimiter.prune();
+    requestTranslation();
+  }, TRANSLATION_INTERVAL_MS);
+}
+
+// Swaps in each article's translation when it is current. Hindi set by an editor or the sheet
+// (titleHi/contentHi) stands in until the job has translated the latest text; otherwise English.
+export async function localizeArticles<T extends Article>(articles: T[], language: Language): Promise<(T & { language: Language })[]> {
+  if (language === 'en' || articles.length === 0) {
+    return articles.map(article => ({ ...article, language: 'en' as Language }));
+  }
+
+  const translations = await storage.getArticleTranslations(articles.map(article => article.id), language);
+  const byArticle = new Map(translations.map(translation => [translation.articleId, translation]));
+  return articles.map(article => {
+    const translation = byArticle.get(article.id);
+    if (translation && translation.sourceHash === articleTextHash(article)) {
+      return { ...article, title: translation.title, content: translation.content, language };
+    }
+    if (language === 'hi' && article.titleHi && article.contentHi) {
+      return { ...article, title: article.titleHi, content: article.contentHi, language };
+    }
+    return { ...article, language: 'en' as Language };
+  });
+}
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerTranslator, translate, type Translator } from "./translators";
+
+// Stands in for a real backend: records what it was sent and answers with `respond`
+class StubTranslator implements Translator {
+  readonly name = "stub";
+  received: string[] = [];
+  respond = (text: string) => text;
+
+  isAvailable() {
+    return true;
+  }
+
+  async translate(text: string) {
+    this.received.push(text);
+    return this.respond(text);
+  }
+}
+
+let stub: StubTranslator;
+
+beforeEach(() => {
+  stub = new StubTranslator();
+  registerTranslator(stub);
+  vi.stubEnv("TRANSLATION_PROVIDER", "stub");
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("glossary protection", () => {
+  it("hides glossary terms from the backend and puts back the glossary translation", async () => {
+    const result = await translate("Stock hits upper circuit", "hi");
+    expect(stub.received).toEqual(["Stock hits {{0}}"]);
+    expect(result).toEqual({ text: "Stock hits अपर सर्किट", provider: "stub", fellBack: false });
+  });
+
+  it("matches terms regardless of case and keeps the English term where a language has no entry", async () => {
+    const result = await translate("Upper Circuit again", "ta");
+    expect(result.text).toBe("Upper Circuit again");
+  });
+
+  it("prefers the longer term when one contains another", async () => {
+    const result = await translate("Bank Nifty and Nifty both rose", "hi");
+    expect(result.text).toBe("बैंक निफ्टी and निफ्टी both rose");
+  });
+
+  it("keeps stock symbols and upper-case tickers in Latin script", async () => {
+    stub.respond = text => text.replace("rallies", "चढ़ा").replace("on", "पर");
+    const result = await translate("Infy rallies on NSE", "hi", { symbols: ["Infy"] });
+    expect(stub.received).toEqual(["{{0}} rallies on {{1}}"]);
+    expect(result.text).toBe("Infy चढ़ा पर NSE");
+  });
+
+  it("restores tokens the backend padded with spaces", async () => {
+    stub.respond = text => text.replace("{{0}}", "{{ 0 }}");
+    const result = await translate("TCS gains", "hi");
+    expect(result).toMatchObject({ text: "TCS gains", fellBack: false });
+  });
+
+  it("falls back to the original when the backend drops a term", async () => {
+    stub.respond = text => text.replace("{{0}}", "");
+    const result = await translate("Stock hits upper circuit", "hi");
+    expect(result).toMatchObject({ text: "Stock hits upper circuit", fellBack: true, provider: "stub" });
+    expect(result.reason).toContain("not preserved");
+  });
+
+  it("falls back to the original when the backend duplicates a term", async () => {
+    stub.respond = text => `${text} {{0}}`;
+    const result = await translate("RELIANCE gains", "hi");
+    expect(result).toMatchObject({ text: "RELIANCE gains", fellBack: true });
+  });
+
+  it("leaves tokens it did not issue alone", async () => {
+    const result = await translate("Template {{7}} stays", "hi");
+    expect(result).toMatchObject({ text: "Template {{7}} stays", fellBack: false });
+  });
+});
@@ -0,0 +1,283 @@
+import OpenAI from "openai";
+import { v2 as googleTranslate } from "@google-cloud/translate";
+
+// Machine translation backends behind one interface. Whichever backend runs, financial terms from the
+// glossary and stock symbols are swapped for placeholder tokens before translation and put back after,
+// so "upper circuit" or "RELIANCE" always come out the same way.
+
+export interface Translator {
+  readonly name: string;
+  isAvailable(): boolean;
+  // Throws when it cannot translate; never returns the input as if it were a translation
+  translate(text: string, language: string): Promise<string>;
+}
+
+export interface TranslationResult {
+  text: string;
+  provider: string | null;
+  fellBack: boolean; // true when `text` is the original because translation failed
+  reason?: string;
+}
+
+// Terms translated the same way everywhere; languages without an entry keep the English term
+const GLOSSARY: { term: string; translations: Record<string, string> }[] = [
+  { term: "upper circuit", translations: { hi: "अपर सर्किट" } },
+  { term: "lower circuit", translations: { hi: "लोअर सर्किट" } },
+  { term: "52-week high", translations: { hi: "52 सप्ताह का उच्चतम" } },
+  { term: "52-week low", translations: { hi: "52 सप्ताह का निम्नतम" } },
+  { term: "all-time high", translations: { hi: "सर्वकालिक उच्च" } },
+  { term: "all time high", translations: { hi: "सर्वकालिक उच्च" } },
+  { term: "profit booking", translations: { hi: "मुनाफावसूली" } },
+  { term: "stop loss", translations: { hi: "स्टॉप लॉस" } },
+  { term: "market cap", translations: { hi: "मार्केट कैप" } },
+  { term: "intraday", translations: { hi: "इंट्राडे" } },
+  { term: "Bank Nifty", translations: { hi: "बैंक निफ्टी", mr: "बँक निफ्टी" } },
+  { term: "Nifty", translations: { hi: "निफ्टी", mr: "निफ्टी" } },
+  { term: "Sensex", translations: { hi: "सेंसेक्स", mr: "सेन्सेक्स" } },
+];
+
+// Upper-case words are tickers and acronyms (NSE, TCS, IPO) and stay in Latin script
+const SYMBOL_PATTERN = /\b[A-Z][A-Z0-9&]{1,14}\b/g;
+const TOKEN_PATTERN = /\{\{\s*(\d+)\s*\}\}/g;
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  hi: "Hindi (Devanagari script)",
+  gu: "Gujarati (Gujarati script)",
+  mr: "Marathi (Devanagari script)",
+  ta: "Tamil (Tamil script)",
+  te: "Telugu (Telugu script)",
+  bn: "Bengali (Bengali script)",
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  english: "en",
+  hindi: "hi",
+  gujarati: "gu",
+  marathi: "mr",
+  tamil: "ta",
+  telugu: "te",
+  bengali: "bn",
+  bangla: "bn",
+};
+
+export function normalizeLanguage(language: string): string {
+  const code = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[code] ?? code;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Replaces protected terms with {{n}} tokens; `replacements[n]` is what token n becomes afterwards
+function protectTerms(text: string, language: string, symbols: string[]) {
+  const replacements: string[] = [];
+  const token = (replacement: string) => `{{${replacements.push(replacement) - 1}}}`;
+
+  let protectedText = text;
+  GLOSSARY.forEach(({ term, translations }) => {
+    const pattern = new RegExp(`\\b${escapeRegExp(term)}\\b`, "gi");
+    protectedText = protectedText.replace(pattern, match => token(translations[language] ?? match));
+  });
+  symbols.filter(Boolean).forEach(symbol => {
+    const pattern = new RegExp(`\\b${escapeRegExp(symbol)}\\b`, "g");
+    protectedText = protectedText.replace(pattern, match => token(match));
+  });
+  protectedText = protectedText.replace(SYMBOL_PATTERN, match => token(match));
+
+  return { protectedText, replacements };
+}
+
+// Puts protected terms back; throws if the backend dropped or duplicated any of them
+function restoreTerms(translated: string, replacements: string[]): string {
+  const seen = new Array<number>(replacements.length).fill(0);
+  const restored = translated.replace(TOKEN_PATTERN, (match, index: string) => {
+    const i = Number(index);
+    if (i >= replacements.length) return match;
+    seen[i]++;
+    return replacements[i];
+  });
+
+  const lost = seen.findIndex(count => count !== 1);
+  if (lost !== -1) {
+    throw new Error(`Glossary term "${replacements[lost]}" was not preserved`);
+  }
+  return restored;
+}
+
+export class OpenAITranslator implements Translator {
+  readonly name = "openai";
+  private client: OpenAI | null = null;
+
+  isAvailable(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async translate(text: string, language: string): Promise<string> {
+    this.client = this.client || new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const response = await this.client.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content: `You are a professional translator specializing in Indian financial and stock market news. Translate the given text to ${LANGUAGE_NAMES[language] ?? language}, keeping company names, numbers and percentages unchanged. Copy placeholders such as {{0}} exactly as they appear. Return only the translation.`,
+        },
+        { role: "user", content: text },
+      ],
+      temperature: 0.2,
+      max_tokens: 4000,
+    });
+
+    const translated = response.choices[0]?.message?.content?.trim();
+    if (!translated) {
+      throw new Error("Empty translation from OpenAI");
+    }
+    return translated;
+  }
+}
+
+// Google Cloud Translation (v2); uses an API key when set, otherwise application default credentials
+export class GoogleTranslator implements Translator {
+  readonly name = "google";
+  private client: googleTranslate.Translate | null = null;
+
+  isAvailable(): boolean {
+    return !!(process.env.GOOGLE_TRANSLATE_API_KEY || process.env.GOOGLE_APPLICATION_CREDENTIALS);
+  }
+
+  async translate(text: string, language: string): Promise<string> {
+    this.client = this.client || new googleTranslate.Translate({ key: process.env.GOOGLE_TRANSLATE_API_KEY });
+    const [translated] = await this.client.translate(text, { to: language, format: "text" });
+    if (!translated?.trim()) {
+      throw new Error("Empty translation from Google");
+    }
+    return translated.trim();
+  }
+}
+
+// Word-for-word Hindi; crude, but deterministic and offline, which is what tests and local runs need
+export class DictionaryTranslator implements Translator {
+  readonly name = "dictionary";
+
+  private static readonly phrases: [RegExp, string][] = [
+    [/breaks out of (\d+)-year consolidation/gi, "$1 साल के कंसॉलिडेशन से ब्रेकआउट"],
+    [/breaks out of consolidation/gi, "कंसॉलिडेशन से ब्रेकआउट"],
+    [/breaks out/gi, "ब्रेकआउट हुआ"],
+    [/hits new record high/gi, "नया रिकॉर्ड ऊंचा स्तर छूआ"],
+    [/hits record high/gi, "रिकॉर्ड ऊंचाई पर पहुंचा"],
+    [/hits new high/gi, "नई ऊंचाई छूई"],
+    [/reaches new high/gi, "नई ऊंचाई पर पहुंचा"],
+    [/surged above/gi, "से ऊपर उछला"],
+    [/jumped above/gi, "से ऊपर कूदा"],
+    [/zooms (\d+)%/gi, "$1% की तेजी"],
+    [/zooms on/gi, "पर तेजी से बढ़ा"],
+    [/partnership news/gi, "साझेदारी की खबर"],
+    [/on news/gi, "खबर पर"],
+    [/strong rally/gi, "जबरदस्त तेजी"],
+    [/market rally/gi, "बाजार में तेजी"],
+    [/banking rally/gi, "बैंकिंग में तेजी"],
+    [/pharma rally/gi, "फार्मा में तेजी"],
+    [/strong volume/gi, "भारी वॉल्यूम"],
+    [/heavy volume/gi, "भारी वॉल्यूम"],
+    [/with volume/gi, "वॉल्यूम के साथ"],
+    [/buying interest/gi, "खरीदारी में दिलचस्पी"],
+    [/selling pressure/gi, "बिक्री का दबाव"],
+  ];
+
+  private static readonly words: Record<string, string> = {
+    // Financial terms
+    stock: "स्टॉक", stocks: "स्टॉक्स", share: "शेयर", shares: "शेयर्स", market: "बाजार", markets: "बाजारों",
+    price: "कीमत", prices: "कीमतें", value: "मूल्य", trading: "ट्रेडिंग", trade: "ट्रेड", volume: "वॉल्यूम",
+    turnover: "टर्नओवर",
+    // Movement terms
+    surge: "उछाल", surged: "उछला", rally: "तेजी", rallied: "तेजी दिखाई", jump: "कूद", jumped: "कूदा",
+    rise: "वृद्धि", rose: "बढ़ा", fall: "गिरावट", fell: "गिरा", drop: "गिरावट", dropped: "गिरा",
+    // Levels and targets
+    high: "उच्च", higher: "अधिक", low: "निम्न", lower: "कम", level: "स्तर", target: "लक्ष्य",
+    resistance: "प्रतिरोध", support: "सहारा",
+    // Descriptive terms
+    strong: "मजबूत", weak: "कमजोर", positive: "सकारात्मक", negative: "नकारात्मक", bullish: "तेजी भरा",
+    bearish: "मंदी भरा",
+    // Sectors
+    banking: "बैंकिंग", pharma: "फार्मा", auto: "ऑटो", metal: "मेटल", energy: "एनर्जी", power: "पावर",
+    realty: "रियल्टी", telecom: "टेलीकॉम",
+    // Time and numbers
+    percent: "प्रतिशत", percentage: "प्रतिशत", points: "पॉइंट्स", point: "पॉइंट", rupees: "रुपये",
+    crores: "करोड़", today: "आज", yesterday: "कल", week: "सप्ताह", month: "महीना", year: "साल",
+    // Common connectors
+    and: "और", with: "के साथ", after: "के बाद", before: "से पहले", during: "के दौरान", above: "से ऊपर",
+    below: "से नीचे", over: "से अधिक", under: "से कम", on: "पर", at: "में", for: "के लिए", to: "को",
+    from: "से",
+    // News and events
+    news: "खबर", announcement: "घोषणा", partnership: "साझेदारी", deal: "डील", agreement: "समझौता",
+    contract: "अनुबंध", launch: "लॉन्च", expansion: "विस्तार", acquisition: "अधिग्रहण", merger: "विलय",
+    // Technology terms
+    electric: "इलेक्ट्रिक", vehicle: "वाहन", technology: "तकनीक", digital: "डिजिटल", blockchain: "ब्लॉकचेन",
+  };
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async translate(text: string, language: string): Promise<string> {
+    if (language !== "hi") {
+      throw new Error(`The dictionary translator has no "${language}" dictionary`);
+    }
+
+    let translated = text;
+    DictionaryTranslator.phrases.forEach(([pattern, replacement]) => {
+      translated = translated.replace(pattern, replacement);
+    });
+    Object.entries(DictionaryTranslator.words).forEach(([english, hindi]) => {
+      translated = translated.replace(new RegExp(`\\b${english}\\b`, "gi"), hindi);
+    });
+    return translated.replace(/\s+/g, " ").trim();
+  }
+}
+
+const translators = new Map<string, Translator>();
+
+export function registerTranslator(translator: Translator) {
+  translators.set(translator.name, translator);
+}
+
+export function getTranslator(name: string): Translator | undefined {
+  return translators.get(name);
+}
+
+// TRANSLATION_PROVIDER picks a backend; otherwise the first configured of OpenAI and Google.
+// The dictionary is only used when asked for, so production never quietly serves word-for-word Hindi.
+export function getActiveTranslator(): Translator | null {
+  const configured = process.env.TRANSLATION_PROVIDER;
+  if (configured) {
+    const translator = translators.get(configured);
+    return translator?.isAvailable() ? translator : null;
+  }
+  return [translators.get("openai"), translators.get("google")].find(translator => translator?.isAvailable()) ?? null;
+}
+
+// Translates with the active backend, enforcing the glossary. On any failure the original text comes
+// back with fellBack set and the reason, never silently.
+export async function translate(text: string, language: string, options: { symbols?: string[] } = {}): Promise<TranslationResult> {
+  const translator = getActiveTranslator();
+  if (!translator) {
+    const configured = process.env.TRANSLATION_PROVIDER;
+    const reason = configured ? `Translation provider "${configured}" is not available` : "No translation provider configured";
+    return { text, provider: null, fellBack: true, reason };
+  }
+
+  try {
+    const { protectedText, replacements } = protectTerms(text, language, options.symbols ?? []);
+    const translated = await translator.translate(protectedText, language);
+    return { text: restoreTerms(translated, replacements), provider: translator.name, fellBack: false };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(`Translation with ${translator.name} failed:`, reason);
+    return { text, provider: translator.name, fellBack: true, reason };
+  }
+}
+
+registerTranslator(new OpenAITranslator());
+registerTranslator(new GoogleTranslator());
+registerTranslator(new DictionaryTranslator());
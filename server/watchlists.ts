@@ -0,0 +1,63 @@
+import type { Article, StockSymbolSuggestion, Watchlist } from "@shared/schema";
+import { storage } from "./storage";
+
+// Feed category that shows only articles about the user's watchlist symbols
+export const MY_STOCKS_CATEGORY = "my_stocks";
+
+const MAX_WATCHLIST_SIZE = 50;
+const MAX_SUGGESTIONS = 10;
+
+export class WatchlistError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "WatchlistError";
+  }
+}
+
+// Tickers like M&M or BAJAJ-AUTO, plus the multi-word topics the sheet uses (e.g. GOLD ETF)
+export function normalizeSymbol(symbol: unknown): string {
+  const normalized = String(symbol ?? "").trim().replace(/\s+/g, " ").toUpperCase();
+  if (normalized.length > 30 || !/^[A-Z0-9&.-]+( [A-Z0-9&.-]+)*$/.test(normalized)) {
+    throw new WatchlistError("Enter a valid stock symbol");
+  }
+  return normalized;
+}
+
+function normalizeExchange(exchange: unknown): string | null {
+  const normalized = String(exchange ?? "").trim().toUpperCase();
+  return normalized === "NSE" || normalized === "BSE" ? normalized : null;
+}
+
+export async function getWatchlist(userId: number): Promise<Watchlist[]> {
+  return await storage.getWatchlist(userId);
+}
+
+export async function addSymbol(userId: number, symbol: unknown, exchange?: unknown): Promise<Watchlist> {
+  const stockSymbol = normalizeSymbol(symbol);
+  const watchlist = await storage.getWatchlist(userId);
+
+  const existing = watchlist.find(entry => entry.stockSymbol === stockSymbol);
+  if (existing) return existing;
+
+  if (watchlist.length >= MAX_WATCHLIST_SIZE) {
+    throw new WatchlistError(`You can follow up to ${MAX_WATCHLIST_SIZE} stocks`, 409);
+  }
+  return await storage.addToWatchlist({ userId, stockSymbol, exchange: normalizeExchange(exchange) });
+}
+
+export async function removeSymbol(userId: number, symbol: unknown): Promise<void> {
+  await storage.removeFromWatchlist(userId, normalizeSymbol(symbol));
+}
+
+export async function getWatchlistArticles(userId: number | undefined): Promise<Article[]> {
+  if (!userId) return [];
+  const watchlist = await storage.getWatchlist(userId);
+  return await storage.getArticlesBySymbols(watchlist.map(entry => entry.stockSymbol));
+}
+
+// Autocomplete from symbols that have actually appeared in ingested articles
+export async function suggestSymbols(query: unknown): Promise<StockSymbolSuggestion[]> {
+  const prefix = String(query ?? "").trim().replace(/\s+/g, " ").toUpperCase().replace(/[^A-Z0-9&. -]/g, "");
+  if (!prefix) return [];
+  return await storage.searchArticleSymbols(prefix, MAX_SUGGESTIONS);
+}
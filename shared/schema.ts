@@ -1,19 +1,63 @@
-import { pgTable, text, serial, timestamp, integer, boolean, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, timestamp, integer, bigint, boolean, varchar, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const plans = pgTable("plans", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 50 }).notNull().unique(), // 'trial', 'monthly', 'quarterly', 'annual'
+  name: varchar("name", { length: 100 }).notNull(),
+  amount: integer("amount").notNull(), // in paise
+  currency: varchar("currency", { length: 3 }).default("INR").notNull(),
+  durationDays: integer("duration_days").notNull(),
+  isTrial: boolean("is_trial").default(false).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   email: varchar("email", { length: 255 }),
   phoneNumber: varchar("phone_number", { length: 20 }),
   name: varchar("name", { length: 255 }),
   googleId: varchar("google_id", { length: 255 }),
-  isSubscribed: boolean("is_subscribed").default(false).notNull(),
+  isSubscribed: boolean("is_subscribed").default(false).notNull(), // mirrors premium access for older clients
+  subscriptionStatus: varchar("subscription_status", { length: 20 }).default("none").notNull(), // none, active, grace, expired, cancelled
   subscriptionExpiry: timestamp("subscription_expiry"),
+  subscriptionPlanId: integer("subscription_plan_id").references(() => plans.id),
+  subscriptionReminderSentAt: timestamp("subscription_reminder_sent_at"),
+  trialStartedAt: timestamp("trial_started_at"),
+  sessionVersion: integer("session_version").default(0).notNull(), // bumped to sign out every device
   upiTransactionId: varchar("upi_transaction_id", { length: 255 }),
+  role: varchar("role", { length: 20 }).default("reader").notNull(), // 'reader', 'editor', 'admin'
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Login sessions, read and written by connect-pg-simple
+export const sessions = pgTable("sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("sessions_expire_idx").on(table.expire),
+]);
+
+// One-time phone codes and email magic links; only a hash of the secret is stored
+export const authCodes = pgTable("auth_codes", {
+  id: serial("id").primaryKey(),
+  channel: varchar("channel", { length: 20 }).notNull(), // 'phone', 'email'
+  target: varchar("target", { length: 255 }).notNull(), // normalized phone number or email
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  name: varchar("name", { length: 255 }), // used if the sign-in creates a new account
+  attempts: integer("attempts").default(0).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("auth_codes_code_hash_idx").on(table.codeHash),
+  index("auth_codes_target_idx").on(table.channel, table.target),
+]);
+
 export const articles = pgTable("articles", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -24,22 +68,91 @@ export const articles = pgTable("articles", {
   stockSymbol: text("stock_symbol"),
   stockPrice: text("stock_price"),
   priceChange: text("price_change"),
+  // Parsed from the text columns above at ingestion; the text stays as the display value
+  stockPricePaise: bigint("stock_price_paise", { mode: "number" }), // "₹2,845" -> 284500
+  priceChangeBps: integer("price_change_bps"), // "+4.2%" -> 420
+  priceCurrency: varchar("price_currency", { length: 3 }), // 'INR', 'USD'
   exchange: text("exchange"), // 'NSE', 'BSE'
   imageUrl: text("image_url").notNull(),
-  timeAgo: text("time_ago").notNull(),
+  timeAgo: text("time_ago").notNull(), // raw text of the sheet's published column
+  publishedAt: timestamp("published_at").defaultNow().notNull(), // parsed from timeAgo; feeds are sorted on this
+  // Only 'published' articles are in feeds; a 'scheduled' one is published once publishedAt passes
+  publishStatus: varchar("publish_status", { length: 20 }).default("published").notNull(), // 'draft', 'scheduled', 'published'
+  pinnedAt: timestamp("pinned_at"), // pinned articles head their category feed, latest pin first
+  revisedAt: timestamp("revised_at"), // last time the title, body or figures changed after publication; shown to readers as "Updated"
   isPremium: boolean("is_premium").default(false).notNull(), // true for warrant and breakout
   createdAt: timestamp("created_at").defaultNow().notNull(),
   source: text("source"),
   sentiment: text("sentiment"), // 'bullish', 'bearish', 'neutral'
-});
+  // Derived from the label above, the price move and the text (server/sentiment.ts); null until classified
+  sentimentLabel: varchar("sentiment_label", { length: 10 }), // 'bullish', 'bearish', 'neutral'
+  sentimentConfidence: integer("sentiment_confidence"), // 0-100
+  sentimentSource: varchar("sentiment_source", { length: 20 }), // 'editorial', 'price', 'text', 'price_and_text', 'none'
+  sentimentReason: text("sentiment_reason"), // what decided it, e.g. 'Price +4.2%; text: "surged", "record high"'
+  // 'incomplete' articles are held for editorial review and hidden from feeds; contentFlags says why
+  contentStatus: varchar("content_status", { length: 20 }).default("complete").notNull(), // 'complete', 'incomplete'
+  contentFlags: text("content_flags").array().default([]).notNull(), // 'empty', 'duplicate', 'boilerplate'
+  sheetId: text("sheet_id").unique(), // id within the content source (the sheet's id column), stable across syncs
+  contentSource: text("content_source"), // name of the ContentSource that owns the row; null for articles created in the app
+  sourceHash: text("source_hash"), // hash of the source row as last ingested; unchanged rows are skipped
+  storyClusterId: integer("story_cluster_id"), // id of the first report of the same story; null when no other source covers it
+  viewCount: integer("view_count").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  archivedAt: timestamp("archived_at"), // set when the row disappears from the sheet
+}, (table) => [
+  index("articles_published_at_idx").on(table.publishedAt),
+  index("articles_publish_status_idx").on(table.publishStatus),
+  index("articles_story_cluster_id_idx").on(table.storyClusterId),
+]);
 
 export const bookmarks = pgTable("bookmarks", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   articleId: integer("article_id").notNull().references(() => articles.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("bookmarks_user_article_idx").on(table.userId, table.articleId),
+]);
+
+// Stocks a user follows; symbols are stored upper-cased to match articles.stock_symbol
+export const watchlists = pgTable("watchlists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  stockSymbol: varchar("stock_symbol", { length: 50 }).notNull(),
+  exchange: varchar("exchange", { length: 10 }), // 'NSE', 'BSE'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("watchlists_user_symbol_idx").on(table.userId, table.stockSymbol),
+]);
+
+// What a user wants to be alerted about; stockSymbol null means "any symbol on my watchlist"
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: varchar("type", { length: 30 }).notNull(), // 'symbol_article', 'price_move', 'watchlist_category'
+  stockSymbol: varchar("stock_symbol", { length: 50 }),
+  thresholdBps: integer("threshold_bps"), // price_move: absolute change in basis points (500 = 5%)
+  categories: text("categories").array(), // watchlist_category: e.g. ['breakout', 'warrant']
+  channels: text("channels").array().default(["in_app"]).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Inbox entries; one per rule and article, so re-ingesting an article never alerts twice
+export const alerts = pgTable("alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  ruleId: integer("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+  articleId: integer("article_id").notNull().references(() => articles.id),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("alerts_rule_article_idx").on(table.ruleId, table.articleId),
+  index("alerts_user_created_idx").on(table.userId, table.createdAt),
+]);
+
 export const readLater = pgTable("read_later", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
@@ -50,11 +163,85 @@ export const readLater = pgTable("read_later", {
 export const upiPayments = pgTable("upi_payments", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
+  planId: integer("plan_id").references(() => plans.id),
   amount: integer("amount").notNull(), // in paise (INR 11 = 1100 paise)
+  currency: varchar("currency", { length: 3 }).default("INR").notNull(),
   upiTransactionId: varchar("upi_transaction_id", { length: 255 }).notNull(),
-  status: varchar("status", { length: 50 }).notNull(), // pending, completed, failed
+  status: varchar("status", { length: 50 }).notNull(), // pending, completed, failed, rejected
   paymentMethod: varchar("payment_method", { length: 100 }).notNull(), // UPI app name
+  provider: varchar("provider", { length: 50 }).default("upi").notNull(), // razorpay, fake
+  providerOrderId: varchar("provider_order_id", { length: 255 }).unique(),
+  providerPaymentId: varchar("provider_payment_id", { length: 255 }),
+  settledAt: timestamp("settled_at"), // set once by the verified webhook
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Machine translations keyed by a hash of the source text, so the same text is never sent for translation twice
+export const translations = pgTable("translations", {
+  id: serial("id").primaryKey(),
+  language: varchar("language", { length: 10 }).notNull(), // target language, e.g. 'hi'
+  sourceHash: varchar("source_hash", { length: 64 }).notNull(), // sha256 of the source text
+  translatedText: text("translated_text").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("translations_language_source_hash_idx").on(table.language, table.sourceHash),
+]);
+
+// An article's title and body in one reader language. Out of date, and not served, once the English
+// text changes and sourceHash no longer matches it.
+export const articleTranslations = pgTable("article_translations", {
+  id: serial("id").primaryKey(),
+  articleId: integer("article_id").notNull().references(() => articles.id),
+  language: varchar("language", { length: 10 }).notNull(), // 'hi', 'gu', 'mr', 'ta', 'te', 'bn'
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  sourceHash: varchar("source_hash", { length: 32 }).notNull(), // md5 of the English title and content it was translated from
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("article_translations_article_language_idx").on(table.articleId, table.language),
+]);
+
+// Snapshot of an article after each change, with what changed, so edits can be audited and undone
+export const articleRevisions = pgTable("article_revisions", {
+  id: serial("id").primaryKey(),
+  articleId: integer("article_id").notNull().references(() => articles.id),
+  source: varchar("source", { length: 20 }).notNull(), // 'sheet_sync', 'editor', 'system'
+  userId: integer("user_id").references(() => users.id), // the editor, for editor changes
+  note: text("note"), // e.g. which revision a revert went back to
+  changes: jsonb("changes").$type<Record<string, ArticleFieldChange>>().notNull(), // empty for the first revision
+  snapshot: jsonb("snapshot").$type<Record<string, unknown>>().notNull(), // tracked fields as they were after this change
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("article_revisions_article_id_idx").on(table.articleId, table.createdAt),
+]);
+
+// One row per sheet sync, with what happened to every row so editors can see why a row is missing
+export const ingestionRuns = pgTable("ingestion_runs", {
+  id: serial("id").primaryKey(),
+  source: varchar("source", { length: 50 }).notNull(), // ContentSource name, e.g. 'google_sheets'
+  status: varchar("status", { length: 20 }).notNull(), // 'succeeded', 'failed'
+  totalRows: integer("total_rows").default(0).notNull(),
+  acceptedRows: integer("accepted_rows").default(0).notNull(),
+  correctedRows: integer("corrected_rows").default(0).notNull(),
+  rejectedRows: integer("rejected_rows").default(0).notNull(),
+  incompleteRows: integer("incomplete_rows").default(0).notNull(),
+  error: text("error"), // why the run failed before any rows were read
+  // What the run changed; unchanged rows matched their stored hash and weren't written
+  insertedCount: integer("inserted_count").default(0).notNull(),
+  updatedCount: integer("updated_count").default(0).notNull(),
+  archivedCount: integer("archived_count").default(0).notNull(),
+  unchangedCount: integer("unchanged_count").default(0).notNull(),
+  durationMs: integer("duration_ms").default(0).notNull(),
+  rows: jsonb("rows").$type<IngestionRowReport[]>().default([]).notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").defaultNow().notNull(),
+}, (table) => [
+  index("ingestion_runs_source_started_idx").on(table.source, table.startedAt),
+]);
+
+export const insertPlanSchema = createInsertSchema(plans).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
@@ -65,6 +252,58 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export const insertArticleSchema = createInsertSchema(articles).omit({
   id: true,
   createdAt: true,
+  viewCount: true,
+  updatedAt: true,
+  archivedAt: true,
+  stockPricePaise: true,
+  priceChangeBps: true,
+  priceCurrency: true,
+  contentSource: true,
+  storyClusterId: true,
+  revisedAt: true,
+  sentimentLabel: true,
+  sentimentConfidence: true,
+  sentimentSource: true,
+  sentimentReason: true,
+});
+
+export const USER_ROLES = ['reader', 'editor', 'admin'] as const;
+export const PUBLISH_STATUSES = ['draft', 'scheduled', 'published'] as const;
+export const REVISION_SOURCES = ['sheet_sync', 'editor', 'system'] as const;
+export const SENTIMENT_LABELS = ['bullish', 'bearish', 'neutral'] as const;
+// Reader languages; English is the source text, the rest are machine translated
+export const SUPPORTED_LANGUAGES = ['en', 'hi', 'gu', 'mr', 'ta', 'te', 'bn'] as const;
+
+// What the admin console sends when an editor writes or corrects an article
+export const editorArticleSchema = insertArticleSchema.pick({
+  title: true,
+  content: true,
+  titleHi: true,
+  contentHi: true,
+  category: true,
+  stockSymbol: true,
+  stockPrice: true,
+  priceChange: true,
+  exchange: true,
+  imageUrl: true,
+  isPremium: true,
+  source: true,
+  sentiment: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required"),
+  content: z.string().trim().min(1, "Content is required"),
+  category: z.string().trim().min(1, "Category is required"),
+  imageUrl: z.string().trim().default(""),
+  publishStatus: z.enum(PUBLISH_STATUSES).default("draft"),
+  publishedAt: z.coerce.date().optional(), // the publish-at time when scheduled
+  pinned: z.boolean().optional(),
+});
+
+export const insertAuthCodeSchema = createInsertSchema(authCodes).omit({
+  id: true,
+  attempts: true,
+  consumedAt: true,
+  createdAt: true,
 });
 
 export const insertBookmarkSchema = createInsertSchema(bookmarks).omit({
@@ -72,6 +311,42 @@ export const insertBookmarkSchema = createInsertSchema(bookmarks).omit({
   createdAt: true,
 });
 
+export const insertWatchlistSchema = createInsertSchema(watchlists).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAlertSchema = createInsertSchema(alerts).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const insertTranslationSchema = createInsertSchema(translations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertArticleTranslationSchema = createInsertSchema(articleTranslations).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertArticleRevisionSchema = createInsertSchema(articleRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertIngestionRunSchema = createInsertSchema(ingestionRuns).omit({
+  id: true,
+  finishedAt: true,
+});
+
 export const insertReadLaterSchema = createInsertSchema(readLater).omit({
   id: true,
   createdAt: true,
@@ -80,6 +355,7 @@ export const insertReadLaterSchema = createInsertSchema(readLater).omit({
 export const insertUpiPaymentSchema = createInsertSchema(upiPayments).omit({
   id: true,
   createdAt: true,
+  settledAt: true,
 });
 
 export const articleViews = pgTable("article_views", {
@@ -95,15 +371,83 @@ export const insertArticleViewSchema = createInsertSchema(articleViews).omit({
   createdAt: true,
 });
 
+export type InsertPlan = z.infer<typeof insertPlanSchema>;
+export type Plan = typeof plans.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserRole = typeof USER_ROLES[number];
+export type InsertAuthCode = z.infer<typeof insertAuthCodeSchema>;
+export type AuthCode = typeof authCodes.$inferSelect;
 export type InsertArticle = z.infer<typeof insertArticleSchema>;
 export type Article = typeof articles.$inferSelect;
+export type PublishStatus = typeof PUBLISH_STATUSES[number];
+export type EditorArticle = z.infer<typeof editorArticleSchema>;
 export type InsertBookmark = z.infer<typeof insertBookmarkSchema>;
 export type Bookmark = typeof bookmarks.$inferSelect;
+export type InsertWatchlist = z.infer<typeof insertWatchlistSchema>;
+export type Watchlist = typeof watchlists.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+export type Alert = typeof alerts.$inferSelect;
+export type InsertTranslation = z.infer<typeof insertTranslationSchema>;
+export type Translation = typeof translations.$inferSelect;
+export type InsertArticleTranslation = z.infer<typeof insertArticleTranslationSchema>;
+export type ArticleTranslation = typeof articleTranslations.$inferSelect;
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+export type SentimentLabel = typeof SENTIMENT_LABELS[number];
+export type InsertArticleRevision = z.infer<typeof insertArticleRevisionSchema>;
+export type ArticleRevision = typeof articleRevisions.$inferSelect;
+export type RevisionSource = typeof REVISION_SOURCES[number];
+export type InsertIngestionRun = z.infer<typeof insertIngestionRunSchema>;
+export type IngestionRun = typeof ingestionRuns.$inferSelect;
+
+// A symbol seen in ingested articles, offered as a watchlist suggestion
+export interface StockSymbolSuggestion {
+  stockSymbol: string;
+  exchange: string | null;
+  articleCount: number;
+}
 export type InsertReadLater = z.infer<typeof insertReadLaterSchema>;
 export type ReadLater = typeof readLater.$inferSelect;
 export type InsertUpiPayment = z.infer<typeof insertUpiPaymentSchema>;
 export type UpiPayment = typeof upiPayments.$inferSelect;
 export type InsertArticleView = z.infer<typeof insertArticleViewSchema>;
 export type ArticleView = typeof articleViews.$inferSelect;
+
+// Premium articles sent to non-subscribers are reduced to a teaser and flagged as locked
+// moreSources counts the other reports of the same story folded into this card
+// language is what title and content are in when another language was asked for; 'en' when it fell back
+export type FeedArticle = Article & { locked?: boolean; moreSources?: number; language?: Language };
+
+// Body of the 402 returned when a non-subscriber opens a premium article
+export interface PremiumRequiredResponse {
+  message: string;
+  code: "PREMIUM_REQUIRED";
+  triggerType: "warrant" | "breakout" | "general";
+  article: FeedArticle;
+}
+
+// A problem found in one sheet cell and what ingestion did about it
+export interface IngestionIssue {
+  column: string; // sheet column letter, e.g. "D"
+  problem: string;
+  action: string;
+}
+
+// accepted: ingested as-is; corrected: ingested after fixing the issues; rejected: skipped
+export interface IngestionRowReport {
+  tab: string;
+  rowNumber: number;
+  sheetId: string | null;
+  title: string | null;
+  // incomplete rows are stored but held for editorial review
+  status: "accepted" | "corrected" | "incomplete" | "rejected";
+  issues: IngestionIssue[];
+}
+
+// One field's value before and after a revision
+export interface ArticleFieldChange {
+  from: unknown;
+  to: unknown;
+}